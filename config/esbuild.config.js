@@ -24,11 +24,58 @@ const commonConfig = {
   legalComments: 'none',
 };
 
+// The content script, built as ES modules so that the language modes and
+// themes it imports dynamically become chunks
+const contentModulesConfig = {
+  ...commonConfig,
+  format: 'esm',
+  splitting: true,
+  entryPoints: [path.join(rootDir, 'src/content.ts')],
+  outdir: path.join(rootDir, 'modules'),
+  chunkNames: 'chunks/[name]-[hash]',
+};
+
+// Most the content script may load on a page before it needs a language
+// mode or a theme, which are split into chunks loaded on demand
+const CONTENT_SIZE_BUDGET = 900 * 1024;
+
+/**
+ * Bytes of an output file and of the chunks it statically imports, which
+ * the browser all loads before running it
+ */
+function getInitialLoadSize(metafile, file, seen = new Set()) {
+  if (seen.has(file)) return 0;
+  seen.add(file);
+
+  const output = metafile.outputs[file];
+  return output.imports
+    .filter(({ kind }) => kind === 'import-statement')
+    .reduce((size, { path }) => size + getInitialLoadSize(metafile, path, seen), output.bytes);
+}
+
+/**
+ * Fail the build when the content script outgrows its budget, e.g. when
+ * a dynamic import is inlined again
+ */
+function checkContentSize(metafile, entryFile) {
+  const size = getInitialLoadSize(metafile, entryFile);
+  console.log(`  📏 Content script loads ${size} bytes up front`);
+  if (size > CONTENT_SIZE_BUDGET) {
+    throw new Error(
+      `The content script loads ${size} bytes up front, over its budget of ${CONTENT_SIZE_BUDGET}`
+    );
+  }
+}
+
 /**
  * Copy WASM files and JS wrappers from node_modules to output directory
  */
 function copyWasmFiles() {
   const wasmPackages = [
+    {
+      name: '@wasm-fmt/biome_fmt',
+      files: ['biome_fmt_web.js', 'biome_fmt_bg.js', 'biome_fmt_bg.wasm'],
+    },
     {
       name: '@wasm-fmt/ruff_fmt',
       files: ['ruff_fmt_web.js', 'ruff_fmt_bg.js', 'ruff_fmt_bg.wasm'],
@@ -105,11 +152,23 @@ async function build() {
     });
     console.log('✅ Background script built\n');
 
+    // Build format worker, spawned by the background script
+    console.log('📦 Building format worker...');
+    await esbuild.build({
+      ...commonConfig,
+      entryPoints: [path.join(rootDir, 'src/format-worker.ts')],
+      outfile: path.join(rootDir, 'format-worker.min.js'),
+    });
+    console.log('✅ Format worker built\n');
+
     // Build content script with CodeMirror
     console.log('📦 Building content script (with CodeMirror)...');
+    const content = await esbuild.build({ ...contentModulesConfig, metafile: true });
+    checkContentSize(content.metafile, 'modules/content.js');
+    // The registered content script, which imports the modules
     await esbuild.build({
       ...commonConfig,
-      entryPoints: [path.join(rootDir, 'src/content.ts')],
+      entryPoints: [path.join(rootDir, 'src/content-loader.ts')],
       outfile: path.join(rootDir, 'content.min.js'),
       footer: { js: '// Content script built successfully' },
     });
@@ -146,7 +205,9 @@ async function build() {
     console.log('🎉 Build completed successfully!');
     console.log('\n📁 Output files:');
     console.log('  - background.min.js');
+    console.log('  - format-worker.min.js');
     console.log('  - content.min.js');
+    console.log('  - modules/ (content script modules and chunks)');
     console.log('  - options.js');
     console.log('  - changelog.js');
     console.log('  - wasm/ (WASM binaries and JS wrappers)');
@@ -164,15 +225,17 @@ if (process.argv.includes('--watch')) {
     ...commonConfig,
     entryPoints: [
       path.join(rootDir, 'src/background.ts'),
-      path.join(rootDir, 'src/content.ts'),
+      path.join(rootDir, 'src/format-worker.ts'),
+      path.join(rootDir, 'src/content-loader.ts'),
       path.join(rootDir, 'src/options.ts'),
       path.join(rootDir, 'src/changelog.ts'),
     ],
     outdir: rootDir,
   });
+  const contentCtx = esbuild.context(contentModulesConfig);
 
-  ctx.then(context => {
-    context.watch();
+  Promise.all([ctx, contentCtx]).then(contexts => {
+    contexts.forEach(context => context.watch());
     console.log('👀 Watching for changes...');
   });
 } else {
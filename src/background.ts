@@ -8,23 +8,50 @@
 
 import {
   formatterRegistry,
+  normalizeLanguage,
+  executeFormatJob,
+  FormatWorkerPool,
+  PersistentFormatCache,
+  runJsonTool,
+  JSON_TOOLS,
+  convertDocument,
+  type FormatJob,
   type FormatterSettings,
   type FormatResult,
 } from "./formatters";
 import type {
+  CancelFormatMessage,
   ExtensionMessage,
   FormatMessage,
+  FormatRangeMessage,
   FormatResponse,
+  JsonToolMessage,
+  ConvertMessage,
   GetSupportedLanguagesResponse,
+  GetFormattersResponse,
+  GetCacheStatsResponse,
   CheckLanguageSupportResponse,
 } from "./shared/types";
 import {
   LANGUAGE_DEFAULTS,
   CONTEXT_MENU_LANGUAGE_MAP,
+  CONTEXT_MENU_CONVERT_MAP,
 } from "./shared/constants";
-
-const formatCache = new Map<string, string>();
-const MAX_CACHE_SIZE = 50;
+import { isDataFormat } from "./shared/utils";
+
+const MAX_CACHE_BYTES = 20 * 1024 * 1024;
+const formatCache = new PersistentFormatCache(
+  chrome.runtime.getManifest().version,
+  MAX_CACHE_BYTES,
+);
+
+// Settings that only change how code is displayed, not how it is formatted
+const DISPLAY_SETTING_KEYS = new Set([
+  "theme",
+  "fontSize",
+  "lineHeight",
+  "wrapLines",
+]);
 
 const MAX_CODE_SIZE = 1024 * 1024;
 
@@ -147,6 +174,64 @@ function validateFormatMessage(msg: unknown): string | null {
   return null; // Valid
 }
 
+/**
+ * Validates the range of a formatRange message against its code
+ * Returns error message if invalid, null if valid
+ */
+function validateRange(msg: Record<string, unknown>): string | null {
+  const range = msg.range as Record<string, unknown> | undefined;
+  if (!range || typeof range !== "object") {
+    return "Missing required parameter: range";
+  }
+
+  const { from, to } = range;
+  if (!Number.isInteger(from) || !Number.isInteger(to)) {
+    return 'Parameter "range" must have integer "from" and "to" offsets';
+  }
+  if (
+    (from as number) < 0 ||
+    (from as number) > (to as number) ||
+    (to as number) > (msg.code as string).length
+  ) {
+    return 'Parameter "range" is outside of the code';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the tool and query of a jsonTool message
+ * Returns error message if invalid, null if valid
+ */
+function validateJsonTool(msg: Record<string, unknown>): string | null {
+  if (!JSON_TOOLS.includes(msg.tool as JsonToolMessage["tool"])) {
+    return `Unknown JSON tool: ${String(msg.tool)}`;
+  }
+  if (
+    msg.tool === "query" &&
+    (typeof msg.query !== "string" || !msg.query.trim())
+  ) {
+    return "Missing required parameter: query";
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the target and source formats of a convert message
+ * Returns error message if invalid, null if valid
+ */
+function validateConvert(msg: Record<string, unknown>): string | null {
+  if (!isDataFormat(String(msg.language))) {
+    return `Cannot convert to ${String(msg.language)}`;
+  }
+  if (msg.from !== undefined && !isDataFormat(String(msg.from))) {
+    return `Cannot convert from ${String(msg.from)}`;
+  }
+
+  return null; // Valid
+}
+
 /**
  * Generate a secure cache key using SHA-256 hash
  * Uses Web Crypto API for cryptographic hashing to prevent collisions
@@ -173,14 +258,18 @@ async function hashKey(
 
 /**
  * Convert extension settings to formatter settings
- * Merges language-specific defaults with user settings (user settings take precedence)
+ * Forwards every formatter option; language defaults only fill in what
+ * the message leaves out
  */
 function convertSettings(
   settings?: FormatMessage["settings"],
   language?: string,
 ): FormatterSettings {
-  // Get language-specific defaults if available
-  const langDefaults = language ? LANGUAGE_DEFAULTS[language] : undefined;
+  // The content script already resolves settings for the language
+  // (see resolveLanguageSettings), so user values win here
+  const langDefaults = language
+    ? LANGUAGE_DEFAULTS[normalizeLanguage(language)]
+    : undefined;
 
   // Parse indent size from settings
   const indentSize =
@@ -188,19 +277,87 @@ function convertSettings(
       ? parseInt(settings.indentSize as string, 10) || 2
       : (settings?.indentSize ?? langDefaults?.indentSize ?? 2);
 
-  // Build formatter settings with priority: user settings > language defaults > global defaults
   return {
     indentSize,
     useTabs: settings?.useTabs ?? langDefaults?.useTabs ?? false,
-    singleQuote: settings?.singleQuote ?? langDefaults?.singleQuote ?? true,
-    semi: settings?.semi ?? langDefaults?.semi ?? true,
+    singleQuote: settings?.singleQuote ?? true,
+    semi: settings?.semi ?? true,
     trailingComma: settings?.trailingComma ?? "es5",
+    printWidth: settings?.printWidth,
+    bracketSpacing: settings?.bracketSpacing,
+    arrowParens: settings?.arrowParens,
+    // js-beautify options
+    e4x: settings?.e4x,
+    spaceInEmptyParens: settings?.spaceInEmptyParens,
+    unescapeStrings: settings?.unescapeStrings,
+    keepArrayIndentation: settings?.keepArrayIndentation,
+    // WASM formatter options
+    quoteStyle: settings?.quoteStyleWasm,
+    keywordCase: settings?.keywordCase,
+    commaPosition: settings?.commaPosition,
+    // TOML options
+    alignEntries: settings?.alignEntries,
+    alignComments: settings?.alignComments,
+    indentTables: settings?.indentTables,
+    // NDJSON options
+    ndjsonStyle: settings?.ndjsonStyle,
   };
 }
 
 /**
- * Format code using the formatter registry, with caching
+ * Resolve the user's preferred formatter engine for a language, if any
+ */
+function getPreferredFormatterId(
+  settings: FormatMessage["settings"] | undefined,
+  language: string,
+): string | undefined {
+  const preferences = settings?.formatterByLanguage;
+  if (!preferences || typeof preferences !== "object") return undefined;
+
+  const preferred = preferences[normalizeLanguage(language)];
+  return typeof preferred === "string" ? preferred : undefined;
+}
+
+/**
+ * Convert the settings resolved for each language of the code blocks
+ * embedded in a document
+ */
+function convertEmbeddedSettings(
+  embeddedSettings: FormatMessage["embeddedSettings"],
+): FormatterSettings["embedded"] {
+  if (!embeddedSettings) return undefined;
+
+  return Object.fromEntries(
+    Object.entries(embeddedSettings).map(([language, settings]) => [
+      normalizeLanguage(language),
+      {
+        settings: convertSettings(settings, language),
+        preferredId: getPreferredFormatterId(settings, language),
+      },
+    ]),
+  );
+}
+
+/**
+ * Build the engine choices for every language that has more than one
  */
+function getFormatterChoices(): GetFormattersResponse["formatters"] {
+  const choices: GetFormattersResponse["formatters"] = {};
+
+  for (const language of formatterRegistry.getSupportedLanguages()) {
+    const formatters = formatterRegistry.getFormattersForLanguage(language);
+    if (formatters.length < 2) continue;
+
+    choices[language] = formatters.map((f) => ({
+      id: f.metadata.id,
+      name: f.metadata.name,
+      description: f.metadata.description,
+    }));
+  }
+
+  return choices;
+}
+
 const FORMAT_TIMEOUT_MS = 10000;
 
 function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
@@ -221,10 +378,53 @@ function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
   });
 }
 
+// Background pages can spawn workers; service workers cannot, so there
+// formatting stays in place and a timeout can only abandon the job
+const workerPool =
+  typeof Worker !== "undefined"
+    ? new FormatWorkerPool(
+        (family) =>
+          new Worker(chrome.runtime.getURL("format-worker.min.js"), {
+            name: `format-${family}`,
+          }),
+        FORMAT_TIMEOUT_MS,
+      )
+    : null;
+
+/**
+ * Run a formatting job on the worker pool
+ * @param jobKey - Identifies the job for a later cancelFormat message
+ */
+async function runFormatJob(
+  job: FormatJob,
+  jobKey?: string,
+): Promise<FormatResult> {
+  if (workerPool) {
+    return workerPool.run(job, jobKey);
+  }
+  return withTimeout(executeFormatJob(job), FORMAT_TIMEOUT_MS);
+}
+
+/**
+ * Key of a cancellable job; job ids are only unique per tab
+ */
+function getJobKey(
+  sender: chrome.runtime.MessageSender,
+  jobId: unknown,
+): string | undefined {
+  if (typeof jobId !== "string" || !jobId) return undefined;
+  return `${sender.tab?.id ?? "extension"}:${jobId}`;
+}
+
+/**
+ * Format code using the formatter registry, with caching
+ */
 async function formatCode(
   code: string,
   language: string,
   settings?: FormatMessage["settings"],
+  jobKey?: string,
+  embeddedSettings?: FormatMessage["embeddedSettings"],
 ): Promise<FormatResult> {
   if (!formatterRegistry.isSupported(language)) {
     return {
@@ -234,28 +434,37 @@ async function formatCode(
     };
   }
 
-  const formatterSettings = convertSettings(settings, language);
-  const key = await hashKey(code, language, formatterSettings);
-  const cached = formatCache.get(key);
+  const formatterSettings: FormatterSettings = {
+    ...convertSettings(settings, language),
+    embedded: convertEmbeddedSettings(embeddedSettings),
+  };
+  const formatter = formatterRegistry.getFormatter(
+    language,
+    getPreferredFormatterId(settings, language),
+  );
+  const formatterId = formatter?.metadata.id ?? "none";
+  const key = formatCache.createKey(
+    await hashKey(code, `${language}:${formatterId}`, formatterSettings),
+    formatterId,
+  );
+  const cached = await formatCache.get(key);
   if (cached) {
-    return { success: true, code: cached };
+    return cached;
   }
 
   try {
-    const result = await withTimeout(
-      formatterRegistry.format(code, language, formatterSettings),
-      FORMAT_TIMEOUT_MS,
+    const result = await runFormatJob(
+      {
+        code,
+        language,
+        settings: formatterSettings,
+        preferredId: formatter?.metadata.id,
+      },
+      jobKey,
     );
 
     if (result.success) {
-      while (formatCache.size >= MAX_CACHE_SIZE && formatCache.size > 0) {
-        const firstKey = formatCache.keys().next().value;
-        if (firstKey === undefined) break;
-        formatCache.delete(firstKey);
-      }
-      if (formatCache.size < MAX_CACHE_SIZE) {
-        formatCache.set(key, result.code);
-      }
+      await formatCache.set(key, result);
     }
 
     return result;
@@ -271,6 +480,84 @@ async function formatCode(
   }
 }
 
+/**
+ * Format a region of the code using the formatter registry
+ * Not cached: range requests are user-triggered and rarely repeat
+ */
+async function formatRange(
+  code: string,
+  language: string,
+  range: FormatRangeMessage["range"],
+  settings?: FormatRangeMessage["settings"],
+): Promise<FormatResult> {
+  try {
+    return await runFormatJob({
+      code,
+      language,
+      range,
+      settings: convertSettings(settings, language),
+      preferredId: getPreferredFormatterId(settings, language),
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Formatting failed";
+    console.error("[Code Formatter] Range format error:", errorMessage);
+    return {
+      success: false,
+      code,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Convert a document to another data format, then run the result through
+ * that format's formatter so it matches the user's settings
+ * The serialized output is kept if the formatter fails on it
+ */
+async function convertCode(message: ConvertMessage): Promise<FormatResponse> {
+  const conversion = convertDocument(
+    message.code,
+    message.language,
+    message.from,
+    convertSettings(message.settings, message.language),
+  );
+  if (!conversion.success) {
+    return toFormatResponse(conversion);
+  }
+
+  const formatted = await formatCode(
+    conversion.code,
+    message.language,
+    message.settings,
+  );
+  return {
+    ...toFormatResponse(formatted.success ? formatted : conversion),
+    warnings: conversion.warnings,
+  };
+}
+
+function toFormatResponse(result: FormatResult): FormatResponse {
+  if (result.success) {
+    return {
+      success: true,
+      code: result.code,
+      formatter: result.formatterName,
+      skipped: result.skipped,
+      // Problems the output was formatted despite, e.g. an NDJSON record
+      // or a Markdown code block that could not be formatted
+      diagnostics: result.diagnostics,
+    };
+  }
+  return {
+    success: false,
+    error: result.error || "Formatting failed",
+    skipped: result.skipped,
+    diagnostics: result.diagnostics,
+    cancelled: result.cancelled,
+  };
+}
+
 // ============================================================================
 // Message Handling
 // ============================================================================
@@ -294,7 +581,13 @@ function setupMessageHandlers(): void {
       }
 
       // Apply rate limiting for format requests
-      if (message.action === "format" && sender.tab?.id) {
+      if (
+        (message.action === "format" ||
+          message.action === "formatRange" ||
+          message.action === "jsonTool" ||
+          message.action === "convert") &&
+        sender.tab?.id
+      ) {
         if (!checkRateLimit(sender.tab.id)) {
           sendResponse({
             success: false,
@@ -315,17 +608,14 @@ function setupMessageHandlers(): void {
         const formatMsg = message as unknown as FormatMessage;
 
         // Use async/await with Promise
-        formatCode(formatMsg.code, formatMsg.language, formatMsg.settings)
-          .then((result) => {
-            if (result.success) {
-              sendResponse({ success: true, code: result.code });
-            } else {
-              sendResponse({
-                success: false,
-                error: result.error || "Formatting failed",
-              });
-            }
-          })
+        formatCode(
+          formatMsg.code,
+          formatMsg.language,
+          formatMsg.settings,
+          getJobKey(sender, formatMsg.jobId),
+          formatMsg.embeddedSettings,
+        )
+          .then((result) => sendResponse(toFormatResponse(result)))
           .catch((error) => {
             console.error("[Code Formatter] Formatting error:", error);
             sendResponse({
@@ -334,6 +624,81 @@ function setupMessageHandlers(): void {
                 error instanceof Error ? error.message : "Formatting failed",
             });
           });
+      } else if (message.action === "formatRange") {
+        const validationError =
+          validateFormatMessage(message) ??
+          validateRange(message as Record<string, unknown>);
+        if (validationError) {
+          sendResponse({ success: false, error: validationError });
+          return true;
+        }
+
+        const rangeMsg = message as unknown as FormatRangeMessage;
+
+        formatRange(
+          rangeMsg.code,
+          rangeMsg.language,
+          rangeMsg.range,
+          rangeMsg.settings,
+        ).then((result) => sendResponse(toFormatResponse(result)));
+      } else if (message.action === "jsonTool") {
+        const validationError =
+          validateFormatMessage(message) ??
+          validateJsonTool(message as Record<string, unknown>);
+        if (validationError) {
+          sendResponse({ success: false, error: validationError });
+          return true;
+        }
+
+        const toolMsg = message as unknown as JsonToolMessage;
+        const result = runJsonTool(
+          toolMsg.code,
+          toolMsg.tool,
+          convertSettings(toolMsg.settings, toolMsg.language),
+          toolMsg.query,
+        );
+        sendResponse(toFormatResponse(result));
+      } else if (message.action === "convert") {
+        const validationError =
+          validateFormatMessage(message) ??
+          validateConvert(message as Record<string, unknown>);
+        if (validationError) {
+          sendResponse({ success: false, error: validationError });
+          return true;
+        }
+
+        convertCode(message as unknown as ConvertMessage).then(sendResponse);
+      } else if (message.action === "cancelFormat") {
+        const cancelMsg = message as CancelFormatMessage;
+        const jobKey = getJobKey(sender, cancelMsg.jobId);
+        sendResponse({
+          success: Boolean(jobKey && workerPool?.cancel(jobKey)),
+        });
+      } else if (message.action === "getCacheStats") {
+        formatCache
+          .getStats()
+          .then((stats) => {
+            const response: GetCacheStatsResponse = { success: true, stats };
+            sendResponse(response);
+          })
+          .catch((error) => {
+            sendResponse({
+              success: false,
+              error:
+                error instanceof Error ? error.message : "Cache unavailable",
+            });
+          });
+      } else if (message.action === "clearCache") {
+        formatCache
+          .clear()
+          .then(() => sendResponse({ success: true }))
+          .catch((error) => {
+            sendResponse({
+              success: false,
+              error:
+                error instanceof Error ? error.message : "Cache unavailable",
+            });
+          });
       } else if (message.action === "getSupportedLanguages") {
         const languages = formatterRegistry.getSupportedLanguages();
         const response: GetSupportedLanguagesResponse = {
@@ -341,6 +706,12 @@ function setupMessageHandlers(): void {
           languages,
         };
         sendResponse(response);
+      } else if (message.action === "getFormatters") {
+        const response: GetFormattersResponse = {
+          success: true,
+          formatters: getFormatterChoices(),
+        };
+        sendResponse(response);
       } else if (message.action === "checkLanguageSupport") {
         // Validate language parameter
         const msg = message as Record<string, unknown>;
@@ -451,6 +822,33 @@ function setupContextMenu(): void {
       title: "Format as TOML",
       contexts: ["selection"],
     });
+
+    chrome.contextMenus.create({
+      id: "convertTo",
+      title: "Convert to…",
+      contexts: ["selection"],
+    });
+
+    chrome.contextMenus.create({
+      id: "convertToJSON",
+      parentId: "convertTo",
+      title: "JSON",
+      contexts: ["selection"],
+    });
+
+    chrome.contextMenus.create({
+      id: "convertToYAML",
+      parentId: "convertTo",
+      title: "YAML",
+      contexts: ["selection"],
+    });
+
+    chrome.contextMenus.create({
+      id: "convertToTOML",
+      parentId: "convertTo",
+      title: "TOML",
+      contexts: ["selection"],
+    });
   });
 
   chrome.contextMenus.onClicked.addListener((info, tab) => {
@@ -461,15 +859,16 @@ function setupContextMenu(): void {
       return;
     }
 
-    const language = CONTEXT_MENU_LANGUAGE_MAP[info.menuItemId as string];
-    if (!language) return;
-    if (!language) return;
+    const menuItemId = info.menuItemId as string;
+    const convertTarget = CONTEXT_MENU_CONVERT_MAP[menuItemId];
+    const language = CONTEXT_MENU_LANGUAGE_MAP[menuItemId];
+    if (!language && !convertTarget) return;
 
     // Send message with error handling
     try {
       chrome.tabs.sendMessage(tab.id, {
-        action: "formatSelection",
-        language,
+        action: convertTarget ? "convertSelection" : "formatSelection",
+        language: convertTarget ?? language,
         code: info.selectionText,
       });
     } catch (error) {
@@ -500,6 +899,25 @@ function initializeExtension(): void {
   );
   setupMessageHandlers();
   setupContextMenu();
+  setupCacheInvalidation();
+}
+
+/**
+ * Drop cached results when formatting settings change
+ */
+function setupCacheInvalidation(): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== "sync") return;
+
+    const affectsFormatting = Object.keys(changes).some(
+      (key) => !DISPLAY_SETTING_KEYS.has(key),
+    );
+    if (affectsFormatting) {
+      formatCache.invalidate().catch((error) => {
+        console.warn("[Code Formatter] Cache invalidation failed:", error);
+      });
+    }
+  });
 }
 
 /**
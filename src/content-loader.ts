@@ -0,0 +1,10 @@
+/**
+ * Content script loader
+ * A content script cannot be an ES module, so this one imports the real
+ * content script as one from the extension. Built with code splitting,
+ * its language modes and themes then load only when a page needs them
+ */
+
+import(chrome.runtime.getURL("modules/content.js")).catch((error) => {
+  console.error("[Code Formatter] Failed to load the content script:", error);
+});
@@ -1,12 +1,31 @@
-import type { ExtensionSettings, FormatResponse } from "./shared/types";
+import type {
+  ExtensionSettings,
+  FormatRangeMessage,
+  FormatResponse,
+  FormatSelectionMessage,
+  ConvertSelectionMessage,
+  DataFormat,
+  GetFormattersResponse,
+  SettingsProfile,
+} from "./shared/types";
 import {
   ELEMENT_IDS,
   CSS_CLASSES,
   DEFAULT_SETTINGS,
   FORMATTABLE_LANGUAGES,
 } from "./shared/constants";
-import { LRUMap, debounce } from "./shared/utils";
-import { detectLanguage, appearsToBeCodePage } from "./content/detection";
+import {
+  debounce,
+  getLanguageLabel,
+  resolveLanguageSettings,
+  resolveProfile,
+  isDataFormat,
+} from "./shared/utils";
+import {
+  detectLanguage,
+  detectLanguageWithTrialParse,
+  appearsToBeCodePage,
+} from "./content/detection";
 import { showToast } from "./content/toast";
 import {
   createEditor,
@@ -14,17 +33,61 @@ import {
   setEditor,
   applyTheme,
   updateEditorContent,
+  showDiagnostics,
+  setRangeFormatHandler,
   destroyEditor,
   initEditor,
+  replaceEditorRange,
+  applyLanguage,
+  addDocChangeListener,
+  addDirtyChangeListener,
+  setEditorEditable,
+  markEditorClean,
+  isEditorDirty,
+  loadEditorContent,
+  revertEditor,
 } from "./content/editor";
 import {
   createToolbar,
   initToolbar,
   setEditorInstance,
   setCurrentLanguage,
+  setFormatterOptions,
+  setLanguageCandidates,
+  openLanguagePicker,
+  setDocumentDirty,
   downloadCode,
 } from "./content/toolbar";
-import { createStatusBar, updateStatusBarWithFile } from "./content/status-bar";
+import {
+  createStatusBar,
+  updateStatusBarWithFile,
+  updateStatusBarLanguage,
+  setStatusBarLanguageAction,
+  updateStatusBarFormatter,
+  updateStatusBarDiagnostics,
+  updateStatusBarConfig,
+  updateStatusBarProgress,
+  updateStatusBarDirty,
+} from "./content/status-bar";
+import { capturePageSelection, copyToClipboard } from "./content/selection";
+import { createDiffView, destroyDiffView } from "./content/diff-view";
+import { loadProjectConfig } from "./content/project-config";
+import { createJsonTree } from "./content/json-tree";
+import {
+  clearFormattedBlocks,
+  createMarkdownPreview,
+  syncScroll,
+} from "./content/markdown-preview";
+import { initInlineBlocks, destroyInlineBlocks } from "./content/inline-blocks";
+import {
+  getLanguageMemoryPattern,
+  loadRememberedLanguage,
+  rememberLanguage,
+} from "./content/language-memory";
+import { planChunks } from "./content/chunking";
+import type { ChunkPlan, DiffMode, ProjectConfig } from "./content/types";
+import type { JsonTool } from "./formatters/json-tools";
+import type { FormatDiagnostic } from "./formatters/types";
 import {
   createFileInput,
   openFileDialog,
@@ -36,13 +99,32 @@ import {
 
 const currentSettings: ExtensionSettings = { ...DEFAULT_SETTINGS };
 let currentEditorCode = "";
+let currentSourceCode = "";
 let currentEditorLanguage = "";
 let isShowingOriginal = false;
 let originalPreElement: HTMLElement | null = null;
+// Stop syncing the Markdown preview's scroll and re-rendering it on edits
+let stopPreviewSync: (() => void) | null = null;
+let stopPreviewRefresh: (() => void) | null = null;
+// Config discovered next to the viewed file, and the language it is for
+let projectConfig: ProjectConfig | null = null;
+let projectConfigLanguage = "";
+// Profile assigned to this site by the user's URL rules
+let activeProfile: SettingsProfile | null = null;
+// Document a JSONPath query replaced with its matches, until it is cleared
+let jsonQuerySource: string | null = null;
+
+const RENDERER_STYLE =
+  "position:absolute;width:100%;height:calc(100vh - 62px);top:38px;right:0;overflow:auto;";
+
+// Chunks are requested no faster than this, as cached ones come back at
+// once and would run into the background's limit of 10 requests a second
+const CHUNK_INTERVAL = 120;
 
-const contentCache = new LRUMap<string, string>(20);
 const eventCleanupFunctions: (() => void)[] = [];
 let formatSequence = 0;
+// Format-on-type request still running in the background, if any
+let pendingFormatJob: string | null = null;
 
 const debouncedFormat = debounce(async () => {
   const editor = getEditor();
@@ -58,16 +140,32 @@ const debouncedFormat = debounce(async () => {
 
   const currentSequence = ++formatSequence;
 
+  // The previous request is superseded, stop it rather than wait for it
+  if (pendingFormatJob) cancelFormatJob(pendingFormatJob);
+  const jobId = `format-on-type-${currentSequence}`;
+  pendingFormatJob = jobId;
+
   try {
-    const formatted = await formatCode(code, currentEditorLanguage);
+    const response = await requestFormat(code, currentEditorLanguage, jobId);
+    if (pendingFormatJob === jobId) pendingFormatJob = null;
+    if (response.cancelled) return;
+
+    const formatted = formattedCodeOf(response, code);
 
     if (currentSequence === formatSequence) {
       const currentContent = editor.state.doc.toString();
-      if (currentContent === code && formatted !== code) {
-        editor.dispatch({
-          changes: { from: 0, to: editor.state.doc.length, insert: formatted },
-        });
-        currentEditorCode = formatted;
+      if (currentContent === code) {
+        if (formatted !== code) {
+          editor.dispatch({
+            changes: {
+              from: 0,
+              to: editor.state.doc.length,
+              insert: formatted,
+            },
+          });
+          currentEditorCode = formatted;
+        }
+        reportFormatResult(response);
       }
     }
   } catch (error) {
@@ -105,19 +203,40 @@ function loadSettings(): Promise<void> {
         "quoteStyleWasm",
         "keywordCase",
         "commaPosition",
+        "ndjsonStyle",
+        "formatterByLanguage",
+        "languageOverrides",
         "autoFormatOnType",
         "formatOnPasteMinLength",
+        "useProjectConfig",
+        "inlineCodeBlocks",
+        "profiles",
+        "profileRules",
       ],
       (result: Partial<ExtensionSettings>) => {
-        Object.assign(currentSettings, result);
+        // Profiles stay out of currentSettings so saveSettings never
+        // writes a site's profile back as the global settings
+        const { profiles, profileRules, ...settings } = result;
+        Object.assign(currentSettings, settings);
+        activeProfile = resolveProfile(
+          { profiles, profileRules },
+          window.location.href,
+        );
         resolve();
       },
     );
   });
 }
 
-function saveSettings(): void {
-  chrome.storage.sync.set(currentSettings, () => {
+/**
+ * Store the settings changed on the page, leaving the others as the
+ * options page saved them
+ */
+function saveSettings(keys: (keyof ExtensionSettings)[]): void {
+  const changed = Object.fromEntries(
+    keys.map((key) => [key, currentSettings[key]]),
+  );
+  chrome.storage.sync.set(changed, () => {
     if (chrome.runtime.lastError) {
       console.error(
         "[Code Formatter] Failed to save settings:",
@@ -127,59 +246,594 @@ function saveSettings(): void {
   });
 }
 
-function simpleHash(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
+/**
+ * Settings to format a language with: the global settings, then the
+ * language defaults, then the site's profile, then the user's overrides
+ * for the language, then the project config when it was discovered for
+ * that language
+ */
+function getFormatSettings(language: string): ExtensionSettings {
+  const settings = resolveLanguageSettings(
+    currentSettings,
+    language,
+    activeProfile?.settings,
+  );
+  if (!projectConfig || language !== projectConfigLanguage) {
+    return settings;
   }
-  return hash.toString(36);
+  return { ...settings, ...projectConfig.settings };
 }
 
-async function formatCode(code: string, language: string): Promise<string> {
-  const cacheKey = `${language}:${code.length}:${simpleHash(code)}`;
-  const cached = contentCache.get(cacheKey);
-  if (cached) return cached;
+/**
+ * Settings for the code blocks of a Markdown document, resolved for each
+ * language like those of a file of that language
+ */
+function getEmbeddedFormatSettings(): Record<string, ExtensionSettings> {
+  return Object.fromEntries(
+    [...FORMATTABLE_LANGUAGES].map((language) => [
+      language,
+      getFormatSettings(language),
+    ]),
+  );
+}
 
+/**
+ * Apply the config of the project the viewed file belongs to
+ * Pass null to go back to the user's own settings
+ */
+function setProjectConfig(config: ProjectConfig | null, language = ""): void {
+  projectConfig = config?.sources.length ? config : null;
+  projectConfigLanguage = language;
+  updateStatusBarConfig(projectConfig?.sources);
+}
+
+/**
+ * Look for the config of the project the viewed file belongs to, which is
+ * done once the page is shown as it can take dozens of requests
+ * @returns Whether a config was found that applies to the shown source
+ */
+async function applyProjectConfig(
+  source: string,
+  language: string,
+): Promise<boolean> {
+  const config = await loadProjectConfig(location.href, language);
+  // Another file or language may have been chosen in the meantime
+  if (source !== currentSourceCode || language !== currentEditorLanguage) {
+    return false;
+  }
+  setProjectConfig(config, language);
+  return projectConfig !== null;
+}
+
+/**
+ * Send a format message to the background, never rejecting
+ */
+function sendFormatMessage(
+  message: Record<string, unknown>,
+): Promise<FormatResponse> {
   return new Promise((resolve) => {
     if (!chrome.runtime?.id) {
       console.warn("[Code Formatter] Extension context invalidated");
-      resolve(code);
+      resolve({ success: false, error: "Extension context invalidated" });
       return;
     }
 
     try {
       chrome.runtime.sendMessage(
-        { action: "format", code, language, settings: currentSettings },
+        {
+          ...message,
+          settings: getFormatSettings(String(message.language)),
+          ...(message.action === "format" && message.language === "markdown"
+            ? { embeddedSettings: getEmbeddedFormatSettings() }
+            : {}),
+        },
         (response: FormatResponse) => {
           if (chrome.runtime.lastError) {
             console.error(
               "[Code Formatter] Runtime error:",
               chrome.runtime.lastError.message,
             );
-            resolve(code);
+            resolve({
+              success: false,
+              error: chrome.runtime.lastError.message,
+            });
             return;
           }
-          if (response?.success && response.code) {
-            contentCache.set(cacheKey, response.code);
-            resolve(response.code);
-          } else {
+          if (!response?.success && !response?.cancelled) {
             console.warn(
               "[Code Formatter] Formatting failed:",
               response?.error,
             );
-            resolve(code);
           }
+          resolve(response ?? { success: false, error: "No response" });
         },
       );
     } catch (error) {
       console.error("[Code Formatter] Failed to send message:", error);
-      resolve(code);
+      resolve({
+        success: false,
+        error: error instanceof Error ? error.message : "Formatting failed",
+      });
     }
   });
 }
 
+/**
+ * Abort a format request sent with a job id
+ */
+function cancelFormatJob(jobId: string): void {
+  if (!chrome.runtime?.id) return;
+  chrome.runtime.sendMessage({ action: "cancelFormat", jobId }, () => {
+    // Nothing to report when the job had already finished
+    void chrome.runtime.lastError;
+  });
+}
+
+/**
+ * Format the whole document; results are cached by the background
+ */
+function requestFormat(
+  code: string,
+  language: string,
+  jobId?: string,
+): Promise<FormatResponse> {
+  return sendFormatMessage({ action: "format", code, language, jobId });
+}
+
+/**
+ * Format the selected lines of the editor, see setRangeFormatHandler
+ */
+async function formatEditorRange(
+  code: string,
+  range: FormatRangeMessage["range"],
+): Promise<string | null> {
+  const response = await sendFormatMessage({
+    action: "formatRange",
+    code,
+    language: currentEditorLanguage,
+    range,
+  });
+  reportFormatResult(response);
+
+  if (!response.success || !response.code) {
+    if (!response.diagnostics?.length) {
+      showToast(response.error || "Formatting failed", "error");
+    }
+    return null;
+  }
+
+  currentEditorCode = response.code;
+  return response.code;
+}
+
+function formattedCodeOf(response: FormatResponse, code: string): string {
+  return response.success && response.code ? response.code : code;
+}
+
+/**
+ * Format code, resolving to the original code when formatting fails
+ */
+async function formatCode(code: string, language: string): Promise<string> {
+  const response = await requestFormat(code, language);
+  return formattedCodeOf(response, code);
+}
+
+/**
+ * Whether code parses as a language, judged by whether its formatter
+ * succeeded without falling back to a more lenient engine
+ */
+async function parsesAs(code: string, language: string): Promise<boolean> {
+  const response = await requestFormat(code, language);
+  return response.success && !response.skipped?.length;
+}
+
+/**
+ * Report the engine and any syntax errors of a format response
+ * Call it once the editor shows the code the response was for, so the
+ * diagnostics line up with the document
+ */
+function reportFormatResult(response: FormatResponse): void {
+  updateStatusBarFormatter(response.formatter, response.skipped);
+  updateStatusBarDiagnostics(response.diagnostics);
+  showDiagnostics(response.diagnostics ?? []);
+}
+
+/**
+ * Split a large source into chunks when its language allows it
+ */
+function planChunkedFormat(code: string, language: string): ChunkPlan | null {
+  const settings = getFormatSettings(language);
+  const indent = settings.useTabs ? "\t" : " ".repeat(settings.indentSize);
+  return planChunks(code, language, indent);
+}
+
+/**
+ * Format a large source chunk by chunk, replacing each chunk in the
+ * editor as soon as it is formatted. The editor must hold the source.
+ * Stops when the document is changed by anything else in the meantime
+ */
+async function streamChunkedFormat(plan: ChunkPlan): Promise<void> {
+  const editor = getEditor();
+  if (!editor) return;
+
+  const total = plan.chunks.length;
+  let expectedLength = editor.state.doc.length;
+  let shift = 0;
+  let failed = 0;
+  let formatter: string | undefined;
+  const diagnostics: FormatDiagnostic[] = [];
+
+  updateStatusBarProgress(0, total);
+
+  for (const [index, chunk] of plan.chunks.entries()) {
+    const requestedAt = Date.now();
+    const response = await sendFormatMessage({
+      action: "format",
+      code: chunk.code,
+      language: plan.language,
+    });
+    if (response.success && response.code) {
+      formatter ??= response.formatter;
+    } else {
+      failed++;
+    }
+
+    if (getEditor() !== editor || editor.state.doc.length !== expectedLength) {
+      updateStatusBarProgress(total, total);
+      showToast("Formatting stopped: the document changed", "warning");
+      return;
+    }
+
+    const text = plan.assemble(formattedCodeOf(response, chunk.code), index);
+    const from = chunk.from + shift;
+    const to = chunk.to + shift;
+    // Diagnostics are located in the chunk, move them to where it goes
+    const lineOffset = editor.state.doc.lineAt(from).number - 1;
+    for (const diagnostic of response.diagnostics ?? []) {
+      diagnostics.push({ ...diagnostic, line: diagnostic.line + lineOffset });
+    }
+    replaceEditorRange(from, to, text);
+
+    shift += text.length - (to - from);
+    expectedLength += text.length - (to - from);
+    updateStatusBarProgress(index + 1, total);
+
+    const wait = requestedAt + CHUNK_INTERVAL - Date.now();
+    if (wait > 0 && index < total - 1) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+
+  currentEditorCode = editor.state.doc.toString();
+  markEditorClean();
+  updateStatusBarFormatter(formatter);
+  updateStatusBarDiagnostics(diagnostics);
+  showDiagnostics(diagnostics);
+  if (failed > 0) {
+    showToast(`${failed} of ${total} chunks could not be formatted`, "warning");
+  }
+}
+
+/**
+ * The document as it is shown, with the user's edits
+ */
+function getLiveCode(): string {
+  return getEditor()?.state.doc.toString() ?? currentEditorCode;
+}
+
+/**
+ * Code to format again, e.g. with another engine: the user's edits when
+ * there are any, otherwise the page's source
+ */
+function getReformatSource(): string {
+  return isEditorDirty() ? getLiveCode() : currentSourceCode;
+}
+
+function showDirtyState(dirty: boolean): void {
+  updateStatusBarDirty(dirty);
+  setDocumentDirty(dirty);
+}
+
+function revertEdits(): void {
+  revertEditor();
+  showToast("Edits reverted, undo brings them back", "info");
+}
+
+/**
+ * Ask the background for the engines that can format a language and
+ * hand them to the toolbar picker
+ */
+function loadFormatterOptions(language: string): void {
+  if (!chrome.runtime?.id) return;
+
+  try {
+    chrome.runtime.sendMessage(
+      { action: "getFormatters" },
+      (response: GetFormattersResponse) => {
+        if (chrome.runtime.lastError || !response?.success) {
+          setFormatterOptions([]);
+          return;
+        }
+        setFormatterOptions(response.formatters[language] ?? []);
+      },
+    );
+  } catch (error) {
+    console.error("[Code Formatter] Failed to load formatters:", error);
+  }
+}
+
+/**
+ * Re-format the current source after the formatter engine or the project
+ * config changed
+ */
+async function reformatWithSelectedEngine(): Promise<void> {
+  const code = getReformatSource();
+  if (!code || !currentEditorLanguage) return;
+
+  const response = await requestFormat(code, currentEditorLanguage);
+  const formatted = formattedCodeOf(response, code);
+  loadEditorContent(formatted);
+  currentEditorCode = formatted;
+  jsonQuerySource = null;
+  reportFormatResult(response);
+}
+
+/**
+ * Run a JSON tool over the editor content and show the result
+ * Queries always run against the whole document, not a previous result
+ */
+async function applyJsonTool(tool: JsonTool, query?: string): Promise<void> {
+  const editor = getEditor();
+  if (!editor) return;
+
+  const code =
+    tool === "query" && jsonQuerySource !== null
+      ? jsonQuerySource
+      : editor.state.doc.toString();
+  const response = await sendFormatMessage({
+    action: "jsonTool",
+    tool,
+    code,
+    language: currentEditorLanguage,
+    query,
+  });
+
+  if (!response.success || response.code === undefined) {
+    showToast(response.error || "JSON tool failed", "error");
+    return;
+  }
+
+  jsonQuerySource = tool === "query" ? code : null;
+  updateEditorContent(response.code);
+  currentEditorCode = response.code;
+  refreshTreeView();
+}
+
+/**
+ * Show every warning of a conversion in one toast
+ */
+function reportConversionWarnings(label: string, warnings: string[]): void {
+  showToast(`Converted to ${label}. ${warnings.join(". ")}`, "warning");
+}
+
+/**
+ * Convert the editor content to another data format, which then becomes
+ * the language of the view
+ */
+async function convertEditorContent(target: DataFormat): Promise<void> {
+  const editor = getEditor();
+  if (!editor) return;
+
+  const label = getLanguageLabel(target);
+  const response = await sendFormatMessage({
+    action: "convert",
+    language: target,
+    from: isDataFormat(currentEditorLanguage)
+      ? currentEditorLanguage
+      : undefined,
+    code: editor.state.doc.toString(),
+  });
+
+  if (!response.success || response.code === undefined) {
+    showToast(
+      `Could not convert to ${label}: ${response.error || "Conversion failed"}`,
+      "error",
+    );
+    return;
+  }
+
+  currentEditorLanguage = target;
+  currentEditorCode = response.code;
+  jsonQuerySource = null;
+  void applyLanguage(target);
+  loadEditorContent(response.code);
+  setCurrentLanguage(target);
+  loadFormatterOptions(target);
+  updateStatusBarLanguage(target);
+  updateStatusBarFormatter(response.formatter, response.skipped);
+
+  if (response.warnings?.length) {
+    reportConversionWarnings(label, response.warnings);
+  } else {
+    showToast(`Converted to ${label}`, "success");
+  }
+}
+
+/**
+ * Show the source as another language, e.g. one of the alternatives
+ * detection ranked below the detected one
+ */
+async function switchLanguage(language: string): Promise<void> {
+  if (!getEditor() || language === currentEditorLanguage) return;
+
+  const code = getReformatSource();
+  const response = await requestFormat(code, language);
+  const formatted = formattedCodeOf(response, code);
+
+  currentEditorLanguage = language;
+  currentEditorCode = formatted;
+  jsonQuerySource = null;
+  void applyLanguage(language);
+  loadEditorContent(formatted);
+  setCurrentLanguage(language);
+  loadFormatterOptions(language);
+  updateStatusBarLanguage(language);
+  reportFormatResult(response);
+}
+
+/**
+ * Switch to the language the user picked and remember it for this kind
+ * of page, or given null, forget the choice and detect the language again
+ */
+async function chooseLanguage(language: string | null): Promise<void> {
+  await rememberLanguage(location.href, language);
+
+  if (language) {
+    await switchLanguage(language);
+    showToast(
+      `${getLanguageLabel(language)} will be used for ${getLanguageMemoryPattern(location.href)}`,
+      "success",
+    );
+    return;
+  }
+
+  const detection = await detectLanguageWithTrialParse(
+    currentSourceCode,
+    parsesAs,
+  );
+  setLanguageCandidates(detection.candidates);
+  if (!detection.language) {
+    showToast("Unable to detect code language.", "error");
+    return;
+  }
+  await switchLanguage(detection.language);
+  showToast(`Detected ${getLanguageLabel(detection.language)}`, "info");
+}
+
+/**
+ * Bring back the document a JSONPath query filtered
+ */
+function clearJsonQuery(): void {
+  if (jsonQuerySource === null) return;
+
+  updateEditorContent(jsonQuerySource);
+  currentEditorCode = jsonQuerySource;
+  jsonQuerySource = null;
+  refreshTreeView();
+}
+
+/**
+ * Show the editor content as a JSON tree, or go back to the editor
+ * @returns Whether the tree is shown, false when the content is not JSON
+ */
+function setTreeView(open: boolean): boolean {
+  const renderer = document.getElementById(ELEMENT_IDS.RENDERER);
+  document.getElementById(ELEMENT_IDS.TREE_VIEW)?.remove();
+
+  if (!open) {
+    if (renderer) renderer.style.display = "block";
+    return false;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(getLiveCode());
+  } catch {
+    if (renderer) renderer.style.display = "block";
+    showToast("The document is not valid JSON", "error");
+    return false;
+  }
+
+  if (isShowingOriginal) toggleOriginalCode();
+
+  const tree = createJsonTree(value, async (path) => {
+    if (await copyToClipboard(path)) showToast(`Copied ${path}`, "success");
+  });
+  tree.id = ELEMENT_IDS.TREE_VIEW;
+  tree.style.cssText = RENDERER_STYLE;
+  document.body.appendChild(tree);
+  if (renderer) renderer.style.display = "none";
+  return true;
+}
+
+/**
+ * Rebuild an open tree view after the editor content changed
+ */
+function refreshTreeView(): void {
+  if (document.getElementById(ELEMENT_IDS.TREE_VIEW)) setTreeView(true);
+}
+
+/**
+ * Format a fenced code block of the Markdown preview
+ */
+async function formatPreviewBlock(
+  code: string,
+  language: string,
+): Promise<string | null> {
+  if (!FORMATTABLE_LANGUAGES.has(language)) return null;
+  const response = await requestFormat(code, language);
+  return response.success ? (response.code ?? null) : null;
+}
+
+/**
+ * Render the editor content into the preview pane, keeping its scroll
+ * position when it replaces an earlier render
+ */
+function renderMarkdownPreview(): void {
+  const editor = getEditor();
+  // A render debounced before the preview was closed
+  if (!editor || !stopPreviewRefresh) return;
+
+  const previous = document.getElementById(ELEMENT_IDS.MARKDOWN_PREVIEW);
+  const preview = createMarkdownPreview(
+    editor.state.doc.toString(),
+    formatPreviewBlock,
+  );
+  preview.id = ELEMENT_IDS.MARKDOWN_PREVIEW;
+  preview.style.cssText = `${RENDERER_STYLE}width:50%;`;
+
+  stopPreviewSync?.();
+  if (previous) {
+    previous.replaceWith(preview);
+    preview.scrollTop = previous.scrollTop;
+  } else {
+    document.body.appendChild(preview);
+  }
+  stopPreviewSync = syncScroll(editor, preview);
+}
+
+const debouncedPreviewRender = debounce(renderMarkdownPreview, 300);
+
+/**
+ * Show the Markdown preview beside the editor, or close it
+ * @returns Whether the preview is shown
+ */
+function setMarkdownPreview(open: boolean): boolean {
+  const renderer = document.getElementById(ELEMENT_IDS.RENDERER);
+
+  stopPreviewSync?.();
+  stopPreviewSync = null;
+  stopPreviewRefresh?.();
+  stopPreviewRefresh = null;
+  document.getElementById(ELEMENT_IDS.MARKDOWN_PREVIEW)?.remove();
+
+  if (!open || !renderer || !getEditor()) {
+    clearFormattedBlocks();
+    renderer?.style.setProperty("width", "100%");
+    renderer?.style.setProperty("right", "0");
+    return false;
+  }
+
+  if (isShowingOriginal) toggleOriginalCode();
+
+  // Source on the left, preview on the right
+  renderer.style.width = "50%";
+  renderer.style.right = "50%";
+  stopPreviewRefresh = addDocChangeListener(debouncedPreviewRender);
+  renderMarkdownPreview();
+  return true;
+}
+
 function toggleOriginalCode(): void {
   isShowingOriginal = !isShowingOriginal;
 
@@ -207,6 +861,41 @@ function toggleOriginalCode(): void {
   }
 }
 
+/**
+ * Show the original code against the formatted buffer, or go back to
+ * the editor when mode is null
+ */
+async function setDiffMode(mode: DiffMode | null): Promise<void> {
+  const renderer = document.getElementById(ELEMENT_IDS.RENDERER);
+
+  if (!mode) {
+    destroyDiffView();
+    document.getElementById(ELEMENT_IDS.DIFF_VIEW)?.remove();
+    if (renderer) renderer.style.display = "block";
+    return;
+  }
+
+  if (isShowingOriginal) toggleOriginalCode();
+
+  let container = document.getElementById(ELEMENT_IDS.DIFF_VIEW);
+  if (!container) {
+    container = document.createElement("div");
+    container.id = ELEMENT_IDS.DIFF_VIEW;
+    container.className = CSS_CLASSES.DIFF_VIEW;
+    container.style.cssText = RENDERER_STYLE;
+    document.body.appendChild(container);
+  }
+  if (renderer) renderer.style.display = "none";
+
+  await createDiffView(
+    container,
+    currentSourceCode,
+    getLiveCode(),
+    currentEditorLanguage,
+    mode,
+  );
+}
+
 function showLoadingSkeleton(): HTMLElement {
   const skeleton = document.createElement("div");
   skeleton.className = CSS_CLASSES.SKELETON;
@@ -235,7 +924,12 @@ async function autoFormatPage(): Promise<void> {
 
   try {
     const code = extractOriginalCode();
-    const lang = detectLanguage(code);
+    // A language the user chose for this kind of page skips detection
+    const remembered = await loadRememberedLanguage(location.href);
+    const detection = remembered
+      ? null
+      : await detectLanguageWithTrialParse(code, parsesAs);
+    const lang = remembered ?? detection?.language;
 
     if (!lang) {
       skeleton.remove();
@@ -245,7 +939,13 @@ async function autoFormatPage(): Promise<void> {
       return;
     }
 
-    const formattedCode = await formatCode(code, lang);
+    // Large sources are shown as they are and formatted in place chunk
+    // by chunk once the editor exists
+    const chunkPlan = planChunkedFormat(code, lang);
+    const formatResponse = chunkPlan ? null : await requestFormat(code, lang);
+    const formattedCode = formatResponse
+      ? formattedCodeOf(formatResponse, code)
+      : code;
 
     isShowingOriginal = false;
     originalPreElement = document.querySelector(
@@ -257,10 +957,10 @@ async function autoFormatPage(): Promise<void> {
 
     const renderer = document.createElement("div");
     renderer.id = ELEMENT_IDS.RENDERER;
-    renderer.style.cssText =
-      "position:absolute;width:100%;height:calc(100vh - 62px);top:38px;right:0;overflow:auto;";
+    renderer.style.cssText = RENDERER_STYLE;
     document.body.appendChild(renderer);
 
+    currentSourceCode = code;
     currentEditorCode = formattedCode;
     currentEditorLanguage = lang;
 
@@ -270,6 +970,7 @@ async function autoFormatPage(): Promise<void> {
     );
     setEditor(editor);
     setEditorInstance(editor);
+    setRangeFormatHandler(formatEditorRange);
     setCurrentLanguage(lang);
 
     initToolbar(currentSettings, {
@@ -277,34 +978,76 @@ async function autoFormatPage(): Promise<void> {
       applyTheme,
       toggleOriginal: toggleOriginalCode,
       openFileDialog,
-      getCode: () => currentEditorCode,
+      getCode: getLiveCode,
       onDownload: downloadCode,
+      onFormatterChange: () => reformatWithSelectedEngine(),
+      onDiffModeChange: setDiffMode,
+      onJsonTool: applyJsonTool,
+      onClearJsonQuery: clearJsonQuery,
+      onTreeViewChange: setTreeView,
+      onConvert: convertEditorContent,
+      onPreviewChange: setMarkdownPreview,
+      onLanguageChange: chooseLanguage,
+      onEditModeChange: setEditorEditable,
+      onRevert: revertEdits,
     });
 
     const toolbar = createToolbar();
     document.body.appendChild(toolbar);
+    loadFormatterOptions(lang);
+    setLanguageCandidates(detection?.candidates ?? []);
 
-    const statusBar = createStatusBar(lang, formattedCode, currentSettings);
+    const statusBar = createStatusBar(
+      lang,
+      formattedCode,
+      getFormatSettings(lang),
+    );
     document.body.appendChild(statusBar);
+    setStatusBarLanguageAction(openLanguagePicker);
+    eventCleanupFunctions.push(addDirtyChangeListener(showDirtyState));
+    if (formatResponse) reportFormatResult(formatResponse);
+    updateStatusBarConfig(projectConfig?.sources);
 
     document.documentElement.classList.add(CSS_CLASSES.LOADED);
     document.body.classList.add(CSS_CLASSES.LOADED);
 
-    setupMessageListener();
     setupFormatOnPaste();
     setupDragDropZone(registerEventListener);
     setupKeyboardShortcuts();
 
+    // The project config only applies once it is found, formatting again
+    void (async () => {
+      const configured =
+        currentSettings.useProjectConfig &&
+        (await applyProjectConfig(code, lang));
+      if (isEditorDirty()) return;
+      if (chunkPlan) {
+        await streamChunkedFormat(chunkPlan);
+      } else if (configured) {
+        await reformatWithSelectedEngine();
+      }
+    })();
+
     const fileInput = createFileInput();
     document.body.appendChild(fileInput);
 
     setFileSelectionHandler(async (code, language, fileInfo) => {
-      const formatted = await formatCode(code, language);
+      // The page's project config does not apply to a local file
+      setProjectConfig(null);
+      const chunkPlan = planChunkedFormat(code, language);
+      const response = chunkPlan ? null : await requestFormat(code, language);
+      const formatted = response ? formattedCodeOf(response, code) : code;
       updateEditorContent(formatted);
+      markEditorClean();
+      currentSourceCode = code;
       currentEditorCode = formatted;
       currentEditorLanguage = language;
+      jsonQuerySource = null;
       setCurrentLanguage(language);
+      loadFormatterOptions(language);
       updateStatusBarWithFile(fileInfo);
+      if (response) reportFormatResult(response);
+      else if (chunkPlan) await streamChunkedFormat(chunkPlan);
     });
 
     console.log("[Code Formatter] Done");
@@ -324,10 +1067,95 @@ function setupMessageListener(): void {
       sendResponse({ status: "success", language: lang });
       return true;
     }
+    if (message.action === "formatSelection") {
+      const { language, code } = message as FormatSelectionMessage;
+      formatPageSelection(language, code);
+    }
+    if (message.action === "convertSelection") {
+      const { language, code } = message as ConvertSelectionMessage;
+      convertPageSelection(language, code);
+    }
     return false;
   });
 }
 
+/**
+ * Handle a context-menu "Format as …" action: replace the selection in
+ * place when it is editable, otherwise copy the formatted code
+ */
+async function formatPageSelection(
+  language: string,
+  selectionText: string,
+): Promise<void> {
+  // The menu's copy of the selection can lose whitespace, so prefer the
+  // live selection when it is still there
+  const selection = capturePageSelection();
+  const code = selection?.text || selectionText;
+  const label = getLanguageLabel(language);
+
+  const response = await requestFormat(code, language);
+  if (!response.success || !response.code) {
+    showToast(
+      `Could not format as ${label}: ${response.error || "Formatting failed"}`,
+      "error",
+    );
+    return;
+  }
+
+  if (selection?.replace?.(response.code)) {
+    showToast(`Formatted as ${label}`, "success");
+    return;
+  }
+
+  if (await copyToClipboard(response.code)) {
+    showToast(`Formatted ${label} copied to clipboard`, "success");
+  } else {
+    showToast("Could not copy the formatted code", "error");
+  }
+}
+
+/**
+ * Handle a context-menu "Convert to…" action, like formatPageSelection
+ */
+async function convertPageSelection(
+  target: DataFormat,
+  selectionText: string,
+): Promise<void> {
+  const selection = capturePageSelection();
+  const code = selection?.text || selectionText;
+  const label = getLanguageLabel(target);
+
+  const response = await sendFormatMessage({
+    action: "convert",
+    language: target,
+    code,
+  });
+  if (!response.success || !response.code) {
+    showToast(
+      `Could not convert to ${label}: ${response.error || "Conversion failed"}`,
+      "error",
+    );
+    return;
+  }
+
+  const replaced = selection?.replace?.(response.code) ?? false;
+  if (!replaced && !(await copyToClipboard(response.code))) {
+    showToast("Could not copy the converted code", "error");
+    return;
+  }
+
+  if (response.warnings?.length) {
+    reportConversionWarnings(label, response.warnings);
+  } else {
+    showToast(
+      replaced
+        ? `Converted to ${label}`
+        : `Converted ${label} copied to clipboard`,
+      "success",
+    );
+  }
+}
+
 function setupFormatOnPaste(): void {
   let isProcessing = false;
 
@@ -381,29 +1209,40 @@ function setupKeyboardShortcuts(): void {
 
     if (keyEvent.ctrlKey && keyEvent.shiftKey && keyEvent.key === "C") {
       keyEvent.preventDefault();
-      if (currentEditorCode) {
-        navigator.clipboard.writeText(currentEditorCode);
+      const code = getLiveCode();
+      if (code) {
+        navigator.clipboard.writeText(code);
       }
     }
 
     if (keyEvent.ctrlKey && keyEvent.shiftKey && keyEvent.key === "F") {
       keyEvent.preventDefault();
-      if (currentEditorCode && currentEditorLanguage) {
-        formatCode(currentEditorCode, currentEditorLanguage).then(
-          (formatted) => {
-            const editor = getEditor();
-            if (editor && formatted !== currentEditorCode) {
-              editor.dispatch({
-                changes: {
-                  from: 0,
-                  to: editor.state.doc.length,
-                  insert: formatted,
-                },
-              });
-              currentEditorCode = formatted;
-            }
-          },
-        );
+      const code = getLiveCode();
+      if (code && currentEditorLanguage) {
+        requestFormat(code, currentEditorLanguage).then((response) => {
+          const formatted = formattedCodeOf(response, code);
+          const editor = getEditor();
+          if (editor && formatted !== editor.state.doc.toString()) {
+            editor.dispatch({
+              changes: {
+                from: 0,
+                to: editor.state.doc.length,
+                insert: formatted,
+              },
+            });
+            currentEditorCode = formatted;
+          }
+          reportFormatResult(response);
+        });
+      }
+    }
+
+    // Saving downloads the edited document, which is then the one to revert to
+    if ((keyEvent.ctrlKey || keyEvent.metaKey) && keyEvent.key === "s") {
+      keyEvent.preventDefault();
+      if (getEditor()) {
+        downloadCode(getLiveCode(), currentEditorLanguage);
+        markEditorClean();
       }
     }
 
@@ -418,12 +1257,20 @@ function cleanup(): void {
   for (const cleanupFn of eventCleanupFunctions) cleanupFn();
   eventCleanupFunctions.length = 0;
 
+  if (pendingFormatJob) cancelFormatJob(pendingFormatJob);
+  pendingFormatJob = null;
+
+  setMarkdownPreview(false);
+  destroyInlineBlocks();
   destroyEditor();
+  destroyDiffView();
 
   document.getElementById(ELEMENT_IDS.DROP_ZONE)?.remove();
   document.getElementById(ELEMENT_IDS.TOOLBAR)?.remove();
   document.getElementById(ELEMENT_IDS.STATUS_BAR)?.remove();
   document.getElementById(ELEMENT_IDS.RENDERER)?.remove();
+  document.getElementById(ELEMENT_IDS.DIFF_VIEW)?.remove();
+  document.getElementById(ELEMENT_IDS.TREE_VIEW)?.remove();
   getFileInputElement()?.remove();
 
   document.body?.classList.remove(CSS_CLASSES.LOADED);
@@ -432,10 +1279,14 @@ function cleanup(): void {
 
 async function main(): Promise<void> {
   await loadSettings();
+  setupMessageListener();
 
   const init = async () => {
     if (appearsToBeCodePage()) {
       await autoFormatPage();
+    } else {
+      initEditor(currentSettings);
+      initInlineBlocks(currentSettings, { format: requestFormat });
     }
   };
 
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { planChunks } from "./chunking";
+import type { ChunkPlan } from "./types";
+
+const SMALL = { maxLines: 4, maxChars: 10_000 };
+
+/**
+ * Apply a plan the way the content script does, formatting each chunk
+ * with the given function
+ */
+function applyPlan(
+  code: string,
+  plan: ChunkPlan,
+  format: (chunk: string) => string,
+): string {
+  let result = code;
+  let shift = 0;
+  plan.chunks.forEach((chunk, index) => {
+    const text = plan.assemble(format(chunk.code), index);
+    result =
+      result.slice(0, chunk.from + shift) +
+      text +
+      result.slice(chunk.to + shift);
+    shift += text.length - (chunk.to - chunk.from);
+  });
+  return result;
+}
+
+describe("planChunks", () => {
+  it("should not split sources that fit in one chunk", () => {
+    expect(planChunks("SELECT 1;\nSELECT 2;\n", "sql")).toBeNull();
+  });
+
+  it("should not split languages without a chunking strategy", () => {
+    const code = "const a = 1;\n".repeat(10);
+    expect(planChunks(code, "javascript", "  ", SMALL)).toBeNull();
+  });
+
+  it("should not split JSON that is not an array", () => {
+    const code = `{\n${'"a": 1,\n'.repeat(10)}"b": 2\n}`;
+    expect(planChunks(code, "json", "  ", SMALL)).toBeNull();
+  });
+
+  it("should split SQL between statements", () => {
+    const code = Array.from(
+      { length: 6 },
+      (_, i) => `select ${i}\nfrom t;`,
+    ).join("\n");
+    const plan = planChunks(code, "sql", "  ", SMALL)!;
+
+    expect(plan.chunks).toHaveLength(3);
+    expect(plan.chunks[0].code).toBe("select 0\nfrom t;\nselect 1\nfrom t;\n");
+    expect(applyPlan(code, plan, (c) => c.toUpperCase())).toBe(
+      [
+        "SELECT 0\nFROM T;\nSELECT 1\nFROM T;",
+        "SELECT 2\nFROM T;\nSELECT 3\nFROM T;",
+        "SELECT 4\nFROM T;\nSELECT 5\nFROM T;",
+      ].join("\n\n") + "\n",
+    );
+  });
+
+  it("should not split SQL inside strings or comments", () => {
+    const code = [
+      "select ';' from t;",
+      "-- a; b",
+      "select 1;",
+      "/* c;",
+      "d; */ select 2;",
+      "select 3;",
+      "select 4;",
+      "select 5;",
+    ].join("\n");
+    const plan = planChunks(code, "sql", "  ", SMALL)!;
+
+    expect(plan.chunks.map((chunk) => chunk.code)).toEqual([
+      "select ';' from t;\n-- a; b\nselect 1;\n",
+      "/* c;\nd; */ select 2;\nselect 3;\nselect 4;\n",
+      "select 5;",
+    ]);
+  });
+
+  it("should split YAML between documents", () => {
+    const code = "a: 1\nb: 2\n---\nc: 3\nd: 4\n---\ne: 5\n";
+    const plan = planChunks(code, "yaml", "  ", { ...SMALL, maxLines: 3 })!;
+
+    expect(plan.chunks.map((chunk) => chunk.code)).toEqual([
+      "a: 1\nb: 2\n",
+      "---\nc: 3\nd: 4\n",
+      "---\ne: 5\n",
+    ]);
+    expect(applyPlan(code, plan, (c) => c)).toBe(code);
+  });
+
+  it("should split NDJSON between lines", () => {
+    const code = Array.from({ length: 10 }, (_, i) => `{"i":${i}}`).join("\n");
+    const plan = planChunks(code, "ndjson", "  ", SMALL)!;
+
+    expect(plan.chunks).toHaveLength(3);
+    expect(applyPlan(code, plan, (c) => c)).toBe(code + "\n");
+  });
+
+  it("should split JSON arrays and reassemble them as one array", () => {
+    const items = Array.from({ length: 6 }, (_, i) => `{"id":${i}}`);
+    const code = `[${items.join(",\n")}]`;
+    const plan = planChunks(code, "json", "  ", SMALL)!;
+
+    expect(plan.chunks.length).toBeGreaterThan(1);
+    expect(plan.chunks[0].code).toMatch(/^\[\{"id":0\},/);
+    const result = applyPlan(code, plan, (chunk) =>
+      JSON.stringify(JSON.parse(chunk), null, 2),
+    );
+    expect(result).toBe(JSON.stringify(JSON.parse(code), null, 2) + "\n");
+  });
+
+  it("should indent chunks that come back on a single line", () => {
+    const code = `[${Array.from({ length: 8 }, (_, i) => i).join(",\n")}]`;
+    const plan = planChunks(code, "json", "\t", SMALL)!;
+
+    const result = applyPlan(code, plan, (chunk) =>
+      JSON.stringify(JSON.parse(chunk)).replace(/,/g, ", "),
+    );
+    expect(result).toBe("[\n\t0, 1, 2, 3,\n\t4, 5, 6, 7\n]\n");
+  });
+
+  it("should split sources with very long lines by size", () => {
+    const code = `[${Array.from({ length: 4 }, () => `"${"x".repeat(50)}"`).join(",")}]`;
+    const plan = planChunks(code, "json", "  ", {
+      maxLines: 1000,
+      maxChars: 120,
+    });
+
+    expect(plan?.chunks).toHaveLength(2);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Chunked formatting for large files
+ * Splits structurally splittable sources (JSON arrays, NDJSON, SQL statement
+ * lists and YAML multi-docs) into chunks that are formatted one at a time,
+ * so huge files stay under the background's size limit and timeout and the
+ * editor can show results as they arrive
+ */
+
+import { PERFORMANCE_THRESHOLDS } from "../shared/constants";
+import { splitNdjsonRecords } from "../formatters/ndjson-formatter";
+import type { ChunkPlan, CodeChunk } from "./types";
+
+export interface ChunkLimits {
+  /** Lines per chunk */
+  maxLines: number;
+  /** Characters per chunk, for sources with very long lines */
+  maxChars: number;
+}
+
+const DEFAULT_LIMITS: ChunkLimits = {
+  maxLines: PERFORMANCE_THRESHOLDS.CHUNK_SIZE,
+  maxChars: PERFORMANCE_THRESHOLDS.CHUNK_MAX_CHARS,
+};
+
+// Text placed between two formatted chunks of a language
+const CHUNK_SEPARATORS: Record<string, string> = {
+  sql: "\n\n",
+  yaml: "\n",
+  ndjson: "\n",
+};
+
+interface Span {
+  from: number;
+  to: number;
+}
+
+function countLines(code: string, from: number, to: number): number {
+  let lines = 1;
+  for (let i = from; i < to; i++) {
+    if (code.charCodeAt(i) === 10) lines++;
+  }
+  return lines;
+}
+
+/**
+ * Group consecutive spans into chunks that stay within the limits
+ * A single span larger than the limits becomes a chunk of its own
+ */
+function groupSpans(code: string, spans: Span[], limits: ChunkLimits): Span[] {
+  const groups: Span[] = [];
+  let current: Span | null = null;
+  let lines = 0;
+
+  for (const span of spans) {
+    // A trailing newline ends the span's last line rather than starting one
+    const spanLines = countLines(code, span.from, span.to - 1);
+    if (
+      current &&
+      (lines + spanLines > limits.maxLines ||
+        span.to - current.from > limits.maxChars)
+    ) {
+      groups.push(current);
+      current = null;
+    }
+
+    if (current) {
+      current.to = span.to;
+      lines += spanLines;
+    } else {
+      current = { ...span };
+      lines = spanLines;
+    }
+  }
+
+  if (current) groups.push(current);
+  return groups;
+}
+
+/**
+ * Split NDJSON into one span per record, pretty-printed records included
+ * Each span runs up to the next record so blank lines stay with a chunk
+ */
+function splitRecords(code: string): Span[] {
+  const records = splitNdjsonRecords(code);
+  return records.map((record, index) => ({
+    from: record.from,
+    to: records[index + 1]?.from ?? code.length,
+  }));
+}
+
+/**
+ * Split YAML before each "---" document marker
+ */
+function splitYamlDocuments(code: string): Span[] {
+  const spans: Span[] = [];
+  const marker = /^---(?:[ \t]|$)/gm;
+  let from = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = marker.exec(code))) {
+    if (match.index > from) {
+      spans.push({ from, to: match.index });
+      from = match.index;
+    }
+    // Avoid looping on the empty match at the end of "---"
+    marker.lastIndex = match.index + 3;
+  }
+
+  if (from < code.length) spans.push({ from, to: code.length });
+  return spans;
+}
+
+/**
+ * Split SQL after each top-level ";", skipping strings, quoted
+ * identifiers, comments and dollar-quoted bodies
+ */
+function splitSqlStatements(code: string): Span[] {
+  const spans: Span[] = [];
+  let from = 0;
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+    const next = code[i + 1];
+
+    if (char === "'" || char === '"' || char === "`") {
+      i++;
+      while (i < code.length) {
+        if (code[i] === char) {
+          // Doubled quotes are an escaped quote
+          if (code[i + 1] === char) {
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        if (code[i] === "\\" && char === "'") i++;
+        i++;
+      }
+      i++;
+    } else if (char === "-" && next === "-") {
+      const end = code.indexOf("\n", i);
+      i = end === -1 ? code.length : end;
+    } else if (char === "/" && next === "*") {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+    } else if (char === "$") {
+      const tag = /^\$[A-Za-z_]*\$/.exec(code.slice(i, i + 64));
+      if (tag) {
+        const end = code.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? code.length : end + tag[0].length;
+      } else {
+        i++;
+      }
+    } else if (char === ";") {
+      // Keep the rest of the line (e.g. a trailing comment) with the statement
+      const end = code.indexOf("\n", i);
+      const to = end === -1 ? code.length : end + 1;
+      spans.push({ from, to });
+      from = to;
+      i = to;
+    } else {
+      i++;
+    }
+  }
+
+  if (code.slice(from).trim()) {
+    spans.push({ from, to: code.length });
+  } else if (spans.length) {
+    spans[spans.length - 1].to = code.length;
+  }
+  return spans;
+}
+
+/**
+ * Find the elements of a top-level JSON array
+ * @returns Element spans, or null when the source is not an array
+ */
+function splitJsonArray(code: string): Span[] | null {
+  const start = code.search(/\S/);
+  if (start === -1 || code[start] !== "[") return null;
+
+  const spans: Span[] = [];
+  let depth = 0;
+  let inString = false;
+  let elementStart = -1;
+
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+      if (depth === 0) {
+        if (elementStart !== -1) spans.push({ from: elementStart, to: i });
+        // Anything but whitespace after the array means it is not one
+        return code.slice(i + 1).trim() ? null : spans;
+      }
+    } else if (char === "," && depth === 1) {
+      if (elementStart !== -1) spans.push({ from: elementStart, to: i });
+      elementStart = -1;
+      continue;
+    }
+
+    if (depth === 1 && elementStart === -1 && !/[\s[]/.test(char)) {
+      elementStart = i;
+    } else if (depth > 1 && elementStart === -1) {
+      elementStart = i;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Plan for slices of the source that are formatted as they are
+ */
+function planSlices(code: string, groups: Span[], language: string): ChunkPlan {
+  const separator = CHUNK_SEPARATORS[language] ?? "\n";
+  const last = groups.length - 1;
+
+  return {
+    language,
+    chunks: groups.map((group) => ({
+      ...group,
+      code: code.slice(group.from, group.to),
+    })),
+    assemble: (formatted, index) =>
+      formatted.replace(/\s+$/, "") + (index === last ? "\n" : separator),
+  };
+}
+
+/**
+ * Plan for a JSON array: each chunk is formatted as an array of its
+ * elements and the brackets are taken off again when it is assembled
+ */
+function planJsonArray(
+  code: string,
+  groups: Span[],
+  elements: Span[],
+  indent: string,
+): ChunkPlan {
+  const last = groups.length - 1;
+
+  const chunks: CodeChunk[] = groups.map((group, index) => {
+    const members = elements.filter(
+      (e) => e.from >= group.from && e.to <= group.to,
+    );
+    return {
+      // The first and last chunks also replace the brackets
+      from: index === 0 ? 0 : group.from,
+      to: index === last ? code.length : groups[index + 1].from,
+      code: `[${members.map((e) => code.slice(e.from, e.to).trim()).join(",")}]`,
+    };
+  });
+
+  return {
+    language: "json",
+    chunks,
+    assemble: (formatted, index) => {
+      let inner = formatted.trim().replace(/^\[/, "").replace(/\]$/, "");
+      // Short chunks can come back on a single line, e.g. "[1, 2]"
+      inner = inner.includes("\n")
+        ? inner.replace(/^\n/, "").replace(/\n$/, "")
+        : indent + inner.trim();
+      return (
+        (index === 0 ? "[\n" : "") + inner + (index === last ? "\n]\n" : ",\n")
+      );
+    },
+  };
+}
+
+/**
+ * Plan chunked formatting for a large source
+ * @param indent - Indentation of the user's settings, for JSON elements
+ * @returns The plan, or null when the source fits in a single chunk or
+ *   cannot be split for its language
+ */
+export function planChunks(
+  code: string,
+  language: string,
+  indent: string = "  ",
+  limits: ChunkLimits = DEFAULT_LIMITS,
+): ChunkPlan | null {
+  if (
+    code.length <= limits.maxChars &&
+    countLines(code, 0, code.length) <= limits.maxLines
+  ) {
+    return null;
+  }
+
+  let plan: ChunkPlan | null = null;
+  switch (language) {
+    case "json": {
+      const elements = splitJsonArray(code);
+      if (elements) {
+        const groups = groupSpans(code, elements, limits);
+        plan = planJsonArray(code, groups, elements, indent);
+      }
+      break;
+    }
+    case "ndjson":
+      plan = planSlices(
+        code,
+        groupSpans(code, splitRecords(code), limits),
+        language,
+      );
+      break;
+    case "sql":
+      plan = planSlices(
+        code,
+        groupSpans(code, splitSqlStatements(code), limits),
+        language,
+      );
+      break;
+    case "yaml":
+      plan = planSlices(
+        code,
+        groupSpans(code, splitYamlDocuments(code), limits),
+        language,
+      );
+      break;
+  }
+
+  return plan && plan.chunks.length > 1 ? plan : null;
+}
@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
   detectLanguage,
+  detectLanguageWithConfidence,
+  detectLanguageWithTrialParse,
   appearsToBeCodePage,
   getLimitedContent,
+  looksLikeNdjson,
   DETECTION_PATTERNS,
 } from "./detection";
 
@@ -50,6 +53,11 @@ describe("Detection Module", () => {
       expect(detectLanguage(notJson)).not.toBe("json");
     });
 
+    it("should detect NDJSON", () => {
+      const ndjson = '{"level":"info","msg":"a"}\n{"level":"warn","msg":"b"}\n';
+      expect(detectLanguage(ndjson)).toBe("ndjson");
+    });
+
     it("should detect HTML", () => {
       const html = "<!DOCTYPE html><html><body>Hello</body></html>";
       expect(detectLanguage(html)).toBe("html");
@@ -73,6 +81,73 @@ describe("Detection Module", () => {
     });
   });
 
+  describe("detectLanguageWithConfidence", () => {
+    const GO_FUNC = 'func main() {\n\tfmt.Println("hello")\n}';
+
+    it("should detect a lone Go function and rank the alternatives", () => {
+      const result = detectLanguageWithConfidence(GO_FUNC);
+      expect(result.language).toBe("go");
+      expect(result.patterns).toContain("2 keywords");
+
+      const languages = result.candidates.map((c) => c.language);
+      expect(languages).toContain("swift");
+      expect(languages.indexOf("go")).toBeLessThan(languages.indexOf("swift"));
+
+      const total = result.candidates.reduce((sum, c) => sum + c.confidence, 0);
+      expect(total).toBeCloseTo(1);
+      expect(result.confidence).toBe(result.candidates[0].confidence);
+    });
+
+    it("should use the interpreter of a shebang", () => {
+      const result = detectLanguageWithConfidence(
+        "#!/usr/bin/node\nconsole.log(1)",
+      );
+      expect(result.language).toBe("javascript");
+      expect(result.patterns).toContain("#!node");
+    });
+
+    it("should not mistake prose using keywords for code", () => {
+      const prose =
+        "If you return for the class, then select from the list where you let it go.";
+      expect(detectLanguageWithConfidence(prose).language).toBeNull();
+    });
+
+    it("should settle an unsure detection with a trial parse", async () => {
+      const tryParse = vi.fn(async (_code: string, language: string) => {
+        return language !== "go";
+      });
+
+      const result = await detectLanguageWithTrialParse(GO_FUNC, tryParse);
+      expect(tryParse).toHaveBeenCalledWith(GO_FUNC, "go");
+      expect(result.language).toBe("swift");
+      expect(result.candidates[1]).toMatchObject({ language: "go" });
+      expect(result.candidates[1].reasons).toContain("does not parse");
+    });
+
+    it("should not trial parse a confident detection", async () => {
+      const tryParse = vi.fn(async () => false);
+      const result = await detectLanguageWithTrialParse('{"a": 1}', tryParse);
+      expect(result.language).toBe("json");
+      expect(tryParse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("looksLikeNdjson", () => {
+    it("should accept one record per line", () => {
+      expect(looksLikeNdjson('{"a":1}\n\n[1,2]\n{"b":2}')).toBe(true);
+    });
+
+    it("should tolerate a few bad lines", () => {
+      const lines = Array.from({ length: 9 }, (_, i) => `{"i":${i}}`);
+      expect(looksLikeNdjson([...lines, '{"i":'].join("\n"))).toBe(true);
+    });
+
+    it("should reject a single record and pretty-printed JSON", () => {
+      expect(looksLikeNdjson('{"a":1}')).toBe(false);
+      expect(looksLikeNdjson('{\n  "a": 1,\n  "b": 2\n}')).toBe(false);
+    });
+  });
+
   describe("getLimitedContent", () => {
     it("should return content as-is if under limit", () => {
       const content = "short content";
@@ -130,6 +205,17 @@ describe("appearsToBeCodePage", () => {
     expect(appearsToBeCodePage()).toBe(true);
   });
 
+  it("should return false when code is only part of the page", () => {
+    const article = document.createElement("article");
+    article.textContent = "Some words explaining the example. ".repeat(20);
+    const pre = document.createElement("pre");
+    pre.className = "language-javascript";
+    pre.textContent = "const x = 10;".repeat(20);
+    document.body.append(article, pre);
+
+    expect(appearsToBeCodePage()).toBe(false);
+  });
+
   it("should return false for short content", () => {
     const pre = document.createElement("pre");
     pre.textContent = "short";
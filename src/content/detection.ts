@@ -1,11 +1,20 @@
-import { EXTENSION_MAP } from "../shared/constants";
+import { EXTENSION_MAP, FORMATTABLE_LANGUAGES } from "../shared/constants";
 import { detectLanguageFromUrl } from "../shared/utils";
-import type { LanguagePattern, DetectionResult } from "./types";
+import type {
+  LanguagePattern,
+  LanguageCandidate,
+  DetectionResult,
+} from "./types";
 
 const MIN_CONTENT_LENGTH = 50;
 const MIN_TOTAL_CONTENT_LENGTH = 200;
 const SUBSTANTIAL_CONTENT_LENGTH = 100;
 const MAX_DETECTION_CONTENT_SIZE = 50000;
+const NDJSON_SAMPLE_LINES = 50;
+const NDJSON_MIN_VALID_RATIO = 0.8;
+// Share of a page's text its code must make up for the page to be taken
+// over by the editor. Pages with less get inline toolbars on their blocks
+const CODE_PAGE_TEXT_RATIO = 0.8;
 
 const DETECTION_PATTERNS: LanguagePattern[] = [
   { lang: "html", regex: /^\s*<!DOCTYPE|<html|<head|<body/i, weight: 10 },
@@ -138,71 +147,310 @@ const LANGUAGE_SELECTORS = [
 
 const SHEBANG_PATTERN = /^#!.*\/(bash|python|ruby|node|perl|php|sh|zsh|fish)/;
 
-export function detectLanguage(content: string): string | null {
-  const trimmed = content.trim();
+/**
+ * Check whether content is newline-delimited JSON: several lines that each
+ * parse as an object or array. A few bad lines are tolerated, so a log
+ * export with a truncated record is still recognized
+ */
+export function looksLikeNdjson(content: string): boolean {
+  const lines = content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, NDJSON_SAMPLE_LINES);
+  if (lines.length < 2) return false;
+
+  let valid = 0;
+  for (const line of lines) {
+    if (!line.startsWith("{") && !line.startsWith("[")) continue;
+    try {
+      const parsed = JSON.parse(line);
+      if (typeof parsed === "object" && parsed !== null) valid++;
+    } catch {
+      /* not a record */
+    }
+  }
+
+  return valid >= 2 && valid / lines.length >= NDJSON_MIN_VALID_RATIO;
+}
+
+// Evidence that settles the language more or less on its own
+const JSON_SCORE = 40;
+const EXTENSION_SCORE = 30;
+const SHEBANG_SCORE = 30;
+// Keyword hits count logarithmically, so a long file does not drown out
+// every other kind of evidence
+const KEYWORD_SCORE = 2;
+const KEYWORD_MAX_SCORE = 10;
+// Share of punctuation at which text counts as fully code-like. Prose
+// that happens to use keywords has far less and is scored down
+const CODE_SYMBOL_DENSITY = 0.1;
+const MIN_CODE_LIKENESS = 0.25;
+// Below this the best candidate is too weak to be called a detection
+const MIN_DETECTION_SCORE = 6;
+// Trial parses only run when the detection is unsure, for the best few
+const CONFIDENT_DETECTION = 0.75;
+const TRIAL_PARSE_CANDIDATES = 3;
+const TRIAL_PARSE_SCORE = 8;
+const TRIAL_PARSE_PENALTY = 0.3;
+
+const SHEBANG_LANGUAGES: Record<string, string> = {
+  bash: "bash",
+  sh: "bash",
+  zsh: "bash",
+  fish: "bash",
+  python: "python",
+  ruby: "ruby",
+  node: "javascript",
+  perl: "perl",
+  php: "php",
+};
+
+// Words that are common in a language, space separated
+const LANGUAGE_KEYWORDS: Record<string, string> = {
+  javascript:
+    "const let function return async await require console undefined typeof",
+  typescript:
+    "interface readonly implements namespace declare keyof unknown never",
+  python: "def elif self None True False lambda yield pass __init__",
+  go: "func package defer chan go fmt nil struct err",
+  rust: "fn mut impl pub crate Some Ok Err unwrap trait",
+  sql: "select from where insert update delete join group order values",
+  ruby: "def end puts require attr_accessor elsif unless nil do",
+  php: "echo function public private array foreach namespace this",
+  java: "public private static void extends implements final String System",
+  c: "include int char void struct printf malloc sizeof NULL",
+  cpp: "std cout template namespace nullptr auto vector",
+  csharp: "using namespace public var Task Console string void",
+  swift: "func let var guard struct extension protocol self",
+  kotlin: "fun val var data object companion when override",
+  css: "color margin padding display font background border width",
+  html: "div span href class src script body",
+  bash: "echo fi then done esac export sudo grep",
+};
+
+const KEYWORD_PATTERNS: Record<string, RegExp> = Object.fromEntries(
+  Object.entries(LANGUAGE_KEYWORDS).map(([lang, words]) => [
+    lang,
+    new RegExp(
+      `\\b(?:${words.split(" ").join("|")})\\b`,
+      lang === "sql" ? "gi" : "g",
+    ),
+  ]),
+);
+
+/**
+ * Formats code as a language, resolving to whether its parser accepted it
+ */
+export type TrialParse = (code: string, language: string) => Promise<boolean>;
+
+/**
+ * How much text looks like code rather than prose, from the share of its
+ * characters that are punctuation
+ */
+function getCodeLikeness(content: string): number {
+  const chars = content.replace(/\s+/g, "");
+  if (!chars) return 0;
+  const symbols = chars.replace(/[\p{L}\p{N}_]/gu, "").length;
+  const density = symbols / chars.length / CODE_SYMBOL_DENSITY;
+  return Math.min(1, Math.max(MIN_CODE_LIKENESS, density));
+}
+
+function getUrlExtension(): string | null {
+  const lastSegment = window.location.pathname.split("/").pop() || "";
+  const ext = lastSegment.split(".").pop()?.toLowerCase();
+  return ext && ext !== lastSegment ? ext : null;
+}
+
+/**
+ * Sort candidates by score and share the confidence out between them
+ */
+function rankCandidates(
+  scores: Map<string, { score: number; reasons: string[] }>,
+): LanguageCandidate[] {
+  const total = Array.from(scores.values()).reduce(
+    (sum, s) => sum + s.score,
+    0,
+  );
+  return Array.from(scores, ([language, { score, reasons }]) => ({
+    language,
+    confidence: total > 0 ? score / total : 0,
+    score,
+    reasons,
+  }))
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function toDetectionResult(candidates: LanguageCandidate[]): DetectionResult {
+  const best = candidates[0];
+  const detected = best && best.score >= MIN_DETECTION_SCORE ? best : null;
+  return {
+    language: detected?.language ?? null,
+    confidence: detected?.confidence ?? 0,
+    patterns: detected?.reasons ?? [],
+    candidates,
+  };
+}
+
+/**
+ * Rank the languages content may be in by combining what can be told
+ * without a parser: a JSON parse, the extension of the page's URL, a
+ * shebang, the detection patterns and how often each language's keywords
+ * come up. Patterns and keywords count less in text that reads like prose
+ */
+export function scoreLanguages(content: string): LanguageCandidate[] {
+  const sample = getLimitedContent(content);
+  const trimmed = sample.trim();
+  const scores = new Map<string, { score: number; reasons: string[] }>();
+  const add = (lang: string, score: number, reason: string) => {
+    const entry = scores.get(lang) ?? { score: 0, reasons: [] };
+    entry.score += score;
+    entry.reasons.push(reason);
+    scores.set(lang, entry);
+  };
+
+  if (!trimmed) return [];
 
   if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
     try {
       const parsed = JSON.parse(trimmed);
       if (typeof parsed === "object" && parsed !== null) {
-        return "json";
+        add("json", JSON_SCORE, "valid JSON");
       }
     } catch {
-      /* not JSON */
+      if (looksLikeNdjson(trimmed)) add("ndjson", JSON_SCORE, "JSON lines");
     }
   }
 
-  const pathname = window.location.pathname;
-  const lastSegment = pathname.split("/").pop() || "";
-  const ext = lastSegment.split(".").pop()?.split("?")[0].toLowerCase();
-  if (ext && ext !== lastSegment && EXTENSION_MAP[ext]) {
-    return EXTENSION_MAP[ext];
+  const ext = getUrlExtension();
+  if (ext && EXTENSION_MAP[ext]) {
+    add(EXTENSION_MAP[ext], EXTENSION_SCORE, `extension .${ext}`);
   }
 
-  const langMatches: Record<string, number> = {};
-  const matchDetails: Record<string, string[]> = {};
+  const shebang = SHEBANG_PATTERN.exec(trimmed)?.[1];
+  if (shebang) add(SHEBANG_LANGUAGES[shebang], SHEBANG_SCORE, `#!${shebang}`);
 
+  const likeness = getCodeLikeness(sample);
   for (const p of DETECTION_PATTERNS) {
-    if (p.regex.test(content)) {
-      langMatches[p.lang] = (langMatches[p.lang] || 0) + p.weight;
-      if (!matchDetails[p.lang]) matchDetails[p.lang] = [];
-      matchDetails[p.lang].push(p.regex.source.substring(0, 30));
+    if (p.regex.test(sample)) {
+      add(
+        p.lang,
+        p.weight * likeness,
+        `pattern ${p.regex.source.substring(0, 30)}`,
+      );
     }
   }
 
-  let bestMatch: { lang: string; weight: number } | null = null;
-  for (const [lang, weight] of Object.entries(langMatches)) {
-    const patternCount = matchDetails[lang].length;
-    if (patternCount >= 2 || weight >= 8) {
-      if (!bestMatch || weight > bestMatch.weight) {
-        bestMatch = { lang, weight };
-      }
-    }
+  // Keywords back up a language that has other evidence, but are too
+  // common across languages and in prose to bring one in on their own
+  for (const [lang, entry] of scores) {
+    const keywords = KEYWORD_PATTERNS[lang];
+    const hits = keywords ? (sample.match(keywords)?.length ?? 0) : 0;
+    if (hits === 0) continue;
+    entry.score +=
+      Math.min(KEYWORD_SCORE * Math.log2(1 + hits), KEYWORD_MAX_SCORE) *
+      likeness;
+    entry.reasons.push(`${hits} ${hits === 1 ? "keyword" : "keywords"}`);
   }
 
-  return bestMatch?.lang ?? null;
+  return rankCandidates(scores);
+}
+
+export function detectLanguage(content: string): string | null {
+  return detectLanguageWithConfidence(content).language;
 }
 
 export function detectLanguageWithConfidence(content: string): DetectionResult {
-  const lang = detectLanguage(content);
-  return {
-    language: lang,
-    confidence: lang ? 1 : 0,
-    patterns: [],
-  };
+  return toDetectionResult(scoreLanguages(content));
+}
+
+/**
+ * Detect the language, settling an unsure detection by formatting the
+ * content as each of the likeliest formattable languages: a language
+ * whose parser accepts it gains, one whose parser rejects it loses
+ */
+export async function detectLanguageWithTrialParse(
+  content: string,
+  tryParse: TrialParse,
+): Promise<DetectionResult> {
+  const result = detectLanguageWithConfidence(content);
+  if (
+    result.confidence >= CONFIDENT_DETECTION ||
+    content.length > MAX_DETECTION_CONTENT_SIZE
+  ) {
+    return result;
+  }
+
+  const scores = new Map(
+    result.candidates.map((c) => [
+      c.language,
+      { score: c.score, reasons: [...c.reasons] },
+    ]),
+  );
+  const trials = result.candidates
+    .filter((c) => FORMATTABLE_LANGUAGES.has(c.language))
+    .slice(0, TRIAL_PARSE_CANDIDATES);
+
+  for (const { language } of trials) {
+    const entry = scores.get(language)!;
+    if (await tryParse(content, language)) {
+      entry.score += TRIAL_PARSE_SCORE;
+      entry.reasons.push("parses");
+    } else {
+      entry.score *= TRIAL_PARSE_PENALTY;
+      entry.reasons.push("does not parse");
+    }
+  }
+
+  return toDetectionResult(rankCandidates(scores));
+}
+
+function countVisibleChars(text: string): number {
+  return text.replace(/\s+/g, "").length;
+}
+
+/**
+ * Whether code makes up most of the text of the page, scripts and styles
+ * aside, so that the page is code rather than prose with code in it
+ */
+function isMostlyCode(codeText: string): boolean {
+  if (!document.body) return true;
+
+  let pageLength = 0;
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.parentElement?.closest("script, style, noscript, template")) {
+      continue;
+    }
+    pageLength += countVisibleChars(node.textContent ?? "");
+  }
+
+  return (
+    pageLength === 0 ||
+    countVisibleChars(codeText) / pageLength >= CODE_PAGE_TEXT_RATIO
+  );
 }
 
 export function appearsToBeCodePage(): boolean {
+  const languageBlocks = new Set<Element>();
+  let hasSubstantialBlock = false;
   for (const selector of LANGUAGE_SELECTORS) {
     const elements = document.querySelectorAll(selector);
     for (const el of elements) {
       const text = el.textContent?.trim() || "";
       if (text.length > SUBSTANTIAL_CONTENT_LENGTH) {
-        return true;
+        hasSubstantialBlock = true;
       }
+      languageBlocks.add(el.closest("pre") ?? el);
     }
   }
 
+  if (hasSubstantialBlock) {
+    const blockText = Array.from(languageBlocks, (el) => el.textContent ?? "");
+    if (isMostlyCode(blockText.join("\n"))) return true;
+  }
+
   const urlLang = detectLanguageFromUrl();
   if (urlLang) return true;
 
@@ -233,9 +481,10 @@ export function appearsToBeCodePage(): boolean {
     }
   }
 
+  const allCodeText = codeTextParts.join("\n");
+  if (!isMostlyCode(allCodeText)) return false;
   if (hasShebang) return true;
 
-  const allCodeText = codeTextParts.join("\n");
   if (allCodeText.length < MIN_TOTAL_CONTENT_LENGTH) {
     return false;
   }
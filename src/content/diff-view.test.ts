@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  createDiffView,
+  destroyDiffView,
+  isDiffViewOpen,
+  getHunkPosition,
+  goToNextHunk,
+  goToPreviousHunk,
+} from "./diff-view";
+import { initEditor } from "./editor";
+import { DEFAULT_SETTINGS } from "../shared/constants";
+
+const original = "// header\nconst a=1\nconst b = 2;\nconst c=3\n";
+const formatted = "// header\nconst a = 1;\nconst b = 2;\nconst c = 3;\n";
+
+describe("Diff View Module", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    initEditor({ ...DEFAULT_SETTINGS });
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    destroyDiffView();
+    document.body.innerHTML = "";
+  });
+
+  it("should show both sides in split mode", async () => {
+    await createDiffView(container, original, formatted, "javascript", "split");
+
+    expect(isDiffViewOpen()).toBe(true);
+    expect(container.querySelectorAll(".cm-editor").length).toBe(2);
+  });
+
+  it("should show a single editor in inline mode", async () => {
+    await createDiffView(
+      container,
+      original,
+      formatted,
+      "javascript",
+      "inline",
+    );
+
+    expect(container.querySelectorAll(".cm-editor").length).toBe(1);
+  });
+
+  it("should count the changed hunks", async () => {
+    await createDiffView(container, original, formatted, "javascript", "split");
+
+    expect(getHunkPosition().total).toBe(2);
+  });
+
+  it("should navigate between hunks", async () => {
+    await createDiffView(
+      container,
+      original,
+      formatted,
+      "javascript",
+      "inline",
+    );
+
+    expect(goToNextHunk()).toBe(true);
+    expect(getHunkPosition().current).toBe(1);
+    goToNextHunk();
+    expect(getHunkPosition().current).toBe(2);
+    goToPreviousHunk();
+    expect(getHunkPosition().current).toBe(1);
+  });
+
+  it("should report no hunks once closed", async () => {
+    await createDiffView(container, original, formatted, "javascript", "split");
+    destroyDiffView();
+
+    expect(isDiffViewOpen()).toBe(false);
+    expect(getHunkPosition()).toEqual({ current: 0, total: 0 });
+    expect(goToNextHunk()).toBe(false);
+  });
+});
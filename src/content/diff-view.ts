@@ -0,0 +1,101 @@
+/**
+ * Diff View
+ * Compares the original page code with the formatted buffer, either side
+ * by side or as an inline unified diff, with hunk navigation
+ */
+
+import { EditorView } from "@codemirror/view";
+import { EditorState } from "@codemirror/state";
+import {
+  MergeView,
+  unifiedMergeView,
+  getChunks,
+  goToNextChunk,
+  goToPreviousChunk,
+} from "@codemirror/merge";
+import { getViewerExtensions } from "./editor";
+import type { DiffMode } from "./types";
+
+let mergeView: MergeView | null = null;
+let unifiedView: EditorView | null = null;
+
+/**
+ * The view holding the formatted code, where hunks are navigated
+ */
+function getFormattedView(): EditorView | null {
+  return mergeView?.b ?? unifiedView;
+}
+
+export async function createDiffView(
+  container: HTMLElement,
+  original: string,
+  formatted: string,
+  language: string,
+  mode: DiffMode,
+): Promise<void> {
+  destroyDiffView();
+
+  const extensions = await getViewerExtensions(language);
+
+  if (mode === "split") {
+    mergeView = new MergeView({
+      a: { doc: original, extensions },
+      b: { doc: formatted, extensions },
+      parent: container,
+      highlightChanges: true,
+      gutter: true,
+    });
+  } else {
+    unifiedView = new EditorView({
+      state: EditorState.create({
+        doc: formatted,
+        extensions: [
+          ...extensions,
+          unifiedMergeView({
+            original,
+            highlightChanges: true,
+            gutter: true,
+            mergeControls: false,
+          }),
+        ],
+      }),
+      parent: container,
+    });
+  }
+}
+
+export function destroyDiffView(): void {
+  mergeView?.destroy();
+  mergeView = null;
+  unifiedView?.destroy();
+  unifiedView = null;
+}
+
+export function isDiffViewOpen(): boolean {
+  return getFormattedView() !== null;
+}
+
+/**
+ * Position of the selection among the changed hunks, `current` is 0
+ * when the selection is outside every hunk
+ */
+export function getHunkPosition(): { current: number; total: number } {
+  const view = getFormattedView();
+  const chunks = view ? (getChunks(view.state)?.chunks ?? []) : [];
+  const head = view?.state.selection.main.head ?? 0;
+
+  const index = chunks.findIndex(
+    (chunk) => head >= chunk.fromB && head <= chunk.toB,
+  );
+  return { current: index + 1, total: chunks.length };
+}
+
+export function goToNextHunk(): boolean {
+  const view = getFormattedView();
+  return view ? goToNextChunk(view) : false;
+}
+
+export function goToPreviousHunk(): boolean {
+  const view = getFormattedView();
+  return view ? goToPreviousChunk(view) : false;
+}
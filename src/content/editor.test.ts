@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { EditorView } from "@codemirror/view";
+import { undo } from "@codemirror/commands";
+import {
+  initEditor,
+  createEditor,
+  destroyEditor,
+  isEditorDirty,
+  loadEditorContent,
+  revertEditor,
+} from "./editor";
+import { DEFAULT_SETTINGS } from "../shared/constants";
+
+const SOURCE = "const a = 1;";
+
+describe("editor edits", () => {
+  let view: EditorView;
+
+  const edit = () =>
+    view.dispatch({
+      changes: { from: view.state.doc.length, insert: "\na;" },
+      userEvent: "input",
+    });
+
+  beforeEach(async () => {
+    initEditor({ ...DEFAULT_SETTINGS });
+    view = await createEditor(document.body, SOURCE, "javascript");
+  });
+
+  afterEach(() => {
+    destroyEditor();
+    document.body.innerHTML = "";
+  });
+
+  it("should be modified until the edits are reverted", () => {
+    expect(isEditorDirty()).toBe(false);
+    edit();
+    expect(isEditorDirty()).toBe(true);
+
+    revertEditor();
+    expect(view.state.doc.toString()).toBe(SOURCE);
+    expect(isEditorDirty()).toBe(false);
+
+    undo(view);
+    expect(view.state.doc.toString()).toBe(`${SOURCE}\na;`);
+  });
+
+  it("should take a loaded document as unmodified", () => {
+    loadEditorContent("const b = 2;");
+    expect(isEditorDirty()).toBe(false);
+  });
+
+  it("should keep the edits when a document is loaded over them", () => {
+    edit();
+    loadEditorContent("const a = 1;\n\na;\n");
+
+    expect(isEditorDirty()).toBe(true);
+    revertEditor();
+    expect(view.state.doc.toString()).toBe(SOURCE);
+  });
+});
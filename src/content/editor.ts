@@ -1,6 +1,17 @@
 import { EditorView, keymap, lineNumbers } from "@codemirror/view";
-import { EditorState, Extension, Compartment } from "@codemirror/state";
-import { defaultKeymap, indentWithTab } from "@codemirror/commands";
+import {
+  EditorState,
+  Extension,
+  Compartment,
+  type Text,
+} from "@codemirror/state";
+import {
+  defaultKeymap,
+  history,
+  historyKeymap,
+  indentWithTab,
+  isolateHistory,
+} from "@codemirror/commands";
 import {
   syntaxHighlighting,
   defaultHighlightStyle,
@@ -8,9 +19,15 @@ import {
   foldGutter,
   foldKeymap,
   codeFolding,
+  foldService,
   indentOnInput,
+  LanguageSupport,
+  StreamLanguage,
+  type Language,
+  type StreamParser,
 } from "@codemirror/language";
 import { search, highlightSelectionMatches } from "@codemirror/search";
+import { lintGutter, setDiagnostics, type Diagnostic } from "@codemirror/lint";
 import { javascript } from "@codemirror/lang-javascript";
 import { json } from "@codemirror/lang-json";
 import { css } from "@codemirror/lang-css";
@@ -23,6 +40,7 @@ import { COLORS } from "../shared/constants";
 import { PERFORMANCE_THRESHOLDS } from "../shared/constants";
 import { getSearchHighlightExtension } from "./search-highlight";
 import type { ExtensionSettings, ThemeName } from "../shared/types";
+import type { FormatDiagnostic, FormatRange } from "../formatters/types";
 
 const DARK_THEMES: ThemeName[] = [
   "one-dark-pro",
@@ -37,11 +55,28 @@ const DARK_THEMES: ThemeName[] = [
 
 const themeCompartment = new Compartment();
 const languageCompartment = new Compartment();
+const editableCompartment = new Compartment();
 
 let editorInstance: EditorView | null = null;
 let currentSettings: ExtensionSettings;
 
+type RangeFormatHandler = (
+  code: string,
+  range: FormatRange,
+) => Promise<string | null>;
+
+let onFormatRange: RangeFormatHandler | null = null;
+let languageRequest = 0;
+
+const docChangeListeners = new Set<() => void>();
+const dirtyChangeListeners = new Set<(dirty: boolean) => void>();
+
+// Document as it was last loaded or saved, edits are measured against it
+let cleanDoc: Text | null = null;
+let isDirty = false;
+
 const themeCache = new Map<ThemeName, Extension>();
+const languageCache = new Map<string, Extension>();
 
 themeCache.set("one-dark-pro", oneDark);
 
@@ -116,6 +151,72 @@ export function setEditor(editor: EditorView | null): void {
   editorInstance = editor;
 }
 
+export function setRangeFormatHandler(handler: RangeFormatHandler): void {
+  onFormatRange = handler;
+}
+
+/**
+ * Replace only the part of the document that differs, so the selection
+ * and scroll position outside the formatted region are kept
+ */
+function replaceChangedRegion(
+  view: EditorView,
+  before: string,
+  after: string,
+): void {
+  const maxLength = Math.min(before.length, after.length);
+
+  let start = 0;
+  while (start < maxLength && before[start] === after[start]) start++;
+
+  let end = 0;
+  while (
+    end < maxLength - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  if (start === before.length && start === after.length) return;
+
+  view.dispatch({
+    changes: {
+      from: start,
+      to: before.length - end,
+      insert: after.slice(start, after.length - end),
+    },
+  });
+}
+
+/**
+ * Reformat the lines touched by the main selection
+ * Bound to Mod-k Mod-f, the "Format Selection" chord of other editors
+ */
+function formatSelectedLines(view: EditorView): boolean {
+  if (!onFormatRange) return false;
+
+  const { doc, selection } = view.state;
+  const range: FormatRange = {
+    from: doc.lineAt(selection.main.from).from,
+    to: doc.lineAt(selection.main.to).to,
+  };
+  const code = doc.toString();
+
+  onFormatRange(code, range).then((formatted) => {
+    // Drop the result if the editor was replaced or edited meanwhile
+    if (
+      formatted === null ||
+      view !== editorInstance ||
+      view.state.doc.toString() !== code
+    ) {
+      return;
+    }
+    replaceChangedRegion(view, code, formatted);
+  });
+
+  return true;
+}
+
 export function getThemeCompartment(): Compartment {
   return themeCompartment;
 }
@@ -124,23 +225,57 @@ export function getLanguageCompartment(): Compartment {
   return languageCompartment;
 }
 
+/**
+ * Make every NDJSON record foldable: a compact record folds inside its
+ * brackets, a pretty-printed one down to the line that closes it
+ */
+const ndjsonFolding = foldService.of((state, lineStart) => {
+  const line = state.doc.lineAt(lineStart);
+  const text = line.text.trimEnd();
+  const open = text[0];
+  if (open !== "{" && open !== "[") return null;
+
+  const close = open === "{" ? "}" : "]";
+  if (text.endsWith(close)) {
+    return text.length > 2
+      ? { from: line.from + 1, to: line.from + text.length - 1 }
+      : null;
+  }
+
+  for (let n = line.number + 1; n <= state.doc.lines; n++) {
+    const next = state.doc.line(n);
+    if (next.text.startsWith(close)) return { from: line.to, to: next.from };
+    // The next record started, this one is never closed
+    if (next.text.startsWith("{") || next.text.startsWith("[")) return null;
+  }
+  return null;
+});
+
+/**
+ * Languages bundled with the editor, the others are loaded on demand by
+ * loadLanguageExtension
+ */
 function getLanguageExtension(language: string): Extension {
   const lang = language.toLowerCase();
   switch (lang) {
     case "javascript":
+      return javascript();
     case "typescript":
+      return javascript({ typescript: true });
     case "jsx":
+      return javascript({ jsx: true });
     case "tsx":
-      return javascript();
+      return javascript({ jsx: true, typescript: true });
     case "json":
       return json();
+    case "ndjson":
+    case "jsonl":
+      return [json(), ndjsonFolding];
     case "css":
     case "scss":
     case "less":
       return css();
     case "html":
-    case "xml":
-    case "svg":
       return html();
     case "python":
     case "py":
@@ -155,6 +290,143 @@ function getLanguageExtension(language: string): Extension {
   }
 }
 
+// Languages highlighted by the modes of the C-like mode, by their names
+const CLIKE_LANGUAGES = [
+  "c",
+  "cpp",
+  "csharp",
+  "dart",
+  "java",
+  "kotlin",
+  "scala",
+] as const;
+
+function legacyMode(parser: StreamParser<unknown>): LanguageSupport {
+  return new LanguageSupport(StreamLanguage.define(parser));
+}
+
+function words(list: string): Record<string, boolean> {
+  return Object.fromEntries(list.split(" ").map((word) => [word, true]));
+}
+
+async function loadZig(): Promise<LanguageSupport> {
+  // There is no Zig mode, the C-like one only needs its words
+  const { clike } = await import("@codemirror/legacy-modes/mode/clike");
+  return legacyMode(
+    clike({
+      name: "zig",
+      keywords: words(
+        "addrspace align allowzero and anyframe anytype asm async await " +
+          "break callconv catch comptime const continue defer else enum " +
+          "errdefer error export extern fn for if inline linksection " +
+          "noalias noinline nosuspend opaque or orelse packed pub resume " +
+          "return struct suspend switch test threadlocal try union " +
+          "unreachable usingnamespace var volatile while",
+      ),
+      types: words(
+        "i8 u8 i16 u16 i32 u32 i64 u64 i128 u128 isize usize f16 f32 f64 " +
+          "f80 f128 bool void noreturn type anyerror anyopaque " +
+          "comptime_int comptime_float c_int c_uint c_long c_ulong c_char",
+      ),
+      atoms: words("true false null undefined"),
+      multiLineStrings: true,
+    }),
+  );
+}
+
+async function importLanguage(lang: string): Promise<Extension> {
+  if ((CLIKE_LANGUAGES as readonly string[]).includes(lang)) {
+    const modes = await import("@codemirror/legacy-modes/mode/clike");
+    return legacyMode(modes[lang as (typeof CLIKE_LANGUAGES)[number]]);
+  }
+
+  switch (lang) {
+    case "go":
+      return (await import("@codemirror/lang-go")).go();
+    case "rust":
+    case "rs":
+      return (await import("@codemirror/lang-rust")).rust();
+    case "xml":
+    case "svg":
+      return (await import("@codemirror/lang-xml")).xml();
+    case "yaml":
+    case "yml":
+      return (await import("@codemirror/lang-yaml")).yaml();
+    case "php":
+      return (await import("@codemirror/lang-php")).php();
+    case "toml":
+      return legacyMode(
+        (await import("@codemirror/legacy-modes/mode/toml")).toml,
+      );
+    case "ruby":
+    case "rb":
+      return legacyMode(
+        (await import("@codemirror/legacy-modes/mode/ruby")).ruby,
+      );
+    case "lua":
+      return legacyMode(
+        (await import("@codemirror/legacy-modes/mode/lua")).lua,
+      );
+    case "bash":
+    case "sh":
+    case "shell":
+      return legacyMode(
+        (await import("@codemirror/legacy-modes/mode/shell")).shell,
+      );
+    case "perl":
+      return legacyMode(
+        (await import("@codemirror/legacy-modes/mode/perl")).perl,
+      );
+    case "r":
+      return legacyMode((await import("@codemirror/legacy-modes/mode/r")).r);
+    case "swift":
+      return legacyMode(
+        (await import("@codemirror/legacy-modes/mode/swift")).swift,
+      );
+    case "zig":
+      return loadZig();
+    default:
+      return getLanguageExtension(lang);
+  }
+}
+
+/**
+ * Highlighting of a language, importing the mode of the language the first
+ * time it is shown. Falls back to no highlighting when the import fails
+ */
+export async function loadLanguageExtension(
+  language: string,
+): Promise<Extension> {
+  const lang = language.toLowerCase();
+  if (languageCache.has(lang)) {
+    return languageCache.get(lang)!;
+  }
+
+  try {
+    const extension = await importLanguage(lang);
+    languageCache.set(lang, extension);
+    return extension;
+  } catch (error) {
+    console.warn(
+      `[Code Formatter] Failed to load highlighting for ${language}:`,
+      error,
+    );
+    return [];
+  }
+}
+
+/**
+ * Parser of a language's syntax tree, for highlighting code outside of
+ * the editor, e.g. in the Markdown preview. Languages loaded on demand
+ * have no parser until loadLanguageExtension loaded them
+ */
+export function getLanguageParser(language: string): Language["parser"] | null {
+  const extension =
+    languageCache.get(language.toLowerCase()) ?? getLanguageExtension(language);
+  const support = Array.isArray(extension) ? extension[0] : extension;
+  return support instanceof LanguageSupport ? support.language.parser : null;
+}
+
 function getBaseThemeExtensions(): Extension[] {
   const isDark = DARK_THEMES.includes(currentSettings.theme);
   const bg = isDark ? COLORS.EDITOR_BG_DARK : COLORS.EDITOR_BG_LIGHT;
@@ -213,6 +485,44 @@ async function getThemeExtensions(): Promise<Extension[]> {
   return exts;
 }
 
+/**
+ * Extensions for a read-only view styled like the main editor,
+ * used by the diff view
+ */
+export async function getViewerExtensions(
+  language: string,
+): Promise<Extension[]> {
+  return [
+    lineNumbers(),
+    await loadLanguageExtension(language),
+    ...(await getThemeExtensions()),
+    EditorState.readOnly.of(true),
+  ];
+}
+
+/**
+ * An editable editor styled like the main one that is not the page's
+ * editor, used to edit a single code block of a page
+ */
+export async function createBlockEditor(
+  container: HTMLElement,
+  code: string,
+  language: string,
+): Promise<EditorView> {
+  const state = EditorState.create({
+    doc: code,
+    extensions: [
+      lineNumbers(),
+      bracketMatching(),
+      indentOnInput(),
+      keymap.of([...defaultKeymap, indentWithTab]),
+      languageCompartment.of(await loadLanguageExtension(language)),
+      ...(await getThemeExtensions()),
+    ],
+  });
+  return new EditorView({ state, parent: container });
+}
+
 export async function createEditor(
   container: HTMLElement,
   code: string,
@@ -221,8 +531,9 @@ export async function createEditor(
 ): Promise<EditorView> {
   console.log("[Code Formatter] Creating editor:", language);
 
-  const isEditable = currentSettings.autoFormatOnType ?? false;
+  const formatOnType = currentSettings.autoFormatOnType ?? false;
   const themeExts = await getThemeExtensions();
+  const languageExt = await loadLanguageExtension(language);
 
   const lineCount = code.split("\n").length;
   const isLargeFile = lineCount > PERFORMANCE_THRESHOLDS.LARGE_FILE_LINES;
@@ -243,17 +554,26 @@ export async function createEditor(
     search({ top: isLargeFile }),
     !isHugeFile ? highlightSelectionMatches() : null,
     getSearchHighlightExtension(),
+    lintGutter(),
+    history(),
     keymap.of([
+      { key: "Mod-k Mod-f", run: formatSelectedLines, preventDefault: true },
       ...defaultKeymap,
+      ...historyKeymap,
       ...(!isHugeFile ? foldKeymap : []),
       indentWithTab,
     ]),
-    languageCompartment.of(getLanguageExtension(language)),
+    languageCompartment.of(languageExt),
     themeCompartment.of(themeExts),
-    EditorView.editable.of(isEditable && !isHugeFile),
+    editableCompartment.of(EditorView.editable.of(formatOnType && !isHugeFile)),
+    EditorView.updateListener.of((update) => {
+      if (!update.docChanged) return;
+      docChangeListeners.forEach((listener) => listener());
+      updateDirty();
+    }),
   ].filter(Boolean) as Extension[];
 
-  if (isEditable && onUpdate && !isHugeFile) {
+  if (formatOnType && onUpdate && !isHugeFile) {
     extensions.push(
       EditorView.updateListener.of((update) => {
         if (update.docChanged) {
@@ -265,6 +585,7 @@ export async function createEditor(
 
   const state = EditorState.create({ doc: code, extensions });
   editorInstance = new EditorView({ state, parent: container });
+  markEditorClean();
   return editorInstance;
 }
 
@@ -278,14 +599,27 @@ export async function applyTheme(): Promise<void> {
   }
 }
 
-export function applyLanguage(language: string): void {
-  if (editorInstance) {
+export async function applyLanguage(language: string): Promise<void> {
+  const request = ++languageRequest;
+  const languageExt = await loadLanguageExtension(language);
+  // A language chosen while this one was loading wins
+  if (editorInstance && request === languageRequest) {
     editorInstance.dispatch({
-      effects: languageCompartment.reconfigure(getLanguageExtension(language)),
+      effects: languageCompartment.reconfigure(languageExt),
     });
   }
 }
 
+/**
+ * Call a listener whenever the document changes, whether it was edited or
+ * replaced by formatting
+ * @returns A function removing the listener
+ */
+export function addDocChangeListener(listener: () => void): () => void {
+  docChangeListeners.add(listener);
+  return () => docChangeListeners.delete(listener);
+}
+
 export function updateEditorContent(code: string): void {
   if (editorInstance) {
     editorInstance.dispatch({
@@ -298,6 +632,114 @@ export function updateEditorContent(code: string): void {
   }
 }
 
+export function isEditorEditable(): boolean {
+  return editorInstance?.state.facet(EditorView.editable) ?? false;
+}
+
+/**
+ * Let the user edit the document, or make it read-only again
+ */
+export function setEditorEditable(editable: boolean): void {
+  editorInstance?.dispatch({
+    effects: editableCompartment.reconfigure(EditorView.editable.of(editable)),
+  });
+  if (editable) editorInstance?.focus();
+}
+
+function updateDirty(): void {
+  const dirty =
+    !!editorInstance && !!cleanDoc && !editorInstance.state.doc.eq(cleanDoc);
+  if (dirty === isDirty) return;
+  isDirty = dirty;
+  dirtyChangeListeners.forEach((listener) => listener(dirty));
+}
+
+/**
+ * Whether the document was changed since it was last loaded or saved
+ */
+export function isEditorDirty(): boolean {
+  return isDirty;
+}
+
+/**
+ * Take the current document as the loaded one, e.g. after it was saved or
+ * the page's code was formatted as another language
+ */
+export function markEditorClean(): void {
+  cleanDoc = editorInstance?.state.doc ?? null;
+  updateDirty();
+}
+
+/**
+ * Show a document made from the current one, e.g. it formatted as another
+ * language. Unsaved edits are not discarded: the document then stays
+ * modified, and undo and Revert still bring back what was there
+ */
+export function loadEditorContent(code: string): void {
+  const keepEdits = isDirty;
+  updateEditorContent(code);
+  if (!keepEdits) markEditorClean();
+}
+
+/**
+ * Bring back the document as it was last loaded or saved. Undo gets the
+ * edits back
+ */
+export function revertEditor(): void {
+  if (!editorInstance || !cleanDoc || !isDirty) return;
+  editorInstance.dispatch({
+    changes: { from: 0, to: editorInstance.state.doc.length, insert: cleanDoc },
+    // Undone on its own, not together with the last edits
+    annotations: isolateHistory.of("full"),
+  });
+}
+
+/**
+ * Call a listener whenever the document becomes changed or unchanged
+ * @returns A function removing the listener
+ */
+export function addDirtyChangeListener(
+  listener: (dirty: boolean) => void,
+): () => void {
+  dirtyChangeListeners.add(listener);
+  return () => dirtyChangeListeners.delete(listener);
+}
+
+/**
+ * Replace part of the document, e.g. one formatted chunk of a large file
+ */
+export function replaceEditorRange(
+  from: number,
+  to: number,
+  text: string,
+): void {
+  editorInstance?.dispatch({ changes: { from, to, insert: text } });
+}
+
+/**
+ * Mark formatter diagnostics in the editor
+ * Passing an empty list clears the previous markers
+ */
+export function showDiagnostics(diagnostics: FormatDiagnostic[]): void {
+  if (!editorInstance) return;
+
+  const doc = editorInstance.state.doc;
+  const marks: Diagnostic[] = diagnostics.map((diagnostic) => {
+    const line = doc.line(Math.min(Math.max(diagnostic.line, 1), doc.lines));
+    const from = Math.min(line.from + diagnostic.column - 1, line.to);
+    return {
+      from,
+      // Underline at least one character so the marker stays visible
+      to: Math.min(from + 1, doc.length),
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      source: diagnostic.source,
+    };
+  });
+
+  editorInstance.dispatch(setDiagnostics(editorInstance.state, marks));
+}
+
 export function getEditorContent(): string {
   if (editorInstance) {
     return editorInstance.state.doc.toString();
@@ -315,6 +757,8 @@ export function destroyEditor(): void {
     editorInstance.destroy();
     editorInstance = null;
   }
+  cleanDoc = null;
+  isDirty = false;
 }
 
 export { DARK_THEMES };
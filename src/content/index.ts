@@ -18,6 +18,9 @@ export {
 export {
   createStatusBar,
   updateStatusBarWithFile,
+  updateStatusBarFormatter,
+  updateStatusBarDiagnostics,
+  updateStatusBarConfig,
   getStatusBar,
   setStatusBar,
 } from "./status-bar";
@@ -31,6 +34,8 @@ export {
   applyLanguage,
   updateEditorContent,
   getEditorContent,
+  showDiagnostics,
+  setRangeFormatHandler,
   updateSettings as updateEditorSettings,
   destroyEditor,
   initEditor,
@@ -45,6 +50,7 @@ export {
   initToolbar,
   setEditorInstance,
   setCurrentLanguage,
+  setFormatterOptions,
   downloadCode,
   getFileExtension,
   updateSettings as updateToolbarSettings,
@@ -64,6 +70,30 @@ export {
   cleanup as cleanupFileHandling,
 } from "./file-handling";
 
+// Diff View
+export {
+  createDiffView,
+  destroyDiffView,
+  isDiffViewOpen,
+  getHunkPosition,
+  goToNextHunk,
+  goToPreviousHunk,
+} from "./diff-view";
+
+// Project Config
+export {
+  loadProjectConfig,
+  getConfigSearchDirs,
+  parseEditorConfig,
+  parsePrettierConfig,
+  parseRuffConfig,
+  parseTaploConfig,
+  parseYamlfmtConfig,
+} from "./project-config";
+
+// Selection
+export { capturePageSelection, copyToClipboard } from "./selection";
+
 // Types
 export type {
   ContentState,
@@ -71,10 +101,14 @@ export type {
   ToolbarSelect,
   LanguagePattern,
   DetectionResult,
+  LanguageCandidate,
   FileInfo,
   FileLoadResult,
   ToastType,
   ToastOptions,
   StatusBarInfo,
   EventListenerCleanup,
+  PageSelection,
+  ProjectConfig,
+  DiffMode,
 } from "./types";
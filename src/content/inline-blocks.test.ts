@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  findCodeBlocks,
+  getBlockLanguage,
+  getBlockCode,
+  formatBlock,
+  restoreBlock,
+  isBlockChanged,
+  setBlockLanguage,
+  initInlineBlocks,
+  destroyInlineBlocks,
+} from "./inline-blocks";
+import { DEFAULT_SETTINGS, ELEMENT_IDS } from "../shared/constants";
+
+const SOURCE = "const a={b:1}\nconsole.log(a)";
+
+function addBlock(className: string, code = SOURCE): HTMLElement {
+  const pre = document.createElement("pre");
+  const codeElement = document.createElement("code");
+  codeElement.className = className;
+  // Highlighted like a page would, so restoring has markup to bring back
+  const keyword = document.createElement("span");
+  keyword.className = "token keyword";
+  keyword.textContent = code.slice(0, 5);
+  codeElement.append(keyword, code.slice(5));
+  pre.appendChild(codeElement);
+  document.body.appendChild(pre);
+  return pre;
+}
+
+describe("inline code blocks", () => {
+  const format = vi.fn(async (code: string) => ({
+    success: true,
+    code: `${code.replace("{b:1}", "{ b: 1 };").replace("(a)", "(a);")}\n`,
+  }));
+
+  beforeEach(() => {
+    document.body.innerHTML = "<p>Some prose about the code below.</p>";
+    format.mockClear();
+    initInlineBlocks(DEFAULT_SETTINGS, { format });
+  });
+
+  afterEach(() => {
+    destroyInlineBlocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should find blocks marked with a language, once each", () => {
+    const marked = addBlock("language-js");
+    const pre = addBlock("");
+    pre.classList.add("lang-python");
+    addBlock("");
+    addBlock("language-js", "x");
+
+    expect(findCodeBlocks()).toEqual([marked, pre]);
+  });
+
+  it("should read the language from the class of the block or its code", () => {
+    expect(getBlockLanguage(addBlock("language-ts"))).toBe("typescript");
+    expect(getBlockLanguage(addBlock("hljs lang-python"))).toBe("python");
+    expect(getBlockLanguage(addBlock("language-text"))).toBeNull();
+  });
+
+  it("should format a block and restore its original markup", async () => {
+    const block = addBlock("language-js");
+
+    expect(await formatBlock(block)).toBe(true);
+    expect(format).toHaveBeenCalledWith(SOURCE, "javascript");
+    expect(getBlockCode(block)).toBe("const a={ b: 1 };\nconsole.log(a);");
+    expect(isBlockChanged(block)).toBe(true);
+
+    restoreBlock(block);
+    expect(getBlockCode(block)).toBe(SOURCE);
+    expect(block.querySelector(".token.keyword")).not.toBeNull();
+    expect(isBlockChanged(block)).toBe(false);
+  });
+
+  it("should keep a block as it is when formatting fails", async () => {
+    format.mockResolvedValueOnce({ success: false, error: "Syntax error" });
+    const block = addBlock("language-js");
+
+    expect(await formatBlock(block)).toBe(false);
+    expect(getBlockCode(block)).toBe(SOURCE);
+    expect(isBlockChanged(block)).toBe(false);
+  });
+
+  it("should format a formatted block again when its language changes", async () => {
+    const block = addBlock("language-text");
+    expect(await formatBlock(block)).toBe(false);
+    expect(format).not.toHaveBeenCalled();
+
+    await setBlockLanguage(block, "javascript");
+    expect(format).not.toHaveBeenCalled();
+
+    await formatBlock(block);
+    await setBlockLanguage(block, "typescript");
+    expect(format).toHaveBeenLastCalledWith(expect.any(String), "typescript");
+  });
+
+  it("should show the toolbar when the pointer is over a block", () => {
+    const block = addBlock("language-js");
+    block
+      .querySelector("span")!
+      .dispatchEvent(new MouseEvent("mouseover", { bubbles: true }));
+
+    const toolbar = document.getElementById(ELEMENT_IDS.INLINE_TOOLBAR)!;
+    expect(toolbar.hidden).toBe(false);
+    expect(toolbar.querySelector("select")!.value).toBe("javascript");
+    expect(
+      Array.from(toolbar.querySelectorAll("button"), (b) => b.textContent),
+    ).toEqual(["Format", "Copy", "Expand"]);
+  });
+
+  it("should not attach when the stored setting turns them off", () => {
+    initInlineBlocks(
+      { ...DEFAULT_SETTINGS, inlineCodeBlocks: false },
+      {
+        format,
+      },
+    );
+    addBlock("language-js")
+      .querySelector("span")!
+      .dispatchEvent(new MouseEvent("mouseover", { bubbles: true }));
+
+    expect(document.getElementById(ELEMENT_IDS.INLINE_TOOLBAR)).toBeNull();
+  });
+});
@@ -0,0 +1,456 @@
+/**
+ * Inline code blocks
+ * Pages that are mostly prose, like documentation, blogs or answers on a
+ * Q&A site, are not taken over by the editor. Their code blocks get a
+ * small toolbar on hover instead, to format, copy, relabel or edit that
+ * one block. A changed block keeps its original nodes, so showing the
+ * original again restores the page's own markup and highlighting
+ */
+
+import type { EditorView } from "@codemirror/view";
+import type { ExtensionSettings, FormatResponse } from "../shared/types";
+import {
+  CSS_CLASSES,
+  ELEMENT_IDS,
+  FORMATTABLE_LANGUAGES,
+} from "../shared/constants";
+import { getLanguageFromName, getLanguageLabel } from "../shared/utils";
+import { LANGUAGE_SELECTORS } from "./detection";
+import { createBlockEditor } from "./editor";
+import { copyToClipboard } from "./selection";
+import { showToast } from "./toast";
+
+export interface InlineBlockCallbacks {
+  format: (code: string, language: string) => Promise<FormatResponse>;
+}
+
+interface BlockState {
+  language: string | null;
+  /** Children of the code element before the block was first changed */
+  original: Node[] | null;
+}
+
+// Shorter blocks are one-liners not worth a toolbar
+const MIN_BLOCK_LENGTH = 20;
+// Time the pointer has to move from a block onto its toolbar
+const HIDE_DELAY = 300;
+
+const LANGUAGE_CLASS = /(?:^|\s)(?:language|lang)-([\w+#.-]+)/;
+
+const blockStates = new WeakMap<HTMLElement, BlockState>();
+
+let callbacks: InlineBlockCallbacks | null = null;
+let toolbarElement: HTMLElement | null = null;
+let activeBlock: HTMLElement | null = null;
+let hideTimer: ReturnType<typeof setTimeout> | null = null;
+let blockEditor: EditorView | null = null;
+let removeListeners: (() => void) | null = null;
+
+/**
+ * The code block an element is part of, if it qualifies for a toolbar:
+ * a `pre` marked with a language class, directly or on its `code`
+ */
+export function getCodeBlock(element: Element | null): HTMLElement | null {
+  const block = element?.closest("pre");
+  if (!block || block.closest(`#${ELEMENT_IDS.INLINE_EDITOR}`)) return null;
+
+  const isMarked = LANGUAGE_SELECTORS.some(
+    (selector) => block.matches(selector) || block.querySelector(selector),
+  );
+  if (!isMarked) return null;
+
+  return (block.textContent ?? "").trim().length >= MIN_BLOCK_LENGTH
+    ? block
+    : null;
+}
+
+/**
+ * Every code block of a page that qualifies for a toolbar
+ */
+export function findCodeBlocks(root: ParentNode = document): HTMLElement[] {
+  const blocks = new Set<HTMLElement>();
+  for (const element of root.querySelectorAll(LANGUAGE_SELECTORS.join(","))) {
+    const block = getCodeBlock(element);
+    if (block) blocks.add(block);
+  }
+  return Array.from(blocks);
+}
+
+function getCodeElement(block: HTMLElement): HTMLElement {
+  return block.querySelector("code") ?? block;
+}
+
+/**
+ * Language named by the class of a block or its code element, e.g.
+ * "language-ts" or "lang-python"
+ */
+export function getBlockLanguage(block: HTMLElement): string | null {
+  for (const element of [block, getCodeElement(block)]) {
+    const name = LANGUAGE_CLASS.exec(element.className)?.[1];
+    const language = name ? getLanguageFromName(name) : null;
+    if (language) return language;
+  }
+  return null;
+}
+
+function getState(block: HTMLElement): BlockState {
+  let state = blockStates.get(block);
+  if (!state) {
+    state = { language: getBlockLanguage(block), original: null };
+    blockStates.set(block, state);
+  }
+  return state;
+}
+
+export function getBlockCode(block: HTMLElement): string {
+  return getCodeElement(block).textContent ?? "";
+}
+
+export function isBlockChanged(block: HTMLElement): boolean {
+  return getState(block).original !== null;
+}
+
+/**
+ * Show code in a block, keeping its original children the first time
+ */
+export function setBlockCode(block: HTMLElement, code: string): void {
+  const state = getState(block);
+  const codeElement = getCodeElement(block);
+  state.original ??= Array.from(codeElement.childNodes);
+  codeElement.textContent = code;
+  block.classList.add(CSS_CLASSES.INLINE_FORMATTED);
+}
+
+/**
+ * Put a block's original children back
+ */
+export function restoreBlock(block: HTMLElement): void {
+  const state = getState(block);
+  if (!state.original) return;
+  getCodeElement(block).replaceChildren(...state.original);
+  state.original = null;
+  block.classList.remove(CSS_CLASSES.INLINE_FORMATTED);
+}
+
+/**
+ * Format the code a block shows with the block's language
+ * @returns Whether the block was formatted
+ */
+export async function formatBlock(block: HTMLElement): Promise<boolean> {
+  const { language } = getState(block);
+  if (!callbacks || !language || !FORMATTABLE_LANGUAGES.has(language)) {
+    showToast("Choose a language this block can be formatted as", "info");
+    return false;
+  }
+
+  const code = getBlockCode(block);
+  const response = await callbacks.format(code, language);
+  if (!response.success || response.code === undefined) {
+    showToast(response.error || "Formatting failed", "error");
+    return false;
+  }
+
+  setBlockCode(block, response.code.replace(/\n+$/, ""));
+  return true;
+}
+
+/**
+ * Set the language of a block, formatting it again with that language
+ * when it was already formatted
+ */
+export async function setBlockLanguage(
+  block: HTMLElement,
+  language: string | null,
+): Promise<void> {
+  getState(block).language = language;
+  if (isBlockChanged(block) && language) await formatBlock(block);
+}
+
+function createButton(
+  text: string,
+  title: string,
+  onClick: () => void,
+): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = CSS_CLASSES.INLINE_BUTTON;
+  button.textContent = text;
+  button.title = title;
+  button.addEventListener("click", (event) => {
+    event.preventDefault();
+    event.stopPropagation();
+    onClick();
+  });
+  return button;
+}
+
+function createLanguageSelect(): HTMLSelectElement {
+  const select = document.createElement("select");
+  select.className = CSS_CLASSES.INLINE_SELECT;
+  select.title = "Language of this block";
+  select.addEventListener("change", () => {
+    const block = activeBlock;
+    if (!block) return;
+    select.blur();
+    void setBlockLanguage(block, select.value || null).then(() =>
+      updateToolbar(block),
+    );
+  });
+  return select;
+}
+
+function updateLanguageOptions(
+  select: HTMLSelectElement,
+  language: string | null,
+): void {
+  const languages = new Set(FORMATTABLE_LANGUAGES);
+  if (language) languages.add(language);
+
+  const plain = document.createElement("option");
+  plain.value = "";
+  plain.textContent = "Plain text";
+
+  const options = Array.from(languages)
+    .sort((a, b) => getLanguageLabel(a).localeCompare(getLanguageLabel(b)))
+    .map((lang) => {
+      const option = document.createElement("option");
+      option.value = lang;
+      option.textContent = getLanguageLabel(lang);
+      return option;
+    });
+
+  select.replaceChildren(plain, ...options);
+  select.value = language ?? "";
+}
+
+function createToolbar(): HTMLElement {
+  const toolbar = document.createElement("div");
+  toolbar.id = ELEMENT_IDS.INLINE_TOOLBAR;
+  toolbar.className = CSS_CLASSES.INLINE_TOOLBAR;
+
+  const formatButton = createButton("Format", "Format this block", () => {
+    const block = activeBlock;
+    if (!block) return;
+    if (isBlockChanged(block)) {
+      restoreBlock(block);
+      updateToolbar(block);
+    } else {
+      void formatBlock(block).then(() => updateToolbar(block));
+    }
+  });
+  formatButton.dataset.action = "format";
+
+  const copyButton = createButton("Copy", "Copy this block", () => {
+    if (!activeBlock) return;
+    void copyToClipboard(getBlockCode(activeBlock)).then((copied) =>
+      showToast(
+        copied ? "Copied to clipboard" : "Could not copy",
+        copied ? "success" : "error",
+      ),
+    );
+  });
+  copyButton.dataset.action = "copy";
+
+  const expandButton = createButton(
+    "Expand",
+    "Edit this block in a full editor",
+    () => {
+      if (activeBlock) void openBlockEditor(activeBlock);
+    },
+  );
+  expandButton.dataset.action = "expand";
+
+  toolbar.append(
+    formatButton,
+    createLanguageSelect(),
+    copyButton,
+    expandButton,
+  );
+  toolbar.addEventListener("mouseenter", cancelHide);
+  toolbar.addEventListener("mouseleave", scheduleHide);
+  return toolbar;
+}
+
+function updateToolbar(block: HTMLElement): void {
+  if (!toolbarElement || activeBlock !== block) return;
+
+  const { language } = getState(block);
+  const changed = isBlockChanged(block);
+  const formatButton = toolbarElement.querySelector<HTMLButtonElement>(
+    '[data-action="format"]',
+  )!;
+  formatButton.textContent = changed ? "Original" : "Format";
+  formatButton.title = changed
+    ? "Show the block as the page had it"
+    : "Format this block";
+  formatButton.disabled =
+    !changed && !(language && FORMATTABLE_LANGUAGES.has(language));
+
+  updateLanguageOptions(
+    toolbarElement.querySelector<HTMLSelectElement>("select")!,
+    language,
+  );
+}
+
+/**
+ * Show the toolbar over the top right corner of a block
+ */
+export function showBlockToolbar(block: HTMLElement): void {
+  cancelHide();
+  if (!toolbarElement) {
+    toolbarElement = createToolbar();
+    document.body.appendChild(toolbarElement);
+  }
+
+  const rect = block.getBoundingClientRect();
+  toolbarElement.style.top = `${rect.top + window.scrollY + 4}px`;
+  toolbarElement.style.left = `${rect.right + window.scrollX - 4}px`;
+  toolbarElement.hidden = false;
+
+  activeBlock = block;
+  updateToolbar(block);
+}
+
+function hideToolbar(): void {
+  // Keep the toolbar while its language list is open
+  if (toolbarElement?.contains(document.activeElement)) return;
+  if (toolbarElement) toolbarElement.hidden = true;
+  activeBlock = null;
+}
+
+function cancelHide(): void {
+  if (hideTimer) clearTimeout(hideTimer);
+  hideTimer = null;
+}
+
+function scheduleHide(): void {
+  cancelHide();
+  hideTimer = setTimeout(hideToolbar, HIDE_DELAY);
+}
+
+function onMouseOver(event: Event): void {
+  const target = event.target as Element | null;
+  if (target && toolbarElement?.contains(target)) return;
+
+  const block = getCodeBlock(target);
+  if (block) {
+    if (block !== activeBlock || toolbarElement?.hidden) {
+      showBlockToolbar(block);
+    } else {
+      cancelHide();
+    }
+  } else if (activeBlock) {
+    scheduleHide();
+  }
+}
+
+/**
+ * Edit a block in a full-window editor. Applying puts the edited code in
+ * the block, which can then be restored like a formatted one
+ */
+export async function openBlockEditor(block: HTMLElement): Promise<void> {
+  closeBlockEditor();
+  const { language } = getState(block);
+
+  const overlay = document.createElement("div");
+  overlay.id = ELEMENT_IDS.INLINE_EDITOR;
+  overlay.className = CSS_CLASSES.INLINE_EDITOR;
+
+  const header = document.createElement("div");
+  header.className = CSS_CLASSES.INLINE_EDITOR_HEADER;
+
+  const title = document.createElement("span");
+  title.textContent = language ? getLanguageLabel(language) : "Plain text";
+
+  const body = document.createElement("div");
+  body.className = CSS_CLASSES.INLINE_EDITOR_BODY;
+
+  const formatButton = createButton("Format", "Format the code", () => {
+    const editor = blockEditor;
+    if (!editor || !callbacks || !language) return;
+    const code = editor.state.doc.toString();
+    void callbacks.format(code, language).then((response) => {
+      if (!response.success || response.code === undefined) {
+        showToast(response.error || "Formatting failed", "error");
+      } else if (blockEditor === editor) {
+        editor.dispatch({
+          changes: {
+            from: 0,
+            to: editor.state.doc.length,
+            insert: response.code,
+          },
+        });
+      }
+    });
+  });
+  formatButton.disabled = !(language && FORMATTABLE_LANGUAGES.has(language));
+
+  const applyButton = createButton("Apply", "Put the code in the page", () => {
+    if (!blockEditor) return;
+    const code = blockEditor.state.doc.toString().replace(/\n+$/, "");
+    if (code !== getBlockCode(block)) setBlockCode(block, code);
+    closeBlockEditor();
+    updateToolbar(block);
+  });
+
+  const closeButton = createButton("Close", "Discard changes (Esc)", () =>
+    closeBlockEditor(),
+  );
+
+  header.append(title, formatButton, applyButton, closeButton);
+  overlay.append(header, body);
+  overlay.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") {
+      event.stopPropagation();
+      closeBlockEditor();
+    }
+  });
+  document.body.appendChild(overlay);
+
+  const editor = await createBlockEditor(
+    body,
+    getBlockCode(block),
+    language ?? "",
+  );
+  // Closed while the editor was being created
+  if (!overlay.isConnected) {
+    editor.destroy();
+    return;
+  }
+  blockEditor = editor;
+  editor.focus();
+}
+
+export function closeBlockEditor(): void {
+  blockEditor?.destroy();
+  blockEditor = null;
+  document.getElementById(ELEMENT_IDS.INLINE_EDITOR)?.remove();
+}
+
+/**
+ * Add toolbars to the code blocks of the page, including blocks added
+ * later, as they are found when the pointer is over them, unless the
+ * user turned them off
+ */
+export function initInlineBlocks(
+  settings: Pick<ExtensionSettings, "inlineCodeBlocks">,
+  blockCallbacks: InlineBlockCallbacks,
+): void {
+  destroyInlineBlocks();
+  if (settings.inlineCodeBlocks === false) return;
+  callbacks = blockCallbacks;
+  document.addEventListener("mouseover", onMouseOver, { passive: true });
+  removeListeners = () =>
+    document.removeEventListener("mouseover", onMouseOver);
+}
+
+export function destroyInlineBlocks(): void {
+  removeListeners?.();
+  removeListeners = null;
+  cancelHide();
+  closeBlockEditor();
+  toolbarElement?.remove();
+  toolbarElement = null;
+  activeBlock = null;
+  callbacks = null;
+}
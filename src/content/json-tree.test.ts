@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { createJsonTree, formatJsonPath, TREE_PAGE_SIZE } from "./json-tree";
+import { CSS_CLASSES } from "../shared/constants";
+
+function rows(tree: HTMLElement): HTMLElement[] {
+  return Array.from(tree.querySelectorAll(`.${CSS_CLASSES.TREE_ROW}`));
+}
+
+function rowFor(tree: HTMLElement, key: string): HTMLElement {
+  const row = rows(tree).find(
+    (r) => r.querySelector(`.${CSS_CLASSES.TREE_KEY}`)?.textContent === key,
+  );
+  if (!row) throw new Error(`No row for ${key}`);
+  return row;
+}
+
+describe("formatJsonPath", () => {
+  it("should use dot notation for identifiers and brackets otherwise", () => {
+    expect(formatJsonPath([])).toBe("$");
+    expect(formatJsonPath(["data", 3, "id"])).toBe("$.data[3].id");
+    expect(formatJsonPath(["a key", "it's"])).toBe("$['a key']['it\\'s']");
+  });
+});
+
+describe("createJsonTree", () => {
+  it("should show the root's children with type badges and sizes", () => {
+    const tree = createJsonTree(
+      { name: "x", count: 2, ok: true, none: null, items: [1, 2, 3] },
+      vi.fn(),
+    );
+
+    expect(rowFor(tree, "name").textContent).toContain('"x"');
+    expect(
+      rowFor(tree, "count").querySelector(`.${CSS_CLASSES.TREE_BADGE}`)
+        ?.textContent,
+    ).toBe("number");
+    expect(
+      rowFor(tree, "items").querySelector(`.${CSS_CLASSES.TREE_SIZE}`)
+        ?.textContent,
+    ).toBe("[3]");
+  });
+
+  it("should render children only once a node is expanded", () => {
+    const tree = createJsonTree({ outer: { inner: 1 } }, vi.fn());
+    expect(tree.textContent).not.toContain("inner");
+
+    rowFor(tree, "outer").click();
+    expect(tree.textContent).toContain("inner");
+  });
+
+  it("should render long containers a page at a time", () => {
+    const value = Array.from({ length: TREE_PAGE_SIZE * 2 + 5 }, (_, i) => i);
+    const tree = createJsonTree(value, vi.fn());
+    expect(rows(tree)).toHaveLength(TREE_PAGE_SIZE + 1);
+
+    const more = tree.querySelector<HTMLButtonElement>(
+      `.${CSS_CLASSES.TREE_MORE}`,
+    )!;
+    expect(more.textContent).toContain(`${TREE_PAGE_SIZE + 5} remaining`);
+    more.click();
+    expect(rows(tree)).toHaveLength(TREE_PAGE_SIZE * 2 + 1);
+  });
+
+  it("should report the path of a clicked key", () => {
+    const onCopyPath = vi.fn();
+    const tree = createJsonTree({ data: [{ id: 7 }] }, onCopyPath);
+
+    rowFor(tree, "data").click();
+    rowFor(tree, "0").click();
+    rowFor(tree, "id")
+      .querySelector<HTMLElement>(`.${CSS_CLASSES.TREE_KEY}`)!
+      .click();
+
+    expect(onCopyPath).toHaveBeenCalledWith("$.data[0].id");
+  });
+});
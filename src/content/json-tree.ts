@@ -0,0 +1,179 @@
+/**
+ * JSON Tree View
+ * Collapsible tree of a JSON document with type badges, container sizes and
+ * click-to-copy paths. Children are only rendered when their parent is
+ * expanded, and long containers a page at a time, so documents with
+ * hundreds of thousands of nodes stay responsive
+ */
+
+import { CSS_CLASSES } from "../shared/constants";
+
+/** Children rendered per page of a container */
+export const TREE_PAGE_SIZE = 100;
+
+type JsonPath = (string | number)[];
+
+type CopyPathCallback = (path: string) => void;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Format a path as JSONPath, e.g. `$.data[3].id` or `$['a key']`
+ */
+export function formatJsonPath(path: JsonPath): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === "number") return `${result}[${key}]`;
+    if (IDENTIFIER.test(key)) return `${result}.${key}`;
+    return `${result}['${key.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}']`;
+  }, "$");
+}
+
+function createSpan(className: string, text: string): HTMLSpanElement {
+  const span = document.createElement("span");
+  span.className = className;
+  span.textContent = text;
+  return span;
+}
+
+function createValue(value: unknown): HTMLSpanElement {
+  const type = typeOf(value);
+  const text = type === "string" ? JSON.stringify(value) : String(value);
+  return createSpan(
+    `${CSS_CLASSES.TREE_VALUE} ${CSS_CLASSES.TREE_VALUE}--${type}`,
+    text,
+  );
+}
+
+/**
+ * Render the next page of a container's children, followed by a button
+ * for the page after it when there is one
+ */
+function renderChildren(
+  childList: HTMLElement,
+  entries: [string | number, unknown][],
+  path: JsonPath,
+  from: number,
+  onCopyPath: CopyPathCallback,
+): void {
+  const to = Math.min(from + TREE_PAGE_SIZE, entries.length);
+  const fragment = document.createDocumentFragment();
+
+  for (let i = from; i < to; i++) {
+    const [key, child] = entries[i];
+    fragment.appendChild(createNode(key, child, [...path, key], onCopyPath));
+  }
+
+  if (to < entries.length) {
+    const more = document.createElement("button");
+    more.className = CSS_CLASSES.TREE_MORE;
+    more.textContent = `Show ${Math.min(TREE_PAGE_SIZE, entries.length - to)} more (${entries.length - to} remaining)`;
+    more.addEventListener("click", () => {
+      more.remove();
+      renderChildren(childList, entries, path, to, onCopyPath);
+    });
+    fragment.appendChild(more);
+  }
+
+  childList.appendChild(fragment);
+}
+
+function createNode(
+  key: string | number | null,
+  value: unknown,
+  path: JsonPath,
+  onCopyPath: CopyPathCallback,
+): HTMLElement {
+  const node = document.createElement("div");
+  node.className = CSS_CLASSES.TREE_NODE;
+
+  const row = document.createElement("div");
+  row.className = CSS_CLASSES.TREE_ROW;
+  node.appendChild(row);
+
+  const toggle = createSpan(CSS_CLASSES.TREE_TOGGLE, "");
+  row.appendChild(toggle);
+
+  const pathText = formatJsonPath(path);
+  const label = createSpan(
+    CSS_CLASSES.TREE_KEY,
+    key === null ? "$" : String(key),
+  );
+  label.title = `Copy path ${pathText}`;
+  label.addEventListener("click", (e) => {
+    e.stopPropagation();
+    onCopyPath(pathText);
+  });
+  row.appendChild(label);
+
+  const type = typeOf(value);
+  row.appendChild(
+    createSpan(
+      `${CSS_CLASSES.TREE_BADGE} ${CSS_CLASSES.TREE_BADGE}--${type}`,
+      type,
+    ),
+  );
+
+  if (!isContainer(value)) {
+    row.appendChild(createValue(value));
+    return node;
+  }
+
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((child, index) => [index, child])
+    : Object.entries(value);
+  row.appendChild(
+    createSpan(
+      CSS_CLASSES.TREE_SIZE,
+      Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`,
+    ),
+  );
+  if (entries.length === 0) return node;
+
+  const childList = document.createElement("div");
+  childList.className = CSS_CLASSES.TREE_CHILDREN;
+  childList.hidden = true;
+  node.appendChild(childList);
+
+  toggle.textContent = "▸";
+  row.classList.add(CSS_CLASSES.TREE_ROW_EXPANDABLE);
+  let rendered = false;
+
+  row.addEventListener("click", () => {
+    if (!rendered) {
+      renderChildren(childList, entries, path, 0, onCopyPath);
+      rendered = true;
+    }
+    childList.hidden = !childList.hidden;
+    toggle.textContent = childList.hidden ? "▸" : "▾";
+  });
+
+  return node;
+}
+
+/**
+ * Build the tree of a parsed JSON document, with the root expanded
+ * @param onCopyPath - Called with the JSONPath of a clicked key
+ */
+export function createJsonTree(
+  value: unknown,
+  onCopyPath: CopyPathCallback,
+): HTMLElement {
+  const tree = document.createElement("div");
+  tree.className = CSS_CLASSES.TREE_VIEW;
+
+  const root = createNode(null, value, [], onCopyPath);
+  root.querySelector<HTMLElement>(`.${CSS_CLASSES.TREE_ROW}`)?.click();
+  tree.appendChild(root);
+
+  return tree;
+}
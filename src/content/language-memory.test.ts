@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  findRememberedLanguage,
+  getLanguageMemoryPattern,
+} from "./language-memory";
+
+describe("getLanguageMemoryPattern", () => {
+  it("should remember files by site and extension", () => {
+    expect(getLanguageMemoryPattern("https://example.com/etc/app.CONF")).toBe(
+      "example.com/*.conf",
+    );
+    expect(
+      getLanguageMemoryPattern("http://localhost:8080/a/config.txt?raw=1"),
+    ).toBe("localhost:8080/*.txt");
+  });
+
+  it("should remember other pages by their address", () => {
+    expect(getLanguageMemoryPattern("https://example.com/api/users")).toBe(
+      "example.com/api/users",
+    );
+    expect(getLanguageMemoryPattern("https://example.com/.env")).toBe(
+      "example.com/.env",
+    );
+  });
+
+  it("should ignore invalid URLs", () => {
+    expect(getLanguageMemoryPattern("not a url")).toBeNull();
+  });
+});
+
+describe("findRememberedLanguage", () => {
+  const memory = {
+    "example.com/*.conf": "toml",
+    "example.com/api/users": "json",
+  };
+
+  it("should find the language remembered for a URL", () => {
+    expect(
+      findRememberedLanguage(memory, "https://example.com/x/y/nginx.conf"),
+    ).toBe("toml");
+    expect(
+      findRememberedLanguage(memory, "https://example.com/api/users?page=2"),
+    ).toBe("json");
+  });
+
+  it("should not apply a site's choice to other sites or extensions", () => {
+    expect(
+      findRememberedLanguage(memory, "https://other.com/nginx.conf"),
+    ).toBeNull();
+    expect(
+      findRememberedLanguage(memory, "https://example.com/nginx.yml"),
+    ).toBeNull();
+  });
+});
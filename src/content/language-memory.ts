@@ -0,0 +1,95 @@
+/**
+ * Language memory
+ * Remembers the language the user chose for a page, so that later visits
+ * skip detection. A file is remembered by its site and extension, e.g.
+ * "example.com/*.conf", so every file of that kind on the site is shown
+ * the same way; a page without an extension by its own address
+ */
+
+import { matchesUrlPattern } from "../shared/utils";
+
+const STORAGE_KEY = "languageByUrl";
+
+/** Chosen languages by URL pattern, as matched by matchesUrlPattern */
+export type LanguageMemory = Record<string, string>;
+
+/**
+ * Pattern a choice made on a URL is remembered under
+ */
+export function getLanguageMemoryPattern(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const lastSegment = parsed.pathname.split("/").pop() ?? "";
+  const dot = lastSegment.lastIndexOf(".");
+  return dot > 0
+    ? `${parsed.host}/*${lastSegment.slice(dot).toLowerCase()}`
+    : parsed.host + parsed.pathname;
+}
+
+/**
+ * Find the language remembered for a URL
+ */
+export function findRememberedLanguage(
+  memory: LanguageMemory,
+  url: string,
+): string | null {
+  const match = Object.keys(memory).find((pattern) =>
+    matchesUrlPattern(pattern, url),
+  );
+  return match ? memory[match] : null;
+}
+
+function readMemory(): Promise<LanguageMemory> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([STORAGE_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        console.warn(
+          "[Code Formatter] Failed to read remembered languages:",
+          chrome.runtime.lastError.message,
+        );
+      }
+      resolve((result?.[STORAGE_KEY] as LanguageMemory | undefined) ?? {});
+    });
+  });
+}
+
+export async function loadRememberedLanguage(
+  url: string,
+): Promise<string | null> {
+  return findRememberedLanguage(await readMemory(), url);
+}
+
+/**
+ * Remember the language chosen on a URL, or forget it when null
+ */
+export async function rememberLanguage(
+  url: string,
+  language: string | null,
+): Promise<void> {
+  const pattern = getLanguageMemoryPattern(url);
+  if (!pattern) return;
+
+  const memory = await readMemory();
+  if (language) {
+    memory[pattern] = language;
+  } else {
+    delete memory[pattern];
+  }
+
+  await new Promise<void>((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEY]: memory }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Code Formatter] Failed to remember the language:",
+          chrome.runtime.lastError.message,
+        );
+      }
+      resolve();
+    });
+  });
+}
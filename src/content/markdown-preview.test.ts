@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  clearFormattedBlocks,
+  formatPreviewBlocks,
+  getFenceLanguage,
+  highlightPreviewBlocks,
+  renderMarkdown,
+} from "./markdown-preview";
+
+describe("getFenceLanguage", () => {
+  it("should resolve extensions and language names", () => {
+    expect(getFenceLanguage("ts")).toBe("typescript");
+    expect(getFenceLanguage("python title=main.py")).toBe("python");
+    expect(getFenceLanguage("JSON")).toBe("json");
+  });
+
+  it("should not resolve unknown or missing languages", () => {
+    expect(getFenceLanguage("")).toBeNull();
+    expect(getFenceLanguage("mermaid")).toBeNull();
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("should tag blocks with the line they start on", () => {
+    const preview = renderMarkdown("# Title\n\nSome *text*\n\n- a\n- b\n");
+    const blocks = Array.from(preview.children) as HTMLElement[];
+
+    expect(blocks.map((block) => block.dataset.line)).toEqual(["1", "3", "5"]);
+    expect(preview.querySelector("h1")?.textContent).toBe("Title");
+    expect(preview.querySelector("em")?.textContent).toBe("text");
+    expect(preview.querySelectorAll("li")).toHaveLength(2);
+  });
+
+  it("should sanitize embedded HTML", () => {
+    const preview = renderMarkdown(
+      '<script>alert(1)</script>\n\n<img src="x.png" onerror="alert(1)">\n\n[link](javascript:alert(1))\n',
+    );
+
+    expect(preview.querySelector("script")).toBeNull();
+    expect(preview.querySelector("img")?.getAttribute("onerror")).toBeNull();
+    expect(preview.querySelector("a")?.getAttribute("href")).toBeNull();
+  });
+
+  it("should remove script links hidden by an encoded tab", () => {
+    const preview = renderMarkdown("[x](jav&#9;ascript:alert(1))\n");
+
+    expect(preview.querySelector("a")?.hasAttribute("href")).toBe(false);
+  });
+
+  it("should highlight fenced code blocks", () => {
+    const preview = renderMarkdown("```js\nconst a = 1;\n```\n");
+    const code = preview.querySelector<HTMLElement>("pre > code")!;
+
+    expect(code.dataset.language).toBe("javascript");
+    expect(code.textContent).toBe("const a = 1;");
+    expect(code.querySelector(".tok-keyword")?.textContent).toBe("const");
+  });
+
+  it("should keep code blocks of unknown languages as text", () => {
+    const preview = renderMarkdown("```\n<b>raw</b>\n```\n");
+    const code = preview.querySelector<HTMLElement>("pre > code")!;
+
+    expect(code.dataset.language).toBeUndefined();
+    expect(code.textContent).toBe("<b>raw</b>");
+  });
+});
+
+describe("highlightPreviewBlocks", () => {
+  it("should highlight blocks once their languages are loaded", async () => {
+    const preview = renderMarkdown(
+      "```go\nfunc main() {}\n```\n\n```toml\n[server]\nport = 80\n```\n",
+    );
+    const [go, toml] = preview.querySelectorAll<HTMLElement>("pre > code");
+    expect(go.querySelector("span")).toBeNull();
+
+    await highlightPreviewBlocks(preview);
+
+    expect(go.textContent).toBe("func main() {}");
+    expect(go.querySelector(".tok-keyword")?.textContent).toBe("func");
+    expect(toml.textContent).toBe("[server]\nport = 80");
+    expect(toml.querySelector(".tok-number")?.textContent).toBe("80");
+  });
+});
+
+describe("formatPreviewBlocks", () => {
+  afterEach(() => {
+    clearFormattedBlocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should format a block once until the blocks are cleared", async () => {
+    const render = () => {
+      const preview = renderMarkdown("```json\n[1]\n```\n");
+      document.body.replaceChildren(preview);
+      return preview;
+    };
+    const format = vi.fn(async () => "[1]");
+
+    await formatPreviewBlocks(render(), format);
+    await formatPreviewBlocks(render(), format);
+    expect(format).toHaveBeenCalledTimes(1);
+
+    clearFormattedBlocks();
+    await formatPreviewBlocks(render(), format);
+    expect(format).toHaveBeenCalledTimes(2);
+  });
+
+  it("should replace code blocks with their formatted code", async () => {
+    const preview = renderMarkdown(
+      '```json\n{"a":1}\n```\n\n```\nplain\n```\n',
+    );
+    document.body.appendChild(preview);
+    const format = vi.fn(async (code: string) =>
+      JSON.stringify(JSON.parse(code), null, 2),
+    );
+
+    await formatPreviewBlocks(preview, format);
+
+    expect(format).toHaveBeenCalledTimes(1);
+    expect(format).toHaveBeenCalledWith('{"a":1}', "json");
+    expect(preview.querySelector("code")?.textContent).toBe('{\n  "a": 1\n}');
+  });
+
+  it("should not format blocks of a preview that was removed", async () => {
+    const preview = renderMarkdown("```json\n{}\n```\n");
+    const format = vi.fn(async () => "{}");
+
+    await formatPreviewBlocks(preview, format);
+
+    expect(format).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Markdown Preview
+ * Renders Markdown as sanitized HTML next to its source, with fenced code
+ * blocks highlighted and formatted by the formatter of their language.
+ * Every top-level block remembers the source line it starts on, which is
+ * what keeps the scroll positions of the source and the preview in sync
+ */
+
+import { Lexer, Parser } from "marked";
+import { highlightCode, classHighlighter } from "@lezer/highlight";
+import type { EditorView } from "@codemirror/view";
+import { CSS_CLASSES } from "../shared/constants";
+import { getLanguageFromName } from "../shared/utils";
+import { sanitizeHtml } from "./sanitize";
+import { getLanguageParser, loadLanguageExtension } from "./editor";
+
+/** Resolves to the formatted code, or null when it cannot be formatted */
+export type FormatBlockCallback = (
+  code: string,
+  language: string,
+) => Promise<string | null>;
+
+// Blocks are formatted one at a time, spaced out to stay under the
+// background's rate limit of 10 requests a second
+const FORMAT_INTERVAL = 120;
+
+// Formatted code blocks, so re-rendering does not format them again. The
+// oldest are dropped past the limit, as every edit of a block adds one
+const formattedBlocks = new Map<string, string | null>();
+const MAX_FORMATTED_BLOCKS = 100;
+
+/**
+ * Forget the formatted code blocks, once the preview is closed
+ */
+export function clearFormattedBlocks(): void {
+  formattedBlocks.clear();
+}
+
+/**
+ * Language of a fenced code block from its info string, e.g. "ts" or
+ * "python title=main.py"
+ */
+export function getFenceLanguage(info: string): string | null {
+  return getLanguageFromName(info.trim().split(/\s+/)[0]);
+}
+
+function countLines(text: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) count++;
+  }
+  return count;
+}
+
+/**
+ * Parse rendered HTML in an inert document and sanitize it before it is
+ * moved into the page
+ */
+function parseHtml(html: string): Node[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return Array.from(sanitizeHtml(doc.body).childNodes);
+}
+
+/**
+ * Fill a code element with highlighted code, or plain text when there is
+ * no parser for the language
+ */
+function highlightBlock(
+  element: HTMLElement,
+  code: string,
+  language: string | null,
+): void {
+  const parser = language ? getLanguageParser(language) : null;
+  element.textContent = "";
+  if (!parser) {
+    element.textContent = code;
+    return;
+  }
+
+  const fragment = document.createDocumentFragment();
+  highlightCode(
+    code,
+    parser.parse(code),
+    classHighlighter,
+    (text, classes) => {
+      if (!classes) {
+        fragment.appendChild(document.createTextNode(text));
+        return;
+      }
+      const span = document.createElement("span");
+      span.className = classes;
+      span.textContent = text;
+      fragment.appendChild(span);
+    },
+    () => fragment.appendChild(document.createTextNode("\n")),
+  );
+  element.appendChild(fragment);
+}
+
+/**
+ * Render Markdown into blocks tagged with their 1-based source line
+ */
+export function renderMarkdown(source: string): HTMLElement {
+  const preview = document.createElement("div");
+  preview.className = CSS_CLASSES.MARKDOWN_PREVIEW;
+
+  let line = 1;
+  for (const token of Lexer.lex(source, { gfm: true })) {
+    const startLine = line;
+    line += countLines(token.raw);
+    if (token.type === "space") continue;
+
+    const block = document.createElement("div");
+    block.className = CSS_CLASSES.MARKDOWN_BLOCK;
+    block.dataset.line = String(startLine);
+    block.append(...parseHtml(Parser.parse([token])));
+    preview.appendChild(block);
+  }
+
+  preview.querySelectorAll<HTMLElement>("pre > code").forEach((code) => {
+    const language = getFenceLanguage(
+      /\blanguage-(\S+)/.exec(code.className)?.[1] ?? "",
+    );
+    const text = (code.textContent ?? "").replace(/\n$/, "");
+    code.className = CSS_CLASSES.MARKDOWN_CODE;
+    if (language) code.dataset.language = language;
+    highlightBlock(code, text, language);
+  });
+
+  return preview;
+}
+
+/**
+ * Highlight the code blocks of a rendered preview whose languages are
+ * loaded on demand, and so were shown as text when it was rendered
+ */
+export async function highlightPreviewBlocks(
+  preview: HTMLElement,
+): Promise<void> {
+  const blocks = preview.querySelectorAll<HTMLElement>(
+    `.${CSS_CLASSES.MARKDOWN_CODE}[data-language]`,
+  );
+
+  for (const block of Array.from(blocks)) {
+    const language = block.dataset.language!;
+    if (getLanguageParser(language)) continue;
+
+    await loadLanguageExtension(language);
+    if (getLanguageParser(language)) {
+      highlightBlock(block, block.textContent ?? "", language);
+    }
+  }
+}
+
+/**
+ * Format the code blocks of a rendered preview in place
+ * Stops early when the preview is taken out of the page
+ */
+export async function formatPreviewBlocks(
+  preview: HTMLElement,
+  formatBlock: FormatBlockCallback,
+): Promise<void> {
+  const blocks = preview.querySelectorAll<HTMLElement>(
+    `.${CSS_CLASSES.MARKDOWN_CODE}[data-language]`,
+  );
+
+  for (const block of Array.from(blocks)) {
+    if (!preview.isConnected) return;
+
+    const language = block.dataset.language!;
+    const code = block.textContent ?? "";
+    const key = `${language}\n${code}`;
+
+    if (!formattedBlocks.has(key)) {
+      formattedBlocks.set(key, await formatBlock(code, language));
+      if (formattedBlocks.size > MAX_FORMATTED_BLOCKS) {
+        formattedBlocks.delete(formattedBlocks.keys().next().value!);
+      }
+      await new Promise((resolve) => setTimeout(resolve, FORMAT_INTERVAL));
+    }
+
+    const formatted = formattedBlocks.get(key)?.replace(/\n+$/, "");
+    if (formatted && formatted !== code) {
+      highlightBlock(block, formatted, language);
+    }
+  }
+}
+
+/**
+ * Render a preview and format its code blocks in the background
+ * @param formatBlock - Formats a fenced code block, omitted to only highlight
+ */
+export function createMarkdownPreview(
+  source: string,
+  formatBlock?: FormatBlockCallback,
+): HTMLElement {
+  const preview = renderMarkdown(source);
+  // Deferred, as the preview has to be in the page for its blocks to be
+  // formatted
+  setTimeout(async () => {
+    await highlightPreviewBlocks(preview);
+    if (formatBlock) await formatPreviewBlocks(preview, formatBlock);
+  });
+  return preview;
+}
+
+interface ScrollAnchor {
+  line: number;
+  top: number;
+}
+
+function getAnchors(preview: HTMLElement): ScrollAnchor[] {
+  return Array.from(
+    preview.querySelectorAll<HTMLElement>(`.${CSS_CLASSES.MARKDOWN_BLOCK}`),
+    (block) => ({ line: Number(block.dataset.line), top: block.offsetTop }),
+  );
+}
+
+/**
+ * Map between a source line and a preview offset through the blocks
+ * around it, interpolating within a block
+ */
+function interpolate(
+  anchors: ScrollAnchor[],
+  value: number,
+  from: keyof ScrollAnchor,
+  to: keyof ScrollAnchor,
+): number {
+  if (anchors.length === 0) return 0;
+
+  let i = 0;
+  while (i < anchors.length - 1 && anchors[i + 1][from] <= value) i++;
+
+  const current = anchors[i];
+  const next = anchors[i + 1];
+  if (!next || next[from] === current[from]) return current[to];
+
+  const fraction = (value - current[from]) / (next[from] - current[from]);
+  return current[to] + Math.max(0, fraction) * (next[to] - current[to]);
+}
+
+/**
+ * Keep the preview scrolled to the part of the source shown in the editor,
+ * and the other way around
+ * @returns A function stopping the sync
+ */
+export function syncScroll(
+  editor: EditorView,
+  preview: HTMLElement,
+): () => void {
+  const scroller = editor.scrollDOM;
+  // The side whose scroll event was caused by the sync, not the user
+  let syncing: "editor" | "preview" | null = null;
+
+  const scrollTo = (element: HTMLElement, top: number) => {
+    const target = Math.min(top, element.scrollHeight - element.clientHeight);
+    // Scrolling to where the element already is fires no event
+    if (Math.abs(element.scrollTop - target) < 1) return;
+    syncing = element === preview ? "preview" : "editor";
+    element.scrollTop = target;
+  };
+
+  const onEditorScroll = () => {
+    if (syncing === "editor") {
+      syncing = null;
+      return;
+    }
+    const block = editor.lineBlockAtHeight(scroller.scrollTop);
+    const line =
+      editor.state.doc.lineAt(block.from).number +
+      (scroller.scrollTop - block.top) / Math.max(block.height, 1);
+
+    scrollTo(preview, interpolate(getAnchors(preview), line, "line", "top"));
+  };
+
+  const onPreviewScroll = () => {
+    if (syncing === "preview") {
+      syncing = null;
+      return;
+    }
+    const line = interpolate(
+      getAnchors(preview),
+      preview.scrollTop,
+      "top",
+      "line",
+    );
+    const doc = editor.state.doc;
+    const whole = Math.min(Math.max(Math.floor(line), 1), doc.lines);
+    const block = editor.lineBlockAt(doc.line(whole).from);
+
+    scrollTo(scroller, block.top + (line - whole) * block.height);
+  };
+
+  scroller.addEventListener("scroll", onEditorScroll, { passive: true });
+  preview.addEventListener("scroll", onPreviewScroll, { passive: true });
+
+  return () => {
+    scroller.removeEventListener("scroll", onEditorScroll);
+    preview.removeEventListener("scroll", onPreviewScroll);
+  };
+}
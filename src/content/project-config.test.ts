@@ -0,0 +1,212 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  getConfigSearchDirs,
+  loadProjectConfig,
+  parseEditorConfig,
+  parsePrettierConfig,
+  parseRuffConfig,
+  parseTaploConfig,
+  parseYamlfmtConfig,
+} from "./project-config";
+
+describe("Project Config Module", () => {
+  describe("getConfigSearchDirs", () => {
+    it("should stop at the repository root on raw.githubusercontent.com", () => {
+      expect(
+        getConfigSearchDirs(
+          "https://raw.githubusercontent.com/org/repo/main/src/lib/x.ts",
+        ),
+      ).toEqual([
+        "https://raw.githubusercontent.com/org/repo/main/src/lib/",
+        "https://raw.githubusercontent.com/org/repo/main/src/",
+        "https://raw.githubusercontent.com/org/repo/main/",
+      ]);
+    });
+
+    it("should not search hosts without a known repository layout", () => {
+      expect(getConfigSearchDirs("https://example.com/a/x.py")).toEqual([]);
+    });
+
+    it("should not search local files", () => {
+      expect(getConfigSearchDirs("file:///home/me/x.ts")).toEqual([]);
+    });
+  });
+
+  describe("parseEditorConfig", () => {
+    const config = [
+      "root = true",
+      "",
+      "[*]",
+      "indent_style = space",
+      "indent_size = 2",
+      "",
+      "[*.{py,pyi}]",
+      "indent_size = 4",
+      "",
+      "[Makefile]",
+      "indent_style = tab",
+    ].join("\n");
+
+    it("should apply matching sections in order", () => {
+      expect(parseEditorConfig(config, "src/app.py")).toEqual({
+        settings: { useTabs: false, indentSize: 4 },
+        root: true,
+      });
+    });
+
+    it("should skip sections that do not match", () => {
+      expect(parseEditorConfig(config, "src/app.ts").settings).toEqual({
+        useTabs: false,
+        indentSize: 2,
+      });
+    });
+
+    it("should use tab_width when indent_size is tab", () => {
+      const result = parseEditorConfig(
+        "[*.go]\nindent_style = tab\nindent_size = tab\ntab_width = 8",
+        "main.go",
+      );
+      expect(result.settings).toEqual({ useTabs: true, indentSize: 8 });
+      expect(result.root).toBe(false);
+    });
+  });
+
+  describe("parsePrettierConfig", () => {
+    it("should read JSON options", () => {
+      expect(
+        parsePrettierConfig(
+          '{"tabWidth": 4, "singleQuote": false, "trailingComma": "all"}',
+        ),
+      ).toEqual({ indentSize: 4, singleQuote: false, trailingComma: "all" });
+    });
+
+    it("should read the line width, bracket spacing and arrow parens", () => {
+      expect(
+        parsePrettierConfig(
+          '{"printWidth": 120, "bracketSpacing": false, "arrowParens": "avoid"}',
+        ),
+      ).toEqual({
+        printWidth: 120,
+        bracketSpacing: false,
+        arrowParens: "avoid",
+      });
+    });
+
+    it("should read the YAML form", () => {
+      expect(parsePrettierConfig("semi: false\nuseTabs: true\n")).toEqual({
+        semi: false,
+        useTabs: true,
+      });
+    });
+  });
+
+  describe("parseRuffConfig", () => {
+    it("should read ruff.toml", () => {
+      expect(
+        parseRuffConfig(
+          'indent-width = 2\n\n[format]\nquote-style = "single"\n',
+          false,
+        ),
+      ).toEqual({ indentSize: 2, quoteStyleWasm: "single" });
+    });
+
+    it("should read [tool.ruff] from pyproject.toml", () => {
+      expect(
+        parseRuffConfig(
+          '[project]\nname = "x"\n\n[tool.ruff.format]\nindent-style = "tab"\n',
+          true,
+        ),
+      ).toEqual({ useTabs: true });
+    });
+
+    it("should ignore a pyproject.toml without Ruff settings", () => {
+      expect(parseRuffConfig('[project]\nname = "x"\n', true)).toBeNull();
+    });
+  });
+
+  describe("parseTaploConfig", () => {
+    it("should read the formatting table", () => {
+      expect(
+        parseTaploConfig(
+          '[formatting]\nalign_entries = true\nindent_string = "    "\n',
+        ),
+      ).toEqual({ alignEntries: true, useTabs: false, indentSize: 4 });
+    });
+  });
+
+  describe("parseYamlfmtConfig", () => {
+    it("should read the formatter indent", () => {
+      expect(
+        parseYamlfmtConfig("formatter:\n  type: basic\n  indent: 4\n"),
+      ).toEqual({ indentSize: 4 });
+    });
+  });
+
+  describe("loadProjectConfig", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const stubFiles = (files: Record<string, string>) => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (url: string) => {
+          const text = files[url];
+          return {
+            ok: text !== undefined,
+            text: async () => text,
+          };
+        }),
+      );
+    };
+
+    const base = "https://raw.githubusercontent.com/org/repo/main/";
+
+    it("should let the formatter config override .editorconfig", async () => {
+      stubFiles({
+        [`${base}.editorconfig`]: "root = true\n[*]\nindent_size = 2\n",
+        [`${base}src/.prettierrc`]: '{"tabWidth": 4, "semi": false}',
+      });
+
+      const config = await loadProjectConfig(`${base}src/x.ts`, "typescript");
+      expect(config.settings).toEqual({ indentSize: 4, semi: false });
+      expect(config.sources).toEqual([
+        `${base}.editorconfig`,
+        `${base}src/.prettierrc`,
+      ]);
+    });
+
+    it("should not list a config that sets nothing", async () => {
+      stubFiles({
+        [`${base}.editorconfig`]: "root = true\n[*]\nindent_size = 4\n",
+        [`${base}.yamlfmt`]: "formatter:\n  type: basic\n",
+      });
+
+      const config = await loadProjectConfig(`${base}x.yaml`, "yaml");
+      expect(config.settings).toEqual({ indentSize: 4 });
+      expect(config.sources).toEqual([`${base}.editorconfig`]);
+    });
+
+    it("should not fetch anything on other hosts", async () => {
+      stubFiles({});
+
+      const config = await loadProjectConfig(
+        "https://example.com/x.ts",
+        "typescript",
+      );
+      expect(config.sources).toEqual([]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("should only fetch config files for the language", async () => {
+      stubFiles({ [`${base}ruff.toml`]: "indent-width = 2\n" });
+
+      const config = await loadProjectConfig(`${base}x.ts`, "typescript");
+      expect(config.sources).toEqual([]);
+      expect(fetch).not.toHaveBeenCalledWith(
+        `${base}ruff.toml`,
+        expect.anything(),
+      );
+    });
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Project Config
+ * Discovers the formatting config of the repository a raw file belongs
+ * to, by fetching config files from the directories above it. Only raw
+ * file hosts with a known layout are searched, so that other sites do not
+ * get a burst of requests for files they do not have
+ */
+
+import type { ExtensionSettings } from "../shared/types";
+import type { ProjectConfig } from "./types";
+
+type ConfigSettings = Partial<ExtensionSettings>;
+type TomlTable = Record<string, string | number | boolean>;
+
+// Raw file hosts where the first path segments name the repository,
+// e.g. /org/repo/branch/src/x.ts on raw.githubusercontent.com
+const REPOSITORY_ROOT_DEPTH: Record<string, number> = {
+  "raw.githubusercontent.com": 3,
+};
+
+const FETCH_TIMEOUT_MS = 3000;
+
+const PRETTIER_LANGUAGES = new Set([
+  "javascript",
+  "typescript",
+  "jsx",
+  "tsx",
+  "json",
+  "css",
+  "scss",
+  "less",
+  "html",
+  "markdown",
+]);
+
+interface ConfigFileType {
+  names: string[];
+  languages: (language: string) => boolean;
+  /** Returns null when the file exists but does not configure the tool */
+  parse: (text: string) => ConfigSettings | null;
+}
+
+const FORMATTER_CONFIG_FILES: ConfigFileType[] = [
+  {
+    names: [".prettierrc", ".prettierrc.json"],
+    languages: (language) => PRETTIER_LANGUAGES.has(language),
+    parse: parsePrettierConfig,
+  },
+  {
+    names: ["ruff.toml", ".ruff.toml"],
+    languages: (language) => language === "python",
+    parse: (text) => parseRuffConfig(text, false),
+  },
+  {
+    names: ["pyproject.toml"],
+    languages: (language) => language === "python",
+    parse: (text) => parseRuffConfig(text, true),
+  },
+  {
+    names: ["taplo.toml", ".taplo.toml"],
+    languages: (language) => language === "toml",
+    parse: parseTaploConfig,
+  },
+  {
+    names: [".yamlfmt"],
+    languages: (language) => language === "yaml",
+    parse: parseYamlfmtConfig,
+  },
+];
+
+/**
+ * Parse the scalar value of a config line: quoted strings, numbers
+ * and booleans, anything else is kept as a bare string
+ */
+function parseScalar(raw: string): string | number | boolean {
+  const value = raw.trim();
+  const quoted = value.match(/^"((?:[^"\\]|\\.)*)"|^'([^']*)'/);
+  if (quoted) {
+    return quoted[2] ?? quoted[1].replace(/\\t/g, "\t").replace(/\\(.)/g, "$1");
+  }
+
+  const bare = value.replace(/\s+#.*$/, "");
+  if (bare === "true") return true;
+  if (bare === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(bare)) return Number(bare);
+  return bare;
+}
+
+/**
+ * Read the `[table]` headers and `key = value` pairs of a TOML file.
+ * Arrays and inline tables are ignored, no formatter option needs them.
+ */
+function parseTomlTables(text: string): Record<string, TomlTable> {
+  const tables: Record<string, TomlTable> = { "": {} };
+  let current = tables[""];
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const header = line.match(/^\[([^[\]]+)\]/);
+    if (header) {
+      const name = header[1].trim();
+      current = tables[name] ??= {};
+      continue;
+    }
+
+    const pair = line.match(/^([\w.-]+)\s*=\s*(.+)$/);
+    if (pair && !/^[[{]/.test(pair[2])) {
+      current[pair[1]] = parseScalar(pair[2]);
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Turn an .editorconfig section glob into a regular expression
+ */
+function editorConfigGlobToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      pattern += ".*";
+      i++;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      const end = glob.indexOf("}", i);
+      if (end === -1) {
+        pattern += "\\{";
+        continue;
+      }
+      const options = glob.slice(i + 1, end).split(",");
+      pattern += `(?:${options.map((o) => o.replace(/[.+^$()|\\]/g, "\\$&")).join("|")})`;
+      i = end;
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i);
+      if (end === -1) {
+        pattern += "\\[";
+        continue;
+      }
+      pattern += glob.slice(i, end + 1).replace("[!", "[^");
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^$()|\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Parse an .editorconfig, keeping the properties of the sections that
+ * match the file
+ * @param relativePath - Path of the file relative to the config's directory
+ */
+export function parseEditorConfig(
+  text: string,
+  relativePath: string,
+): { settings: ConfigSettings; root: boolean } {
+  const settings: ConfigSettings = {};
+  const fileName = relativePath.split("/").pop() ?? relativePath;
+  let root = false;
+  let matches = false;
+  let inPreamble = true;
+  let tabWidth: number | undefined;
+  let indentIsTab = false;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) continue;
+
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      inPreamble = false;
+      const glob = section[1];
+      // Globs without a slash match the file name in any directory
+      const target = glob.includes("/") ? relativePath : fileName;
+      matches = editorConfigGlobToRegExp(glob.replace(/^\//, "")).test(target);
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+)\s*[=:]\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim().toLowerCase();
+
+    if (inPreamble) {
+      if (key === "root") root = value === "true";
+      continue;
+    }
+    if (!matches) continue;
+
+    if (key === "indent_style" && (value === "tab" || value === "space")) {
+      settings.useTabs = value === "tab";
+    } else if (key === "indent_size") {
+      indentIsTab = value === "tab";
+      const size = parseInt(value, 10);
+      if (size > 0) settings.indentSize = size;
+    } else if (key === "tab_width") {
+      const width = parseInt(value, 10);
+      if (width > 0) tabWidth = width;
+    }
+  }
+
+  if (indentIsTab && tabWidth) settings.indentSize = tabWidth;
+
+  return { settings, root };
+}
+
+/**
+ * Parse a .prettierrc in JSON or its simple YAML form
+ */
+export function parsePrettierConfig(text: string): ConfigSettings | null {
+  let options: Record<string, unknown>;
+  try {
+    options = JSON.parse(text);
+  } catch {
+    options = {};
+    for (const line of text.split("\n")) {
+      const pair = line.match(/^(\w+)\s*:\s*(.+)$/);
+      if (pair) options[pair[1]] = parseScalar(pair[2]);
+    }
+  }
+  if (!options || typeof options !== "object") return null;
+
+  const settings: ConfigSettings = {};
+  if (typeof options.tabWidth === "number") {
+    settings.indentSize = options.tabWidth;
+  }
+  if (typeof options.useTabs === "boolean") settings.useTabs = options.useTabs;
+  if (typeof options.singleQuote === "boolean") {
+    settings.singleQuote = options.singleQuote;
+  }
+  if (typeof options.semi === "boolean") settings.semi = options.semi;
+  if (
+    options.trailingComma === "none" ||
+    options.trailingComma === "es5" ||
+    options.trailingComma === "all"
+  ) {
+    settings.trailingComma = options.trailingComma;
+  }
+  if (typeof options.printWidth === "number") {
+    settings.printWidth = options.printWidth;
+  }
+  if (typeof options.bracketSpacing === "boolean") {
+    settings.bracketSpacing = options.bracketSpacing;
+  }
+  if (options.arrowParens === "always" || options.arrowParens === "avoid") {
+    settings.arrowParens = options.arrowParens;
+  }
+  return settings;
+}
+
+/**
+ * Parse the Ruff formatter options of a ruff.toml or pyproject.toml
+ * Returns null for a pyproject.toml without a [tool.ruff] table
+ */
+export function parseRuffConfig(
+  text: string,
+  isPyproject: boolean,
+): ConfigSettings | null {
+  const tables = parseTomlTables(text);
+  const prefix = isPyproject ? "tool.ruff" : "";
+  const base = tables[prefix];
+  const format = tables[prefix ? `${prefix}.format` : "format"];
+  if (isPyproject && !base && !format) return null;
+
+  const settings: ConfigSettings = {};
+  const indentWidth = base?.["indent-width"];
+  if (typeof indentWidth === "number") settings.indentSize = indentWidth;
+
+  const indentStyle = format?.["indent-style"];
+  if (indentStyle === "tab" || indentStyle === "space") {
+    settings.useTabs = indentStyle === "tab";
+  }
+
+  const quoteStyle = format?.["quote-style"];
+  if (
+    quoteStyle === "single" ||
+    quoteStyle === "double" ||
+    quoteStyle === "preserve"
+  ) {
+    settings.quoteStyleWasm = quoteStyle;
+  }
+  return settings;
+}
+
+/**
+ * Parse the [formatting] table of a taplo.toml
+ */
+export function parseTaploConfig(text: string): ConfigSettings | null {
+  const formatting = parseTomlTables(text).formatting;
+  if (!formatting) return null;
+
+  const settings: ConfigSettings = {};
+  if (typeof formatting.align_entries === "boolean") {
+    settings.alignEntries = formatting.align_entries;
+  }
+  if (typeof formatting.align_comments === "boolean") {
+    settings.alignComments = formatting.align_comments;
+  }
+  if (typeof formatting.indent_tables === "boolean") {
+    settings.indentTables = formatting.indent_tables;
+  }
+
+  const indent = formatting.indent_string;
+  if (typeof indent === "string" && indent.length > 0) {
+    settings.useTabs = indent.includes("\t");
+    if (!settings.useTabs) settings.indentSize = indent.length;
+  }
+  return settings;
+}
+
+/**
+ * Parse the basic formatter options of a .yamlfmt
+ */
+export function parseYamlfmtConfig(text: string): ConfigSettings | null {
+  const indent = text.match(/^\s+indent:\s*(\d+)/m);
+  return indent ? { indentSize: parseInt(indent[1], 10) } : {};
+}
+
+/**
+ * Get the directories to search for config files, nearest first, up to
+ * the repository root
+ * Returns an empty list for pages that are not on a known raw file host
+ */
+export function getConfigSearchDirs(pageUrl: string): string[] {
+  let url: URL;
+  try {
+    url = new URL(pageUrl);
+  } catch {
+    return [];
+  }
+  if (url.protocol !== "https:") return [];
+
+  const rootDepth = REPOSITORY_ROOT_DEPTH[url.hostname];
+  if (rootDepth === undefined) return [];
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  segments.pop(); // the file itself
+  if (segments.length < rootDepth) return [];
+
+  const dirs: string[] = [];
+  for (let depth = segments.length; depth >= rootDepth; depth--) {
+    const path = segments.slice(0, depth).join("/");
+    dirs.push(`${url.origin}/${path ? `${path}/` : ""}`);
+  }
+  return dirs;
+}
+
+async function fetchText(url: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      credentials: "omit",
+    });
+    return response.ok ? await response.text() : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Find the nearest formatter-specific config, trying the file types in
+ * order within each directory
+ */
+function findFormatterConfig(
+  dirs: string[],
+  fileTypes: ConfigFileType[],
+  found: Map<string, string>,
+): { url: string; settings: ConfigSettings } | null {
+  for (const dir of dirs) {
+    for (const type of fileTypes) {
+      for (const name of type.names) {
+        const text = found.get(dir + name);
+        if (text === undefined) continue;
+
+        const settings = type.parse(text);
+        if (settings) return { url: dir + name, settings };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Discover and merge the project config for the file at pageUrl.
+ * .editorconfig files apply from the outermost to the nearest, then the
+ * nearest formatter-specific config overrides them.
+ */
+export async function loadProjectConfig(
+  pageUrl: string,
+  language: string,
+): Promise<ProjectConfig> {
+  const dirs = getConfigSearchDirs(pageUrl);
+  const fileTypes = FORMATTER_CONFIG_FILES.filter((type) =>
+    type.languages(language),
+  );
+  const names = [".editorconfig", ...fileTypes.flatMap((type) => type.names)];
+
+  // Fetch everything at once, most of these requests are 404s
+  const urls = dirs.flatMap((dir) => names.map((name) => dir + name));
+  const texts = await Promise.all(urls.map(fetchText));
+  const found = new Map<string, string>();
+  urls.forEach((url, i) => {
+    const text = texts[i];
+    if (text !== null) found.set(url, text);
+  });
+
+  const settings: ConfigSettings = {};
+  const sources: string[] = [];
+  const filePath = new URL(pageUrl).pathname;
+
+  const editorConfigs: { url: string; settings: ConfigSettings }[] = [];
+  for (const dir of dirs) {
+    const url = `${dir}.editorconfig`;
+    const text = found.get(url);
+    if (text === undefined) continue;
+
+    const dirPath = new URL(dir).pathname;
+    const parsed = parseEditorConfig(text, filePath.slice(dirPath.length));
+    editorConfigs.push({ url, settings: parsed.settings });
+    if (parsed.root) break;
+  }
+  for (const config of editorConfigs.reverse()) {
+    if (Object.keys(config.settings).length === 0) continue;
+    Object.assign(settings, config.settings);
+    sources.push(config.url);
+  }
+
+  const formatterConfig = findFormatterConfig(dirs, fileTypes, found);
+  // A config that leaves every option to its default changes nothing
+  if (formatterConfig && Object.keys(formatterConfig.settings).length > 0) {
+    Object.assign(settings, formatterConfig.settings);
+    sources.push(formatterConfig.url);
+  }
+
+  return { settings, sources };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { sanitizeHtml } from "./sanitize";
+
+function sanitize(html: string): HTMLElement {
+  const root = document.createElement("div");
+  root.innerHTML = html;
+  return sanitizeHtml(root);
+}
+
+describe("sanitizeHtml", () => {
+  it("should keep harmless markup", () => {
+    const root = sanitize(
+      '<p><strong>Bold</strong> <img src="a.png" alt="a"></p>',
+    );
+
+    expect(root.querySelector("strong")?.textContent).toBe("Bold");
+    expect(root.querySelector("img")?.getAttribute("src")).toBe("a.png");
+  });
+
+  it("should remove scriptable elements", () => {
+    const root = sanitize(
+      "<script>alert(1)</script><iframe></iframe><style>*{}</style><form></form>",
+    );
+
+    expect(root.children).toHaveLength(0);
+  });
+
+  it("should remove event handlers, styles and dangerous URLs", () => {
+    const root = sanitize(
+      '<a href="javascript:alert(1)" onclick="x()">a</a><img src="data:image/svg+xml,x" style="position:fixed">',
+    );
+    const link = root.querySelector("a")!;
+    const image = root.querySelector("img")!;
+
+    expect(link.hasAttribute("href")).toBe(false);
+    expect(link.hasAttribute("onclick")).toBe(false);
+    expect(image.hasAttribute("src")).toBe(false);
+    expect(image.hasAttribute("style")).toBe(false);
+  });
+
+  it("should remove script URLs hidden by whitespace or control characters", () => {
+    const root = sanitize(
+      '<a href="jav&#9;ascript:alert(1)">a</a><a href="&#1;javascript:alert(1)">b</a><a href=" java&#10;script:alert(1)">c</a>',
+    );
+
+    for (const link of Array.from(root.querySelectorAll("a"))) {
+      expect(link.hasAttribute("href")).toBe(false);
+    }
+  });
+
+  it("should only keep web, mail and in-page links", () => {
+    const root = sanitize(
+      '<a href="https://example.com">a</a><a href="docs/a.md">b</a><a href="#usage">c</a><a href="mailto:a@example.com">d</a><a href="ftp://example.com">e</a>',
+    );
+    const hrefs = Array.from(root.querySelectorAll("a"), (link) =>
+      link.getAttribute("href"),
+    );
+
+    expect(hrefs).toEqual([
+      "https://example.com",
+      "docs/a.md",
+      "#usage",
+      "mailto:a@example.com",
+      null,
+    ]);
+  });
+
+  it("should open links without access to the page", () => {
+    const link = sanitize('<a href="https://example.com">a</a>').querySelector(
+      "a",
+    )!;
+
+    expect(link.getAttribute("rel")).toBe("noopener noreferrer");
+    expect(link.getAttribute("target")).toBe("_blank");
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Sanitization
+ * Strips scriptable elements, event handler attributes and dangerous URLs
+ * from markup that is inserted into the page: the toolbar's SVG icons and
+ * the HTML of the Markdown preview
+ */
+
+const DANGEROUS_SVG_ELEMENTS = [
+  "script",
+  "foreignObject",
+  "iframe",
+  "object",
+  "embed",
+  "use",
+  "animate",
+  "set",
+];
+
+const DANGEROUS_SVG_ATTRS = [
+  "onload",
+  "onclick",
+  "onerror",
+  "onmouseover",
+  "onfocus",
+  "onblur",
+  "onchange",
+  "onsubmit",
+  "onkeydown",
+  "onkeyup",
+  "onkeypress",
+  "onanimationstart",
+  "onanimationend",
+  "onanimationiteration",
+  "ontransitionend",
+  "href",
+  "xlink:href",
+  "ping",
+  "formaction",
+  "poster",
+  "src",
+  "data",
+  "xmlns:xlink",
+];
+
+const DANGEROUS_URL_PROTOCOLS = ["javascript:", "data:", "vbscript:", "file:"];
+
+// Browsers ignore ASCII whitespace and control characters in a scheme,
+// so "jav&#9;ascript:" still runs script
+const IGNORED_URL_CHARS = /[\u0000-\u0020\u007f]/g;
+
+function isDangerousUrl(value: string): boolean {
+  const lower = value.replace(IGNORED_URL_CHARS, "").toLowerCase();
+  return DANGEROUS_URL_PROTOCOLS.some((proto) => lower.startsWith(proto));
+}
+
+const SAFE_URL_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/**
+ * Whether a URL of markup not written by the extension can be kept: web
+ * and mail links, relative ones included, and links within the document
+ */
+function isSafeUrl(value: string): boolean {
+  if (value.trim().startsWith("#")) return true;
+  try {
+    const { protocol } = new URL(value, document.baseURI);
+    return SAFE_URL_PROTOCOLS.includes(protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function sanitizeSvg(svgElement: SVGElement): SVGElement {
+  for (const tagName of DANGEROUS_SVG_ELEMENTS) {
+    const elements = svgElement.querySelectorAll(tagName);
+    elements.forEach((el) => el.remove());
+  }
+
+  const allElements = svgElement.querySelectorAll("*");
+  allElements.forEach((el) => {
+    const elAttrs = Array.from(el.attributes);
+    for (const attr of elAttrs) {
+      if (DANGEROUS_SVG_ATTRS.includes(attr.name.toLowerCase())) {
+        el.removeAttribute(attr.name);
+        continue;
+      }
+      if (attr.name.toLowerCase().startsWith("on")) {
+        el.removeAttribute(attr.name);
+        continue;
+      }
+      if (
+        ["href", "src", "xlink:href", "data", "poster", "formaction"].includes(
+          attr.name.toLowerCase(),
+        ) &&
+        isDangerousUrl(attr.value)
+      ) {
+        el.removeAttribute(attr.name);
+      }
+    }
+  });
+
+  const rootAttrs = Array.from(svgElement.attributes);
+  for (const attr of rootAttrs) {
+    if (DANGEROUS_SVG_ATTRS.includes(attr.name.toLowerCase())) {
+      svgElement.removeAttribute(attr.name);
+      continue;
+    }
+    if (attr.name.toLowerCase().startsWith("on")) {
+      svgElement.removeAttribute(attr.name);
+      continue;
+    }
+    if (
+      ["href", "src", "xlink:href"].includes(attr.name.toLowerCase()) &&
+      isDangerousUrl(attr.value)
+    ) {
+      svgElement.removeAttribute(attr.name);
+    }
+  }
+
+  svgElement.removeAttribute("xmlns:xlink");
+  return svgElement;
+}
+
+const DANGEROUS_HTML_ELEMENTS = [
+  "script",
+  "style",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "base",
+  "link",
+  "meta",
+  "form",
+  "input",
+  "button",
+  "textarea",
+  "select",
+  "template",
+  "noscript",
+  "svg",
+  "math",
+];
+
+const DANGEROUS_HTML_ATTRS = ["style", "srcdoc", "formaction", "ping"];
+
+const HTML_URL_ATTRS = [
+  "href",
+  "src",
+  "srcset",
+  "xlink:href",
+  "action",
+  "poster",
+  "data",
+  "cite",
+  "background",
+];
+
+/**
+ * Sanitize HTML the way sanitizeSvg does SVG, for markup that was not
+ * written by the extension, e.g. rendered Markdown. Only the URLs that
+ * isSafeUrl allows are kept, and links are made to open without access
+ * to the page
+ */
+export function sanitizeHtml<T extends Element | DocumentFragment>(root: T): T {
+  for (const tagName of DANGEROUS_HTML_ELEMENTS) {
+    root.querySelectorAll(tagName).forEach((el) => el.remove());
+  }
+
+  root.querySelectorAll("*").forEach((el) => {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase();
+      if (
+        name.startsWith("on") ||
+        DANGEROUS_HTML_ATTRS.includes(name) ||
+        (HTML_URL_ATTRS.includes(name) && !isSafeUrl(attr.value))
+      ) {
+        el.removeAttribute(attr.name);
+      }
+    }
+  });
+
+  root.querySelectorAll("a[href]").forEach((link) => {
+    link.setAttribute("rel", "noopener noreferrer");
+    link.setAttribute("target", "_blank");
+  });
+
+  return root;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { capturePageSelection, copyToClipboard } from "./selection";
+
+describe("Selection Module", () => {
+  beforeEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+    window.getSelection()?.removeAllRanges();
+  });
+
+  describe("capturePageSelection", () => {
+    it("should return null when nothing is selected", () => {
+      expect(capturePageSelection()).toBeNull();
+    });
+
+    it("should replace the selection in a textarea", () => {
+      const textarea = document.createElement("textarea");
+      textarea.value = "before\nconst a=1\nafter";
+      document.body.appendChild(textarea);
+      textarea.focus();
+      textarea.setSelectionRange(7, 16);
+
+      const onInput = vi.fn();
+      textarea.addEventListener("input", onInput);
+
+      const selection = capturePageSelection();
+      expect(selection?.text).toBe("const a=1");
+      expect(selection?.replace?.("const a = 1;")).toBe(true);
+      expect(textarea.value).toBe("before\nconst a = 1;\nafter");
+      expect(onInput).toHaveBeenCalled();
+    });
+
+    it("should not replace text that changed while formatting", () => {
+      const input = document.createElement("input");
+      input.value = "a=1";
+      document.body.appendChild(input);
+      input.focus();
+      input.setSelectionRange(0, 3);
+
+      const selection = capturePageSelection();
+      input.value = "b=2";
+
+      expect(selection?.replace?.("a = 1")).toBe(false);
+      expect(input.value).toBe("b=2");
+    });
+
+    it("should treat read-only fields as not replaceable", () => {
+      const textarea = document.createElement("textarea");
+      textarea.value = "a=1";
+      textarea.readOnly = true;
+      document.body.appendChild(textarea);
+      textarea.focus();
+      textarea.setSelectionRange(0, 3);
+
+      const selection = capturePageSelection();
+      expect(selection?.text).toBe("a=1");
+      expect(selection?.replace).toBeNull();
+    });
+
+    it("should treat page text as not replaceable", () => {
+      const pre = document.createElement("pre");
+      pre.textContent = "a=1";
+      document.body.appendChild(pre);
+
+      const range = document.createRange();
+      range.selectNodeContents(pre);
+      window.getSelection()?.addRange(range);
+
+      const selection = capturePageSelection();
+      expect(selection?.text).toBe("a=1");
+      expect(selection?.replace).toBeNull();
+    });
+
+    it("should replace the selection in a contenteditable region", () => {
+      const div = document.createElement("div");
+      div.contentEditable = "true";
+      div.textContent = "a=1";
+      document.body.appendChild(div);
+      // jsdom does not implement isContentEditable
+      Object.defineProperty(div, "isContentEditable", { value: true });
+
+      const range = document.createRange();
+      range.selectNodeContents(div);
+      window.getSelection()?.addRange(range);
+
+      const selection = capturePageSelection();
+      expect(selection?.replace?.("a = 1")).toBe(true);
+      expect(div.textContent).toBe("a = 1");
+    });
+  });
+
+  describe("copyToClipboard", () => {
+    it("should write through the clipboard API", async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal("navigator", { clipboard: { writeText } });
+
+      expect(await copyToClipboard("code")).toBe(true);
+      expect(writeText).toHaveBeenCalledWith("code");
+
+      vi.unstubAllGlobals();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Selection
+ * Captures and replaces the user's selection in page fields, for the
+ * context-menu "Format as …" actions
+ */
+
+import type { PageSelection } from "./types";
+
+type TextField = HTMLTextAreaElement | HTMLInputElement;
+
+// Input types whose value can be selected and edited as text
+const TEXT_INPUT_TYPES = new Set(["text", "search", "url", "tel", ""]);
+
+function isTextField(element: Element | null): element is TextField {
+  if (element instanceof HTMLTextAreaElement) return true;
+  return (
+    element instanceof HTMLInputElement &&
+    TEXT_INPUT_TYPES.has(element.type.toLowerCase())
+  );
+}
+
+/**
+ * Run a document editing command, reporting whether the browser ran it.
+ * Inserting through "insertText" keeps the undo history and lets editors
+ * built on contenteditable or a hidden textarea (CodeMirror, Monaco)
+ * apply the change themselves.
+ */
+function runEditCommand(command: string, value?: string): boolean {
+  if (typeof document.execCommand !== "function") return false;
+  try {
+    return document.execCommand(command, false, value);
+  } catch {
+    return false;
+  }
+}
+
+function captureTextFieldSelection(field: TextField): PageSelection | null {
+  const start = field.selectionStart ?? 0;
+  const end = field.selectionEnd ?? 0;
+  if (start === end) return null;
+
+  const text = field.value.substring(start, end);
+  if (field.readOnly || field.disabled) return { text, replace: null };
+
+  return {
+    text,
+    replace: (formatted) => {
+      // Give up if the field was edited while formatting
+      if (field.value.substring(start, end) !== text) return false;
+
+      field.focus();
+      field.setSelectionRange(start, end);
+      const before = field.value;
+      if (runEditCommand("insertText", formatted) && field.value !== before) {
+        return true;
+      }
+
+      field.setRangeText(formatted, start, end, "end");
+      field.dispatchEvent(new Event("input", { bubbles: true }));
+      return true;
+    },
+  };
+}
+
+function captureDocumentSelection(): PageSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) {
+    return null;
+  }
+
+  const range = selection.getRangeAt(0).cloneRange();
+  const text = selection.toString();
+  const container = range.commonAncestorContainer;
+  const element =
+    container instanceof HTMLElement ? container : container.parentElement;
+
+  if (!element?.isContentEditable) return { text, replace: null };
+
+  return {
+    text,
+    replace: (formatted) => {
+      if (range.toString() !== text) return false;
+
+      const current = window.getSelection();
+      current?.removeAllRanges();
+      current?.addRange(range);
+      if (runEditCommand("insertText", formatted)) return true;
+
+      range.deleteContents();
+      range.insertNode(document.createTextNode(formatted));
+      element.dispatchEvent(new Event("input", { bubbles: true }));
+      return true;
+    },
+  };
+}
+
+/**
+ * Capture the current selection, preferring the focused text field
+ * Returns null when nothing is selected
+ */
+export function capturePageSelection(): PageSelection | null {
+  const active = document.activeElement;
+  if (isTextField(active)) {
+    const fieldSelection = captureTextFieldSelection(active);
+    if (fieldSelection) return fieldSelection;
+  }
+  return captureDocumentSelection();
+}
+
+/**
+ * Copy text to the clipboard, falling back to a temporary textarea
+ * when the async clipboard API is unavailable or denied
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    const textarea = document.createElement("textarea");
+    textarea.value = text;
+    textarea.style.cssText = "position:fixed;top:-1000px;opacity:0;";
+    document.body.appendChild(textarea);
+    textarea.select();
+    const copied = runEditCommand("copy");
+    textarea.remove();
+    return copied;
+  }
+}
@@ -2,6 +2,11 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   createStatusBar,
   updateStatusBarWithFile,
+  updateStatusBarLanguage,
+  setStatusBarLanguageAction,
+  updateStatusBarFormatter,
+  updateStatusBarDiagnostics,
+  updateStatusBarDirty,
   getStatusBar,
   setStatusBar,
 } from "./status-bar";
@@ -91,6 +96,31 @@ describe("Status Bar Module", () => {
     });
   });
 
+  describe("updateStatusBarLanguage", () => {
+    it("should replace the language item", () => {
+      const bar = createStatusBar("json", "{}", settings);
+
+      updateStatusBarLanguage("yaml");
+
+      expect(bar.firstElementChild?.textContent).toBe("YAML");
+    });
+  });
+
+  describe("setStatusBarLanguageAction", () => {
+    it("should run the action on a click or Enter", () => {
+      const bar = createStatusBar("json", "{}", settings);
+      const onClick = vi.fn();
+
+      setStatusBarLanguageAction(onClick);
+      const item = bar.firstElementChild as HTMLElement;
+      expect(item.getAttribute("role")).toBe("button");
+
+      item.click();
+      item.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+      expect(onClick).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("updateStatusBarWithFile", () => {
     beforeEach(() => {
       const code = "const x = 10;";
@@ -136,6 +166,122 @@ describe("Status Bar Module", () => {
     });
   });
 
+  describe("updateStatusBarFormatter", () => {
+    beforeEach(() => {
+      createStatusBar("javascript", "const x = 10;", settings);
+    });
+
+    const getItem = () =>
+      getStatusBar()?.querySelector<HTMLElement>(
+        ".code-formatter-status-bar__formatter",
+      );
+
+    it("should show the formatter engine", () => {
+      updateStatusBarFormatter("Prettier");
+
+      expect(getItem()?.textContent).toBe("Prettier");
+      expect(getItem()?.classList).not.toContain(
+        "code-formatter-status-bar__formatter--fallback",
+      );
+    });
+
+    it("should flag fallbacks and explain skipped engines", () => {
+      updateStatusBarFormatter("JS Beautify", [
+        {
+          formatterId: "prettier",
+          formatterName: "Prettier",
+          reason: "Unexpected token",
+        },
+      ]);
+
+      expect(getItem()?.textContent).toBe("JS Beautify");
+      expect(getItem()?.classList).toContain(
+        "code-formatter-status-bar__formatter--fallback",
+      );
+      expect(getItem()?.title).toContain("Prettier skipped: Unexpected token");
+    });
+
+    it("should reuse a single item", () => {
+      updateStatusBarFormatter("Prettier");
+      updateStatusBarFormatter("Biome");
+
+      const items = getStatusBar()?.querySelectorAll(
+        ".code-formatter-status-bar__formatter",
+      );
+      expect(items?.length).toBe(1);
+      expect(getItem()?.textContent).toBe("Biome");
+    });
+
+    it("should remove the item when no engine is known", () => {
+      updateStatusBarFormatter("Prettier");
+      updateStatusBarFormatter(undefined);
+
+      expect(getItem()).toBeFalsy();
+    });
+  });
+
+  describe("updateStatusBarDiagnostics", () => {
+    beforeEach(() => {
+      createStatusBar("javascript", "const x = (;", settings);
+    });
+
+    const getItem = () =>
+      getStatusBar()?.querySelector<HTMLElement>(
+        ".code-formatter-status-bar__errors",
+      );
+
+    const diagnostic = {
+      message: "Unexpected token",
+      line: 1,
+      column: 12,
+      severity: "error" as const,
+      source: "prettier",
+    };
+
+    it("should show the error count with locations", () => {
+      updateStatusBarDiagnostics([diagnostic, { ...diagnostic, line: 3 }]);
+
+      expect(getItem()?.textContent).toBe("2 errors");
+      expect(getItem()?.title).toContain("1:12 Unexpected token");
+    });
+
+    it("should use the singular for one error", () => {
+      updateStatusBarDiagnostics([diagnostic]);
+      expect(getItem()?.textContent).toBe("1 error");
+    });
+
+    it("should remove the item once the errors are fixed", () => {
+      updateStatusBarDiagnostics([diagnostic]);
+      updateStatusBarDiagnostics([]);
+
+      expect(getItem()).toBeFalsy();
+    });
+  });
+
+  describe("updateStatusBarDirty", () => {
+    beforeEach(() => {
+      createStatusBar("javascript", "const x = 1;", settings);
+    });
+
+    const getItems = () =>
+      getStatusBar()!.querySelectorAll(".code-formatter-status-bar__dirty");
+
+    it("should show one indicator while the document is modified", () => {
+      updateStatusBarDirty(true);
+      updateStatusBarDirty(true);
+
+      expect(getItems()).toHaveLength(1);
+      expect(getItems()[0].textContent).toContain("Modified");
+    });
+
+    it("should remove the indicator once the document is unchanged", () => {
+      updateStatusBarDirty(true);
+      updateStatusBarDirty(false);
+
+      expect(getItems()).toHaveLength(0);
+    });
+  });
+
   describe("getStatusBar / setStatusBar", () => {
     it("should return null initially", () => {
       setStatusBar(null);
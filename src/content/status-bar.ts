@@ -1,6 +1,7 @@
 import { ELEMENT_IDS, CSS_CLASSES, COLORS } from "../shared/constants";
 import { formatFileSize } from "../formatters/file-loader";
 import type { ExtensionSettings } from "../shared/types";
+import type { FormatDiagnostic, SkippedFormatter } from "../formatters/types";
 
 let statusBarElement: HTMLElement | null = null;
 
@@ -47,6 +48,38 @@ export function createStatusBar(
   return bar;
 }
 
+/**
+ * Show the language of the document, e.g. after it was converted
+ */
+export function updateStatusBarLanguage(language: string): void {
+  const langItem = statusBarElement?.querySelector(
+    `.${CSS_CLASSES.STATUS_BAR_ITEM}`,
+  );
+  if (langItem) langItem.textContent = language.toUpperCase();
+}
+
+/**
+ * Make the language item a control, e.g. one opening the language picker
+ */
+export function setStatusBarLanguageAction(onClick: () => void): void {
+  const langItem = statusBarElement?.querySelector<HTMLElement>(
+    `.${CSS_CLASSES.STATUS_BAR_ITEM}`,
+  );
+  if (!langItem) return;
+
+  langItem.classList.add(CSS_CLASSES.STATUS_BAR_LANGUAGE);
+  langItem.title = "Change the language";
+  langItem.tabIndex = 0;
+  langItem.setAttribute("role", "button");
+  langItem.addEventListener("click", onClick);
+  langItem.addEventListener("keydown", (e) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      onClick();
+    }
+  });
+}
+
 export function updateStatusBarWithFile(
   fileInfo: { name: string; size: number } | null | undefined,
 ): void {
@@ -79,6 +112,154 @@ export function updateStatusBarWithFile(
   }
 }
 
+/**
+ * Show which formatter engine produced the current output. When earlier
+ * engines in the fallback chain failed, the item is highlighted and its
+ * tooltip explains why they were skipped.
+ */
+export function updateStatusBarFormatter(
+  formatter: string | undefined,
+  skipped: SkippedFormatter[] = [],
+): void {
+  if (!statusBarElement) return;
+
+  let item = statusBarElement.querySelector<HTMLElement>(
+    `.${CSS_CLASSES.STATUS_BAR_FORMATTER}`,
+  );
+
+  if (!formatter) {
+    item?.remove();
+    return;
+  }
+
+  if (!item) {
+    item = document.createElement("span");
+    item.className = `${CSS_CLASSES.STATUS_BAR_ITEM} ${CSS_CLASSES.STATUS_BAR_FORMATTER}`;
+    statusBarElement.appendChild(item);
+  }
+
+  item.textContent = formatter;
+  item.classList.toggle(
+    CSS_CLASSES.STATUS_BAR_FORMATTER_FALLBACK,
+    skipped.length > 0,
+  );
+  item.title = skipped.length
+    ? skipped.map((s) => `${s.formatterName} skipped: ${s.reason}`).join("\n")
+    : `Formatted with ${formatter}`;
+}
+
+/**
+ * Show how many syntax errors the formatter reported, with their
+ * locations in the tooltip. The item is removed when there are none.
+ */
+export function updateStatusBarDiagnostics(
+  diagnostics: FormatDiagnostic[] = [],
+): void {
+  if (!statusBarElement) return;
+
+  let item = statusBarElement.querySelector<HTMLElement>(
+    `.${CSS_CLASSES.STATUS_BAR_ERRORS}`,
+  );
+
+  if (diagnostics.length === 0) {
+    item?.remove();
+    return;
+  }
+
+  if (!item) {
+    item = document.createElement("span");
+    item.className = `${CSS_CLASSES.STATUS_BAR_ITEM} ${CSS_CLASSES.STATUS_BAR_ERRORS}`;
+    statusBarElement.appendChild(item);
+  }
+
+  const count = diagnostics.length;
+  item.textContent = `${count} ${count === 1 ? "error" : "errors"}`;
+  item.title = diagnostics
+    .map((d) => `${d.line}:${d.column} ${d.message}`)
+    .join("\n");
+}
+
+/**
+ * Show which project config files were applied, by name, with their
+ * full URLs in the tooltip. The item is removed when there are none.
+ */
+export function updateStatusBarConfig(sources: string[] = []): void {
+  if (!statusBarElement) return;
+
+  let item = statusBarElement.querySelector<HTMLElement>(
+    `.${CSS_CLASSES.STATUS_BAR_CONFIG}`,
+  );
+
+  if (sources.length === 0) {
+    item?.remove();
+    return;
+  }
+
+  if (!item) {
+    item = document.createElement("span");
+    item.className = `${CSS_CLASSES.STATUS_BAR_ITEM} ${CSS_CLASSES.STATUS_BAR_CONFIG}`;
+    statusBarElement.appendChild(item);
+  }
+
+  item.textContent = sources
+    .map((url) => url.substring(url.lastIndexOf("/") + 1))
+    .join(" + ");
+  item.title = `Project config applied:\n${sources.join("\n")}`;
+}
+
+/**
+ * Show the progress of a chunked format. The item is removed once every
+ * chunk is done.
+ */
+export function updateStatusBarProgress(done: number, total: number): void {
+  if (!statusBarElement) return;
+
+  let item = statusBarElement.querySelector<HTMLElement>(
+    `.${CSS_CLASSES.STATUS_BAR_PROGRESS}`,
+  );
+
+  if (done >= total) {
+    item?.remove();
+    return;
+  }
+
+  if (!item) {
+    item = document.createElement("span");
+    item.className = `${CSS_CLASSES.STATUS_BAR_ITEM} ${CSS_CLASSES.STATUS_BAR_PROGRESS}`;
+    statusBarElement.appendChild(item);
+  }
+
+  const percent = Math.round((done / total) * 100);
+  item.textContent = `Formatting ${percent}%`;
+  item.title = `${done} of ${total} chunks formatted`;
+  item.style.setProperty("--progress", `${percent}%`);
+}
+
+/**
+ * Show whether the document was edited since it was loaded or saved. The
+ * item is removed while it is unchanged.
+ */
+export function updateStatusBarDirty(dirty: boolean): void {
+  if (!statusBarElement) return;
+
+  let item = statusBarElement.querySelector<HTMLElement>(
+    `.${CSS_CLASSES.STATUS_BAR_DIRTY}`,
+  );
+
+  if (!dirty) {
+    item?.remove();
+    return;
+  }
+
+  if (!item) {
+    item = document.createElement("span");
+    item.className = `${CSS_CLASSES.STATUS_BAR_ITEM} ${CSS_CLASSES.STATUS_BAR_DIRTY}`;
+    item.textContent = "● Modified";
+    item.title = "Edited since it was loaded or saved (Ctrl+S)";
+    statusBarElement.appendChild(item);
+  }
+}
+
 export function removeStatusBar(): void {
   if (statusBarElement) {
     statusBarElement.remove();
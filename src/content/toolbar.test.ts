@@ -6,6 +6,12 @@ import {
   getFileExtension,
   downloadCode,
   initToolbar,
+  createToolbar,
+  setCurrentLanguage,
+  setFormatterOptions,
+  setLanguageCandidates,
+  openLanguagePicker,
+  setDocumentDirty,
 } from "./toolbar";
 import { DEFAULT_SETTINGS } from "../shared/constants";
 
@@ -195,4 +201,209 @@ describe("Toolbar Module", () => {
       expect(() => initToolbar(settings, callbacks)).not.toThrow();
     });
   });
+
+  describe("setFormatterOptions", () => {
+    const options = [
+      { id: "prettier", name: "Prettier", description: "" },
+      { id: "js-beautify", name: "JS Beautify", description: "" },
+    ];
+
+    const getSelect = () =>
+      document.getElementById(
+        "code-formatter-toolbar-button-formatter",
+      ) as HTMLSelectElement;
+
+    it("should hide the picker when there is only one engine", () => {
+      initToolbar({ ...DEFAULT_SETTINGS }, {});
+      document.body.appendChild(createToolbar());
+
+      setFormatterOptions(options.slice(0, 1));
+      expect(getSelect().style.display).toBe("none");
+    });
+
+    it("should select the saved engine for the current language", () => {
+      initToolbar(
+        {
+          ...DEFAULT_SETTINGS,
+          formatterByLanguage: { javascript: "js-beautify" },
+        },
+        {},
+      );
+      setCurrentLanguage("javascript");
+      document.body.appendChild(createToolbar());
+
+      setFormatterOptions(options);
+      expect(getSelect().options.length).toBe(2);
+      expect(getSelect().value).toBe("js-beautify");
+    });
+
+    it("should store the choice and notify on change", () => {
+      const settings = { ...DEFAULT_SETTINGS };
+      const saveSettings = vi.fn();
+      const onFormatterChange = vi.fn();
+      initToolbar(settings, { saveSettings, onFormatterChange });
+      setCurrentLanguage("javascript");
+      document.body.appendChild(createToolbar());
+      setFormatterOptions(options);
+
+      const select = getSelect();
+      select.value = "js-beautify";
+      select.dispatchEvent(new Event("change"));
+
+      expect(settings.formatterByLanguage).toEqual({
+        javascript: "js-beautify",
+      });
+      expect(saveSettings).toHaveBeenCalledWith(["formatterByLanguage"]);
+      expect(onFormatterChange).toHaveBeenCalledWith("js-beautify");
+    });
+  });
+
+  describe("diff controls", () => {
+    const getButton = () =>
+      document.getElementById("code-formatter-toolbar-button-diff")!;
+    const getControls = () =>
+      document.querySelector<HTMLElement>(
+        ".code-formatter-toolbar__diff-controls",
+      )!;
+
+    it("should open the diff in the selected layout", async () => {
+      const onDiffModeChange = vi.fn().mockResolvedValue(undefined);
+      initToolbar({ ...DEFAULT_SETTINGS }, { onDiffModeChange });
+      document.body.appendChild(createToolbar());
+
+      expect(getControls().style.display).toBe("none");
+
+      getButton().click();
+      await vi.waitFor(() => expect(getControls().style.display).toBe("flex"));
+      expect(onDiffModeChange).toHaveBeenCalledWith("split");
+      expect(getButton().classList).toContain("active");
+    });
+
+    it("should close the diff on a second click", async () => {
+      const onDiffModeChange = vi.fn().mockResolvedValue(undefined);
+      initToolbar({ ...DEFAULT_SETTINGS }, { onDiffModeChange });
+      document.body.appendChild(createToolbar());
+
+      getButton().click();
+      await vi.waitFor(() => expect(getButton().classList).toContain("active"));
+      getButton().click();
+      await vi.waitFor(() => expect(getControls().style.display).toBe("none"));
+      expect(onDiffModeChange).toHaveBeenLastCalledWith(null);
+    });
+  });
+
+  describe("language alternatives", () => {
+    const candidates = [
+      { language: "go", confidence: 0.6, score: 9, reasons: ["2 keywords"] },
+      { language: "swift", confidence: 0.35, score: 5, reasons: ["func"] },
+      { language: "rust", confidence: 0.05, score: 1, reasons: ["fn"] },
+    ];
+
+    const getButtons = () =>
+      Array.from(
+        document.querySelectorAll<HTMLButtonElement>(
+          "#code-formatter-toolbar-language-alternatives button",
+        ),
+      );
+
+    it("should offer the likely languages other than the current one", () => {
+      const onLanguageChange = vi.fn().mockResolvedValue(undefined);
+      initToolbar({ ...DEFAULT_SETTINGS }, { onLanguageChange });
+      document.body.appendChild(createToolbar());
+      setCurrentLanguage("go");
+      setLanguageCandidates(candidates);
+
+      expect(getButtons().map((b) => b.textContent)).toEqual(["Swift 35%"]);
+
+      getButtons()[0].click();
+      expect(onLanguageChange).toHaveBeenCalledWith("swift");
+    });
+
+    it("should offer the detected language once another is chosen", () => {
+      initToolbar({ ...DEFAULT_SETTINGS }, {});
+      document.body.appendChild(createToolbar());
+      setLanguageCandidates(candidates);
+      setCurrentLanguage("swift");
+
+      expect(getButtons().map((b) => b.dataset.language)).toEqual(["go"]);
+    });
+  });
+
+  describe("language picker", () => {
+    const getSelect = () =>
+      document.getElementById(
+        "code-formatter-toolbar-button-language",
+      ) as HTMLSelectElement;
+
+    it("should show the current language and report a new choice", async () => {
+      const onLanguageChange = vi.fn().mockResolvedValue(undefined);
+      initToolbar({ ...DEFAULT_SETTINGS }, { onLanguageChange });
+      document.body.appendChild(createToolbar());
+      setCurrentLanguage("yaml");
+      expect(getSelect().value).toBe("yaml");
+
+      getSelect().value = "toml";
+      getSelect().dispatchEvent(new Event("change"));
+      expect(onLanguageChange).toHaveBeenCalledWith("toml");
+      // Stays on the current language until the switch is done
+      expect(getSelect().value).toBe("yaml");
+
+      getSelect().value = "";
+      getSelect().dispatchEvent(new Event("change"));
+      expect(onLanguageChange).toHaveBeenLastCalledWith(null);
+    });
+
+    it("should list a detected language the editor does not know", () => {
+      initToolbar({ ...DEFAULT_SETTINGS }, {});
+      document.body.appendChild(createToolbar());
+      setCurrentLanguage("kotlin");
+
+      expect(getSelect().value).toBe("kotlin");
+      expect(getSelect().options[0].textContent).toBe("Auto-detect");
+    });
+
+    it("should focus the picker when opened", () => {
+      initToolbar({ ...DEFAULT_SETTINGS }, {});
+      document.body.appendChild(createToolbar());
+      openLanguagePicker();
+
+      expect(document.activeElement).toBe(getSelect());
+    });
+  });
+
+  describe("edit mode", () => {
+    const getButton = (id: string) =>
+      document.getElementById(id) as HTMLButtonElement;
+
+    it("should toggle editing and report it", () => {
+      const onEditModeChange = vi.fn();
+      initToolbar({ ...DEFAULT_SETTINGS }, { onEditModeChange });
+      document.body.appendChild(createToolbar());
+      const editBtn = getButton("code-formatter-toolbar-button-edit");
+
+      editBtn.click();
+      expect(onEditModeChange).toHaveBeenLastCalledWith(true);
+      expect(editBtn.classList.contains("active")).toBe(true);
+
+      editBtn.click();
+      expect(onEditModeChange).toHaveBeenLastCalledWith(false);
+      expect(editBtn.classList.contains("active")).toBe(false);
+    });
+
+    it("should only offer reverting a modified document", () => {
+      const onRevert = vi.fn();
+      initToolbar({ ...DEFAULT_SETTINGS }, { onRevert });
+      document.body.appendChild(createToolbar());
+      const revertBtn = getButton("code-formatter-toolbar-button-revert");
+      expect(revertBtn.style.display).toBe("none");
+
+      setDocumentDirty(true);
+      expect(revertBtn.style.display).toBe("");
+      revertBtn.click();
+      expect(onRevert).toHaveBeenCalledTimes(1);
+
+      setDocumentDirty(false);
+      expect(revertBtn.style.display).toBe("none");
+    });
+  });
 });
@@ -6,62 +6,60 @@ import {
   CSS_CLASSES,
   AVAILABLE_THEMES,
   EXTENSIONS_BY_LANGUAGE,
+  DATA_FORMATS,
+  LANGUAGE_LABELS,
 } from "../shared/constants";
-import type { ExtensionSettings, ThemeName } from "../shared/types";
+import type {
+  DataFormat,
+  ExtensionSettings,
+  FormatterOption,
+  ThemeName,
+} from "../shared/types";
 import {
   searchHighlightEffect,
   searchMatchDecoration,
   searchMatchSelectedDecoration,
 } from "./search-highlight";
+import { getHunkPosition, goToNextHunk, goToPreviousHunk } from "./diff-view";
+import type { DiffMode, LanguageCandidate } from "./types";
+import type { JsonTool } from "../formatters/json-tools";
+import { sanitizeSvg } from "./sanitize";
+import { getLanguageLabel, isDataFormat } from "../shared/utils";
 
-const DANGEROUS_SVG_ELEMENTS = [
-  "script",
-  "foreignObject",
-  "iframe",
-  "object",
-  "embed",
-  "use",
-  "animate",
-  "set",
-];
-
-const DANGEROUS_SVG_ATTRS = [
-  "onload",
-  "onclick",
-  "onerror",
-  "onmouseover",
-  "onfocus",
-  "onblur",
-  "onchange",
-  "onsubmit",
-  "onkeydown",
-  "onkeyup",
-  "onkeypress",
-  "onanimationstart",
-  "onanimationend",
-  "onanimationiteration",
-  "ontransitionend",
-  "href",
-  "xlink:href",
-  "ping",
-  "formaction",
-  "poster",
-  "src",
-  "data",
-  "xmlns:xlink",
-];
-
-const DANGEROUS_URL_PROTOCOLS = ["javascript:", "data:", "vbscript:", "file:"];
+export { sanitizeSvg };
 
 let currentSettings: ExtensionSettings;
 let editorInstance: EditorView | null = null;
 let currentLanguage = "";
-
-type SaveSettingsCallback = () => void;
+let formatterSelectElement: HTMLSelectElement | null = null;
+let jsonToolsButton: HTMLButtonElement | null = null;
+let jsonToolsControls: HTMLElement | null = null;
+let treeButton: HTMLButtonElement | null = null;
+let convertSelectElement: HTMLSelectElement | null = null;
+let previewButton: HTMLButtonElement | null = null;
+let languageSelectElement: HTMLSelectElement | null = null;
+let alternativesElement: HTMLElement | null = null;
+let revertButton: HTMLButtonElement | null = null;
+let languageCandidates: LanguageCandidate[] = [];
+
+// Alternatives to the detected language offered in the toolbar
+const MAX_LANGUAGE_ALTERNATIVES = 2;
+const MIN_ALTERNATIVE_CONFIDENCE = 0.1;
+
+// Called with the settings that changed
+type SaveSettingsCallback = (keys: (keyof ExtensionSettings)[]) => void;
 type ApplyThemeCallback = () => void;
 type ToggleOriginalCallback = () => void;
 type OpenFileDialogCallback = () => void;
 type GetCodeCallback = () => string;
+type FormatterChangeCallback = (formatterId: string) => void;
+type DiffModeChangeCallback = (mode: DiffMode | null) => Promise<void>;
+type JsonToolCallback = (tool: JsonTool, query?: string) => Promise<void>;
+type TreeViewChangeCallback = (open: boolean) => boolean;
+type ConvertCallback = (target: DataFormat) => Promise<void>;
+type PreviewChangeCallback = (open: boolean) => boolean;
+// Called with null when the user asks for detection again
+type LanguageChangeCallback = (language: string | null) => Promise<void>;
 
 let onSaveSettings: SaveSettingsCallback | null = null;
 let onApplyTheme: ApplyThemeCallback | null = null;
@@ -69,6 +67,16 @@ let onToggleOriginal: ToggleOriginalCallback | null = null;
 let onOpenFileDialog: OpenFileDialogCallback | null = null;
 let onGetCode: GetCodeCallback | null = null;
 let onDownload: ((code: string, language: string) => void) | null = null;
+let onFormatterChange: FormatterChangeCallback | null = null;
+let onDiffModeChange: DiffModeChangeCallback | null = null;
+let onJsonTool: JsonToolCallback | null = null;
+let onClearJsonQuery: (() => void) | null = null;
+let onTreeViewChange: TreeViewChangeCallback | null = null;
+let onConvert: ConvertCallback | null = null;
+let onPreviewChange: PreviewChangeCallback | null = null;
+let onLanguageChange: LanguageChangeCallback | null = null;
+let onEditModeChange: ((editing: boolean) => void) | null = null;
+let onRevert: (() => void) | null = null;
 
 export function initToolbar(
   settings: ExtensionSettings,
@@ -79,6 +87,16 @@ export function initToolbar(
     openFileDialog?: OpenFileDialogCallback;
     getCode?: GetCodeCallback;
     onDownload?: (code: string, language: string) => void;
+    onFormatterChange?: FormatterChangeCallback;
+    onDiffModeChange?: DiffModeChangeCallback;
+    onJsonTool?: JsonToolCallback;
+    onClearJsonQuery?: () => void;
+    onTreeViewChange?: TreeViewChangeCallback;
+    onConvert?: ConvertCallback;
+    onPreviewChange?: PreviewChangeCallback;
+    onLanguageChange?: LanguageChangeCallback;
+    onEditModeChange?: (editing: boolean) => void;
+    onRevert?: () => void;
   },
 ): void {
   currentSettings = settings;
@@ -88,6 +106,16 @@ export function initToolbar(
   onOpenFileDialog = callbacks.openFileDialog ?? null;
   onGetCode = callbacks.getCode ?? null;
   onDownload = callbacks.onDownload ?? null;
+  onFormatterChange = callbacks.onFormatterChange ?? null;
+  onDiffModeChange = callbacks.onDiffModeChange ?? null;
+  onJsonTool = callbacks.onJsonTool ?? null;
+  onClearJsonQuery = callbacks.onClearJsonQuery ?? null;
+  onTreeViewChange = callbacks.onTreeViewChange ?? null;
+  onConvert = callbacks.onConvert ?? null;
+  onPreviewChange = callbacks.onPreviewChange ?? null;
+  onLanguageChange = callbacks.onLanguageChange ?? null;
+  onEditModeChange = callbacks.onEditModeChange ?? null;
+  onRevert = callbacks.onRevert ?? null;
 }
 
 export function setEditorInstance(editor: EditorView | null): void {
@@ -96,62 +124,188 @@ export function setEditorInstance(editor: EditorView | null): void {
 
 export function setCurrentLanguage(language: string): void {
   currentLanguage = language;
+  updateJsonToolsVisibility();
+  updateConvertOptions();
+  updatePreviewVisibility();
+  updateLanguageOptions();
+  updateLanguageAlternatives();
 }
 
-function isDangerousUrl(value: string): boolean {
-  const lower = value.toLowerCase().trim();
-  return DANGEROUS_URL_PROTOCOLS.some((proto) => lower.startsWith(proto));
+/**
+ * List every language the editor knows, plus the current one when it is
+ * only known to detection, with an entry going back to detection
+ */
+function updateLanguageOptions(): void {
+  const select = languageSelectElement;
+  if (!select) return;
+
+  const languages = Object.keys(LANGUAGE_LABELS);
+  if (currentLanguage && !languages.includes(currentLanguage)) {
+    languages.push(currentLanguage);
+  }
+
+  const auto = document.createElement("option");
+  auto.value = "";
+  auto.textContent = "Auto-detect";
+  auto.title = "Forget the language chosen for this kind of page";
+
+  select.textContent = "";
+  select.appendChild(auto);
+  languages
+    .sort((a, b) => getLanguageLabel(a).localeCompare(getLanguageLabel(b)))
+    .forEach((language) => {
+      const opt = document.createElement("option");
+      opt.value = language;
+      opt.textContent = getLanguageLabel(language);
+      select.appendChild(opt);
+    });
+  select.value = currentLanguage;
 }
 
-export function sanitizeSvg(svgElement: SVGElement): SVGElement {
-  for (const tagName of DANGEROUS_SVG_ELEMENTS) {
-    const elements = svgElement.querySelectorAll(tagName);
-    elements.forEach((el) => el.remove());
+/**
+ * Open the language picker, e.g. from the status bar
+ */
+export function openLanguagePicker(): void {
+  const select = languageSelectElement as
+    (HTMLSelectElement & { showPicker?: () => void }) | null;
+  if (!select) return;
+
+  select.focus();
+  try {
+    select.showPicker?.();
+  } catch {
+    /* needs a user gesture, the focused picker opens from the keyboard */
   }
+}
 
-  const allElements = svgElement.querySelectorAll("*");
-  allElements.forEach((el) => {
-    const elAttrs = Array.from(el.attributes);
-    for (const attr of elAttrs) {
-      if (DANGEROUS_SVG_ATTRS.includes(attr.name.toLowerCase())) {
-        el.removeAttribute(attr.name);
-        continue;
-      }
-      if (attr.name.toLowerCase().startsWith("on")) {
-        el.removeAttribute(attr.name);
-        continue;
-      }
-      if (
-        ["href", "src", "xlink:href", "data", "poster", "formaction"].includes(
-          attr.name.toLowerCase(),
-        ) &&
-        isDangerousUrl(attr.value)
-      ) {
-        el.removeAttribute(attr.name);
-      }
-    }
+/**
+ * Offer the languages detection ranked next to the current one
+ */
+export function setLanguageCandidates(candidates: LanguageCandidate[]): void {
+  languageCandidates = candidates;
+  updateLanguageAlternatives();
+}
+
+function updateLanguageAlternatives(): void {
+  const container = alternativesElement;
+  if (!container) return;
+
+  const alternatives = languageCandidates
+    .filter(
+      (c) =>
+        c.language !== currentLanguage &&
+        c.confidence >= MIN_ALTERNATIVE_CONFIDENCE,
+    )
+    .slice(0, MAX_LANGUAGE_ALTERNATIVES);
+
+  container.textContent = "";
+  container.style.display = alternatives.length ? "flex" : "none";
+
+  alternatives.forEach(({ language, confidence, reasons }) => {
+    const label = getLanguageLabel(language);
+    const percent = Math.round(confidence * 100);
+    const btn = createTextButton(
+      `Switch to ${label} (${percent}% likely: ${reasons.join(", ")})`,
+      `${label} ${percent}%`,
+    );
+    btn.dataset.language = language;
+    btn.addEventListener("click", () => onLanguageChange?.(language));
+    container.appendChild(btn);
   });
+}
 
-  const rootAttrs = Array.from(svgElement.attributes);
-  for (const attr of rootAttrs) {
-    if (DANGEROUS_SVG_ATTRS.includes(attr.name.toLowerCase())) {
-      svgElement.removeAttribute(attr.name);
-      continue;
-    }
-    if (attr.name.toLowerCase().startsWith("on")) {
-      svgElement.removeAttribute(attr.name);
-      continue;
-    }
-    if (
-      ["href", "src", "xlink:href"].includes(attr.name.toLowerCase()) &&
-      isDangerousUrl(attr.value)
-    ) {
-      svgElement.removeAttribute(attr.name);
-    }
+/**
+ * Revert is only offered while the document has unsaved edits
+ */
+export function setDocumentDirty(dirty: boolean): void {
+  if (revertButton) revertButton.style.display = dirty ? "" : "none";
+}
+
+/**
+ * The preview is only offered for Markdown documents
+ */
+function updatePreviewVisibility(): void {
+  const isMarkdown = currentLanguage === "markdown";
+  if (previewButton) previewButton.style.display = isMarkdown ? "" : "none";
+  if (previewButton?.classList.contains("active") && !isMarkdown) {
+    onPreviewChange?.(false);
+    previewButton.classList.remove("active");
+  }
+}
+
+/**
+ * Offer conversion to the data formats other than the current one, and
+ * hide the picker for languages that cannot be converted
+ */
+function updateConvertOptions(): void {
+  const select = convertSelectElement;
+  if (!select) return;
+
+  select.textContent = "";
+  if (!isDataFormat(currentLanguage)) {
+    select.style.display = "none";
+    return;
+  }
+
+  const placeholder = document.createElement("option");
+  placeholder.value = "";
+  placeholder.textContent = "Convert to…";
+  select.appendChild(placeholder);
+
+  DATA_FORMATS.filter((format) => format !== currentLanguage).forEach(
+    (format) => {
+      const opt = document.createElement("option");
+      opt.value = format;
+      opt.textContent = format.toUpperCase();
+      select.appendChild(opt);
+    },
+  );
+  select.style.display = "";
+}
+
+/**
+ * The JSON tools and tree view are only offered for JSON documents
+ */
+function updateJsonToolsVisibility(): void {
+  const isJson = currentLanguage === "json";
+  if (jsonToolsButton) jsonToolsButton.style.display = isJson ? "" : "none";
+  if (treeButton) treeButton.style.display = isJson ? "" : "none";
+  if (jsonToolsControls && !isJson) {
+    jsonToolsControls.style.display = "none";
+    jsonToolsButton?.classList.remove("active");
+  }
+  if (treeButton?.classList.contains("active") && !isJson) {
+    onTreeViewChange?.(false);
+    treeButton.classList.remove("active");
   }
+}
+
+/**
+ * Fill the formatter engine picker with the candidates for the current
+ * language. The picker is hidden when there is nothing to choose between.
+ */
+export function setFormatterOptions(options: FormatterOption[]): void {
+  const select = formatterSelectElement;
+  if (!select) return;
+
+  select.textContent = "";
+  if (options.length < 2) {
+    select.style.display = "none";
+    return;
+  }
+
+  const selectedId =
+    currentSettings.formatterByLanguage?.[currentLanguage] ?? options[0].id;
 
-  svgElement.removeAttribute("xmlns:xlink");
-  return svgElement;
+  options.forEach((option) => {
+    const opt = document.createElement("option");
+    opt.value = option.id;
+    opt.textContent = option.name;
+    opt.title = option.description;
+    if (option.id === selectedId) opt.selected = true;
+    select.appendChild(opt);
+  });
+  select.style.display = "";
 }
 
 export function createToolbarButton(
@@ -399,6 +553,144 @@ function createSearchBar(
   return bar;
 }
 
+function updateDiffCounter(controls: HTMLElement): void {
+  const counter = controls.querySelector(`.${CSS_CLASSES.TOOLBAR_DIFF_COUNT}`);
+  if (!counter) return;
+
+  const { current, total } = getHunkPosition();
+  if (total === 0) {
+    counter.textContent = "No changes";
+  } else if (current > 0) {
+    counter.textContent = `${current} of ${total}`;
+  } else {
+    counter.textContent = `${total} ${total === 1 ? "change" : "changes"}`;
+  }
+}
+
+/**
+ * Diff view controls: layout picker, hunk navigation and a hunk counter.
+ * Hidden until the diff view is opened.
+ */
+function createDiffControls(): HTMLElement {
+  const controls = document.createElement("div");
+  controls.className = CSS_CLASSES.TOOLBAR_DIFF_CONTROLS;
+  controls.style.display = "none";
+
+  const modeSel = document.createElement("select");
+  modeSel.id = ELEMENT_IDS.BUTTON_DIFF_MODE;
+  modeSel.className = CSS_CLASSES.TOOLBAR_SELECT;
+  modeSel.title = "Diff layout";
+  const modes: { value: DiffMode; label: string }[] = [
+    { value: "split", label: "Side by side" },
+    { value: "inline", label: "Inline" },
+  ];
+  modes.forEach((m) => {
+    const opt = document.createElement("option");
+    opt.value = m.value;
+    opt.textContent = m.label;
+    modeSel.appendChild(opt);
+  });
+
+  const prevBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_DIFF_PREV,
+    "Previous Change",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="18 15 12 9 6 15"></polyline></svg>',
+  );
+  const nextBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_DIFF_NEXT,
+    "Next Change",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="6 9 12 15 18 9"></polyline></svg>',
+  );
+
+  const counter = document.createElement("span");
+  counter.className = CSS_CLASSES.TOOLBAR_DIFF_COUNT;
+
+  modeSel.addEventListener("change", async () => {
+    await onDiffModeChange?.(modeSel.value as DiffMode);
+    updateDiffCounter(controls);
+  });
+  prevBtn.addEventListener("click", () => {
+    goToPreviousHunk();
+    updateDiffCounter(controls);
+  });
+  nextBtn.addEventListener("click", () => {
+    goToNextHunk();
+    updateDiffCounter(controls);
+  });
+
+  controls.appendChild(modeSel);
+  controls.appendChild(prevBtn);
+  controls.appendChild(nextBtn);
+  controls.appendChild(counter);
+
+  return controls;
+}
+
+function createTextButton(title: string, text: string): HTMLButtonElement {
+  const btn = document.createElement("button");
+  btn.className = CSS_CLASSES.TOOLBAR_BUTTON;
+  btn.title = title;
+  btn.textContent = text;
+  return btn;
+}
+
+/**
+ * JSON tool controls: one button per transformation and a JSONPath query
+ * box that replaces the view with the matching nodes until it is cleared.
+ * Hidden until the JSON tools button is toggled.
+ */
+function createJsonToolsControls(): HTMLElement {
+  const controls = document.createElement("div");
+  controls.className = CSS_CLASSES.TOOLBAR_JSON_TOOLS;
+  controls.style.display = "none";
+
+  const tools: { tool: JsonTool; title: string; text: string }[] = [
+    { tool: "sortKeys", title: "Sort keys recursively", text: "Sort" },
+    { tool: "minify", title: "Minify", text: "Minify" },
+    {
+      tool: "toggleEscape",
+      title: "Escape as a JSON string, or unescape one",
+      text: "Escape",
+    },
+    { tool: "toJson5", title: "Convert to JSON5", text: "To JSON5" },
+    { tool: "fromJson5", title: "Convert JSON5 to JSON", text: "To JSON" },
+  ];
+  tools.forEach(({ tool, title, text }) => {
+    const btn = createTextButton(title, text);
+    btn.addEventListener("click", () => onJsonTool?.(tool));
+    controls.appendChild(btn);
+  });
+
+  const query = document.createElement("input");
+  query.id = ELEMENT_IDS.JSON_QUERY_INPUT;
+  query.type = "text";
+  query.className = CSS_CLASSES.TOOLBAR_JSON_QUERY;
+  query.placeholder = "$.items[*].name";
+  query.title = "JSONPath or jq-style query (Enter to run, Esc to clear)";
+
+  const clearBtn = createTextButton("Show the whole document", "Clear");
+  const clearQuery = () => {
+    query.value = "";
+    onClearJsonQuery?.();
+  };
+
+  query.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (query.value.trim()) onJsonTool?.("query", query.value);
+      else clearQuery();
+    } else if (e.key === "Escape") {
+      clearQuery();
+    }
+  });
+  clearBtn.addEventListener("click", clearQuery);
+
+  controls.appendChild(query);
+  controls.appendChild(clearBtn);
+
+  return controls;
+}
+
 export function createToolbar(): HTMLElement {
   const toolbar = document.createElement("div");
   toolbar.id = ELEMENT_IDS.TOOLBAR;
@@ -430,9 +722,51 @@ export function createToolbar(): HTMLElement {
     const target = e.target as HTMLSelectElement;
     currentSettings.theme = target.value as ThemeName;
     onApplyTheme?.();
-    onSaveSettings?.();
+    onSaveSettings?.(["theme"]);
   });
   toolbar.appendChild(themeSel);
+
+  // Language selector, populated by updateLanguageOptions
+  const languageSel = document.createElement("select");
+  languageSel.id = ELEMENT_IDS.BUTTON_LANGUAGE;
+  languageSel.className = CSS_CLASSES.TOOLBAR_SELECT;
+  languageSel.title = "Language";
+  languageSel.addEventListener("change", async () => {
+    const language = languageSel.value || null;
+    // Keep showing the current language until the switch is done
+    languageSel.value = currentLanguage;
+    await onLanguageChange?.(language);
+  });
+  languageSelectElement = languageSel;
+  updateLanguageOptions();
+  toolbar.appendChild(languageSel);
+
+  // Formatter engine selector, populated by setFormatterOptions
+  const formatterSel = document.createElement("select");
+  formatterSel.id = ELEMENT_IDS.BUTTON_FORMATTER;
+  formatterSel.className = CSS_CLASSES.TOOLBAR_SELECT;
+  formatterSel.title = "Formatter engine";
+  formatterSel.style.display = "none";
+  formatterSel.addEventListener("change", (e: Event) => {
+    const target = e.target as HTMLSelectElement;
+    currentSettings.formatterByLanguage = {
+      ...currentSettings.formatterByLanguage,
+      [currentLanguage]: target.value,
+    };
+    onSaveSettings?.(["formatterByLanguage"]);
+    onFormatterChange?.(target.value);
+  });
+  formatterSelectElement = formatterSel;
+  toolbar.appendChild(formatterSel);
+
+  // Other likely languages, populated by setLanguageCandidates
+  const alternatives = document.createElement("div");
+  alternatives.id = ELEMENT_IDS.LANGUAGE_ALTERNATIVES;
+  alternatives.className = CSS_CLASSES.TOOLBAR_ALTERNATIVES;
+  alternatives.title = "Other likely languages";
+  alternativesElement = alternatives;
+  updateLanguageAlternatives();
+  toolbar.appendChild(alternatives);
   toolbar.appendChild(createSeparator());
 
   // Collapse button
@@ -464,12 +798,167 @@ export function createToolbar(): HTMLElement {
     '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 19l7-7 3 3-7 7-3-3z"></path><path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z"></path><circle cx="11" cy="11" r="2"></circle></svg>',
     "Original",
   );
-  toggleOriginalBtn.addEventListener("click", () => {
+  toggleOriginalBtn.addEventListener("click", async () => {
+    if (diffBtn.classList.contains("active")) await closeDiff();
+    closeTree();
+    closePreview();
     onToggleOriginal?.();
     toggleOriginalBtn.classList.toggle("active", true);
   });
   toolbar.appendChild(toggleOriginalBtn);
 
+  // Edit button, makes the document editable with undo and redo
+  const editBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_EDIT,
+    "Edit Document",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M17 3a2.83 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"></path></svg>',
+    "Edit",
+  );
+  editBtn.classList.toggle(
+    "active",
+    editorInstance?.state.facet(EditorView.editable) ?? false,
+  );
+  editBtn.addEventListener("click", async () => {
+    const editing = !editBtn.classList.contains("active");
+    if (editing) {
+      if (diffBtn.classList.contains("active")) await closeDiff();
+      closeTree();
+    }
+    onEditModeChange?.(editing);
+    editBtn.classList.toggle("active", editing);
+  });
+  toolbar.appendChild(editBtn);
+
+  // Revert button, brings back the document as it was loaded or saved
+  const revertBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_REVERT,
+    "Revert Edits",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="1 4 1 10 7 10"></polyline><path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path></svg>',
+    "Revert",
+  );
+  revertBtn.style.display = "none";
+  revertBtn.addEventListener("click", () => onRevert?.());
+  revertButton = revertBtn;
+  toolbar.appendChild(revertBtn);
+
+  // Tree view button, shows JSON as a collapsible tree
+  const treeBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_TREE,
+    "Show as Tree",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="3" y="3" width="6" height="5" rx="1"></rect><rect x="15" y="10" width="6" height="5" rx="1"></rect><rect x="15" y="17" width="6" height="5" rx="1"></rect><path d="M6 8v11h9M6 12.5h9"></path></svg>',
+    "Tree",
+  );
+
+  const closeTree = () => {
+    if (!treeBtn.classList.contains("active")) return;
+    onTreeViewChange?.(false);
+    treeBtn.classList.remove("active");
+  };
+
+  treeBtn.addEventListener("click", async () => {
+    if (treeBtn.classList.contains("active")) {
+      closeTree();
+      return;
+    }
+    if (diffBtn.classList.contains("active")) await closeDiff();
+    if (onTreeViewChange?.(true)) treeBtn.classList.add("active");
+  });
+  treeButton = treeBtn;
+  toolbar.appendChild(treeBtn);
+
+  // Preview button, renders Markdown next to its source
+  const previewBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_PREVIEW,
+    "Show Markdown Preview",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path><circle cx="12" cy="12" r="3"></circle></svg>',
+    "Preview",
+  );
+
+  const closePreview = () => {
+    if (!previewBtn.classList.contains("active")) return;
+    onPreviewChange?.(false);
+    previewBtn.classList.remove("active");
+  };
+
+  previewBtn.addEventListener("click", async () => {
+    if (previewBtn.classList.contains("active")) {
+      closePreview();
+      return;
+    }
+    if (diffBtn.classList.contains("active")) await closeDiff();
+    if (onPreviewChange?.(true)) previewBtn.classList.add("active");
+  });
+  previewButton = previewBtn;
+  updatePreviewVisibility();
+  toolbar.appendChild(previewBtn);
+
+  // Diff button, compares the original with the formatted code
+  const diffBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_DIFF,
+    "Compare Original and Formatted",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="3" y="3" width="7" height="18" rx="1"></rect><rect x="14" y="3" width="7" height="18" rx="1"></rect></svg>',
+    "Diff",
+  );
+  const diffControls = createDiffControls();
+
+  const closeDiff = async () => {
+    await onDiffModeChange?.(null);
+    diffBtn.classList.remove("active");
+    diffControls.style.display = "none";
+  };
+
+  diffBtn.addEventListener("click", async () => {
+    if (diffBtn.classList.contains("active")) {
+      await closeDiff();
+      return;
+    }
+    closeTree();
+    closePreview();
+    const modeSel = diffControls.querySelector("select");
+    await onDiffModeChange?.((modeSel?.value as DiffMode) ?? "split");
+    diffBtn.classList.add("active");
+    diffControls.style.display = "flex";
+    updateDiffCounter(diffControls);
+  });
+  toolbar.appendChild(diffBtn);
+  toolbar.appendChild(diffControls);
+
+  // JSON tools button, shows the JSON tool controls
+  const jsonBtn = createToolbarButton(
+    ELEMENT_IDS.BUTTON_JSON_TOOLS,
+    "JSON Tools",
+    '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M8 3H7a2 2 0 0 0-2 2v5a2 2 0 0 1-2 2 2 2 0 0 1 2 2v5a2 2 0 0 0 2 2h1"></path><path d="M16 21h1a2 2 0 0 0 2-2v-5a2 2 0 0 1 2-2 2 2 0 0 1-2-2V5a2 2 0 0 0-2-2h-1"></path></svg>',
+    "JSON",
+  );
+  const jsonControls = createJsonToolsControls();
+  jsonBtn.addEventListener("click", () => {
+    const isOpen = jsonBtn.classList.toggle("active");
+    jsonControls.style.display = isOpen ? "flex" : "none";
+    if (isOpen) jsonControls.querySelector("input")?.focus();
+  });
+  jsonToolsButton = jsonBtn;
+  jsonToolsControls = jsonControls;
+  updateJsonToolsVisibility();
+  toolbar.appendChild(jsonBtn);
+  toolbar.appendChild(jsonControls);
+
+  // Conversion picker, populated by updateConvertOptions
+  const convertSel = document.createElement("select");
+  convertSel.id = ELEMENT_IDS.BUTTON_CONVERT;
+  convertSel.className = CSS_CLASSES.TOOLBAR_SELECT;
+  convertSel.title = "Convert to another format";
+  convertSel.addEventListener("change", async () => {
+    const target = convertSel.value;
+    convertSel.value = "";
+    if (!isDataFormat(target)) return;
+    closeTree();
+    if (diffBtn.classList.contains("active")) await closeDiff();
+    await onConvert?.(target);
+  });
+  convertSelectElement = convertSel;
+  updateConvertOptions();
+  toolbar.appendChild(convertSel);
+
   toolbar.appendChild(createSeparator());
 
   // Search button
@@ -523,7 +1012,7 @@ export function createToolbar(): HTMLElement {
   // Download button
   const downloadBtn = createToolbarButton(
     ELEMENT_IDS.BUTTON_DOWNLOAD,
-    "Download",
+    "Download (Ctrl+S)",
     '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>',
     "Download",
   );
@@ -34,10 +34,23 @@ export interface LanguagePattern {
   weight: number;
 }
 
+/** A language the content may be in, with the evidence for it */
+export interface LanguageCandidate {
+  language: string;
+  /** Share of all the evidence found, 0 to 1 */
+  confidence: number;
+  score: number;
+  /** What the score is made of, e.g. "extension .go" or "12 keywords" */
+  reasons: string[];
+}
+
 export interface DetectionResult {
   language: string | null;
   confidence: number;
+  /** Reasons of the detected language */
   patterns: string[];
+  /** Every language with some evidence, most likely first */
+  candidates: LanguageCandidate[];
 }
 
 export interface FileInfo {
@@ -72,3 +85,41 @@ export interface StatusBarInfo {
 }
 
 export type EventListenerCleanup = () => void;
+
+/** Formatting settings discovered from the files of the viewed project */
+export interface ProjectConfig {
+  settings: Partial<ExtensionSettings>;
+  /** URLs of the config files that were applied, outermost first */
+  sources: string[];
+}
+
+/** Layout of the diff view: side by side or one unified column */
+export type DiffMode = "split" | "inline";
+
+/** The user's selection on the page, captured before it is formatted */
+export interface PageSelection {
+  text: string;
+  /**
+   * Replace the selection with new text, returning whether it worked.
+   * Null when the selection is read-only.
+   */
+  replace: ((text: string) => boolean) | null;
+}
+
+/** Part of a large source that is formatted on its own */
+export interface CodeChunk {
+  /** Range of the original source the formatted chunk replaces */
+  from: number;
+  to: number;
+  /** Source sent to the formatter */
+  code: string;
+}
+
+/** How a large source is split up and put back together */
+export interface ChunkPlan {
+  /** Language the chunks are formatted as */
+  language: string;
+  chunks: CodeChunk[];
+  /** Turn a formatted chunk into the text that replaces its range */
+  assemble: (formatted: string, index: number) => string;
+}
@@ -0,0 +1,23 @@
+/**
+ * Code Formatter Extension - Format Worker
+ *
+ * Runs the formatting jobs the background script's FormatWorkerPool posts,
+ * so formatters never block the background page and can be terminated.
+ */
+
+import {
+  executeFormatJob,
+  type FormatWorkerRequest,
+  type FormatWorkerResponse,
+} from "./formatters/worker-pool";
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (event: MessageEvent<FormatWorkerRequest>) => {
+  const { id, job } = event.data;
+  const response: FormatWorkerResponse = {
+    id,
+    result: await executeFormatJob(job),
+  };
+  scope.postMessage(response);
+};
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { convertDocument, detectDataFormat } from "./converter";
+import type { DataFormat } from "../shared/types";
+
+describe("detectDataFormat", () => {
+  it("should detect JSON, TOML and YAML documents", () => {
+    expect(detectDataFormat('{"a": 1}')).toBe("json");
+    expect(detectDataFormat('[server]\nhost = "x"\n')).toBe("toml");
+    expect(detectDataFormat("a:\n  - 1\n  - 2\n")).toBe("yaml");
+  });
+
+  it("should not detect plain text", () => {
+    expect(detectDataFormat("just some words")).toBeNull();
+  });
+});
+
+describe("convertDocument", () => {
+  it("should convert JSON to YAML and back", () => {
+    const yaml = convertDocument('{"a": 1, "b": [true, null]}', "yaml");
+    expect(yaml).toMatchObject({ success: true, from: "json" });
+    expect(yaml.code).toBe("a: 1\nb:\n  - true\n  - null\n");
+    expect(yaml.warnings).toBeUndefined();
+
+    const json = convertDocument(yaml.code, "json", "yaml");
+    expect(JSON.parse(json.code)).toEqual({ a: 1, b: [true, null] });
+  });
+
+  it("should convert YAML to TOML", () => {
+    const result = convertDocument(
+      "title: x\nserver:\n  port: 80\n",
+      "toml",
+      "yaml",
+    );
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('title = "x"');
+    expect(result.code).toContain("[server]\nport = 80");
+  });
+
+  it("should indent JSON with the given settings", () => {
+    const result = convertDocument("a: 1\n", "json", "yaml", {
+      indentSize: 4,
+    });
+    expect(result.code).toBe('{\n    "a": 1\n}\n');
+  });
+
+  it("should warn about comments, dates and nulls", () => {
+    const toml = convertDocument(
+      '# settings\nwhen = 2024-01-02T03:04:05Z\nname = "x" # inline\n',
+      "json",
+      "toml",
+    );
+    expect(toml.success).toBe(true);
+    expect(JSON.parse(toml.code).when).toBe("2024-01-02T03:04:05.000Z");
+    expect(toml.warnings).toEqual([
+      "Comments were dropped",
+      "Dates were converted to strings",
+    ]);
+
+    const json = convertDocument('{"a": null, "b": 1}', "toml", "json");
+    expect(json.code).toBe("b = 1\n");
+    expect(json.warnings).toEqual([
+      "TOML has no null: null values were removed",
+    ]);
+  });
+
+  it("should not mistake a hash inside a string for a comment", () => {
+    const result = convertDocument('color: "#fff"\n', "json", "yaml");
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it("should combine multiple YAML documents into an array", () => {
+    const result = convertDocument("a: 1\n---\nb: 2\n", "json", "yaml");
+    expect(JSON.parse(result.code)).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(result.warnings).toEqual([
+      "2 YAML documents were combined into one array",
+    ]);
+  });
+
+  it("should fail on invalid input and on roots TOML cannot hold", () => {
+    const invalid = convertDocument("{a: ", "yaml", "json");
+    expect(invalid.success).toBe(false);
+    expect(invalid.code).toBe("{a: ");
+
+    const array = convertDocument("[1, 2]", "toml", "json");
+    expect(array.success).toBe(false);
+    expect(array.error).toMatch(/table/);
+  });
+
+  it("should refuse to round integers beyond 2^53", () => {
+    const cases: [string, DataFormat][] = [
+      ['{"id": 12345678901234567890}', "json"],
+      ["id: 12345678901234567890\n", "yaml"],
+      ["id = 12345678901234567890\n", "toml"],
+    ];
+    for (const [code, from] of cases) {
+      const result = convertDocument(
+        code,
+        from === "json" ? "yaml" : "json",
+        from,
+      );
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(code);
+    }
+    expect(
+      convertDocument("id: 12345678901234567890\n", "json", "yaml").error,
+    ).toContain("12345678901234567890");
+  });
+
+  it("should keep integers a number can hold", () => {
+    const result = convertDocument(
+      "a: 9007199254740991\nb: 0x1F\n",
+      "json",
+      "yaml",
+    );
+    expect(result.code).toBe('{\n  "a": 9007199254740991,\n  "b": 31\n}\n');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Data format converter
+ * Converts documents between JSON, YAML and TOML by parsing them into
+ * plain values and serializing those in the target format. Whatever the
+ * target cannot represent (comments, dates, nulls, multiple documents) is
+ * reported as a warning rather than silently dropped
+ */
+
+import JSON5 from "json5";
+import YAML from "yaml";
+import {
+  parse as parseToml,
+  stringify as stringifyToml,
+  TomlDate,
+} from "smol-toml";
+import type { FormatResult, FormatterSettings } from "./types";
+import type { DataFormat } from "../shared/types";
+import { getErrorMessage } from "./diagnostics";
+import { getUnsafeIntegerError, parseJson } from "./json-tools";
+
+export interface ConversionResult extends FormatResult {
+  /** Source language, useful when it was detected */
+  from?: DataFormat;
+  /** What the conversion could not carry over */
+  warnings?: string[];
+}
+
+// A "#" comment on its own line or after a value, outside of strings
+const HASH_COMMENT = /^\s*#|^[^"'\n#]*[^\s"'\n#]\s+#/m;
+// A "//" or "/* */" comment in JSON5, outside of strings
+const SLASH_COMMENT = /^[^"'\n]*(?:\/\/|\/\*)/m;
+
+interface ParsedDocument {
+  value: unknown;
+  warnings: string[];
+}
+
+function hasComments(code: string, from: DataFormat): boolean {
+  return from === "json" ? SLASH_COMMENT.test(code) : HASH_COMMENT.test(code);
+}
+
+function parseDocument(code: string, from: DataFormat): ParsedDocument {
+  const warnings: string[] = [];
+
+  if (from === "json") {
+    return { value: parseJson(code), warnings };
+  }
+
+  if (from === "toml") {
+    return { value: parseToml(code), warnings };
+  }
+
+  // Integers are read as bigints, so that toPlainValue can tell the ones
+  // a number would round
+  const documents = YAML.parseAllDocuments(code, { intAsBigInt: true });
+  const docs = Array.isArray(documents) ? documents : [documents];
+  const error = docs.flatMap((doc) => doc.errors)[0];
+  if (error) throw error;
+
+  if (docs.length > 1) {
+    warnings.push(`${docs.length} YAML documents were combined into one array`);
+    return { value: docs.map((doc) => doc.toJS()), warnings };
+  }
+  return { value: docs[0]?.toJS() ?? null, warnings };
+}
+
+/**
+ * Detect whether code is JSON, TOML or YAML by trying their parsers
+ * YAML comes last as nearly any text is a valid YAML scalar
+ */
+export function detectDataFormat(code: string): DataFormat | null {
+  const attempts: [DataFormat, () => unknown][] = [
+    ["json", () => JSON5.parse(code)],
+    ["toml", () => parseToml(code)],
+    ["yaml", () => YAML.parse(code)],
+  ];
+
+  for (const [format, parse] of attempts) {
+    try {
+      const value = parse();
+      if (typeof value === "object" && value !== null) return format;
+    } catch {
+      /* try the next format */
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn TOML dates into strings and drop the nulls TOML cannot hold,
+ * recording each kind of loss once. Integers too large for a number are
+ * refused rather than rounded (TOML's parser refuses them itself)
+ */
+function toPlainValue(
+  value: unknown,
+  to: DataFormat,
+  losses: Set<string>,
+): unknown {
+  if (typeof value === "bigint") {
+    if (!Number.isSafeInteger(Number(value))) {
+      throw getUnsafeIntegerError(String(value));
+    }
+    return Number(value);
+  }
+
+  if (value instanceof TomlDate || value instanceof Date) {
+    losses.add("Dates were converted to strings");
+    return value instanceof TomlDate ? value.toISOString() : value.toJSON();
+  }
+
+  if (Array.isArray(value)) {
+    if (to === "toml" && value.some((item) => item === null)) {
+      losses.add("TOML has no null: null values were removed");
+    }
+    return value
+      .filter((item) => to !== "toml" || item !== null)
+      .map((item) => toPlainValue(item, to, losses));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (to === "toml" && item === null) {
+        losses.add("TOML has no null: null values were removed");
+        continue;
+      }
+      result[key] = toPlainValue(item, to, losses);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function serialize(
+  value: unknown,
+  to: DataFormat,
+  settings?: FormatterSettings,
+): string {
+  const indentSize = settings?.indentSize ?? 2;
+
+  switch (to) {
+    case "json":
+      return JSON.stringify(value, null, settings?.useTabs ? "\t" : indentSize);
+    case "yaml":
+      // YAML cannot be indented with tabs
+      return YAML.stringify(value, { indent: indentSize });
+    case "toml":
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error("Only a table (object) can be converted to TOML");
+      }
+      return stringifyToml(value);
+  }
+}
+
+/**
+ * Convert a document to another data format
+ * @param from - Source format, detected from the code when omitted
+ */
+export function convertDocument(
+  code: string,
+  to: DataFormat,
+  from?: DataFormat,
+  settings?: FormatterSettings,
+): ConversionResult {
+  const source = from ?? detectDataFormat(code);
+  if (!source) {
+    return {
+      success: false,
+      code,
+      error: "The code is not valid JSON, YAML or TOML",
+    };
+  }
+
+  try {
+    const { value, warnings } = parseDocument(code, source);
+    const losses = new Set<string>();
+    if (source !== to && hasComments(code, source)) {
+      losses.add("Comments were dropped");
+    }
+
+    const plain = toPlainValue(value, to, losses);
+    const output = serialize(plain, to, settings).replace(/\n*$/, "\n");
+
+    const allWarnings = [...warnings, ...losses];
+    return {
+      success: true,
+      code: output,
+      from: source,
+      warnings: allWarnings.length ? allWarnings : undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      code,
+      from: source,
+      error: getErrorMessage(error, `Invalid ${source.toUpperCase()}`),
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { getErrorMessage, mapDiagnostics, toDiagnostics } from "./diagnostics";
+import { PrettierFormatter } from "./prettier-formatter";
+
+describe("getErrorMessage", () => {
+  it("should use the message of an Error", () => {
+    expect(getErrorMessage(new Error("boom"), "fallback")).toBe("boom");
+  });
+
+  it("should accept plain string throws", () => {
+    expect(getErrorMessage("bad input", "fallback")).toBe("bad input");
+  });
+
+  it("should use the fallback for anything else", () => {
+    expect(getErrorMessage(undefined, "fallback")).toBe("fallback");
+  });
+});
+
+describe("toDiagnostics", () => {
+  it("should read the location attached by Prettier", () => {
+    const error = Object.assign(new SyntaxError("Unexpected token (2:8)"), {
+      loc: { start: { line: 2, column: 8 } },
+    });
+    expect(toDiagnostics(error, "", "prettier")).toEqual([
+      {
+        message: "Unexpected token (2:8)",
+        line: 2,
+        column: 8,
+        severity: "error",
+        source: "prettier",
+      },
+    ]);
+  });
+
+  it("should parse line and column words", () => {
+    const [diagnostic] = toDiagnostics(
+      "parse error at line 3, column 4\ndid not find expected key",
+      "",
+      "yamlfmt",
+    );
+    expect(diagnostic.line).toBe(3);
+    expect(diagnostic.column).toBe(4);
+    expect(diagnostic.message).toBe("parse error at line 3, column 4");
+  });
+
+  it("should parse a line:column prefix", () => {
+    const [diagnostic] = toDiagnostics(
+      new Error("2:12: expected ')', found newline"),
+      "",
+      "gofmt",
+    );
+    expect(diagnostic.line).toBe(2);
+    expect(diagnostic.column).toBe(12);
+  });
+
+  it("should convert byte offsets into lines and columns", () => {
+    const code = "x = 1\ndef (:\n";
+    const [diagnostic] = toDiagnostics(
+      "Expected an identifier at byte range 10..11",
+      code,
+      "ruff",
+    );
+    expect(diagnostic.line).toBe(2);
+    expect(diagnostic.column).toBe(5);
+  });
+
+  it("should count multi-byte characters when converting offsets", () => {
+    const [diagnostic] = toDiagnostics(
+      "error at byte offset 4",
+      "é = (",
+      "ruff",
+    );
+    expect(diagnostic.line).toBe(1);
+    expect(diagnostic.column).toBe(4);
+  });
+
+  it("should return nothing for errors without a location", () => {
+    expect(toDiagnostics(new Error("WASM failed to load"), "", "ruff")).toEqual(
+      [],
+    );
+  });
+});
+
+describe("mapDiagnostics", () => {
+  const diagnostic = {
+    message: "Unexpected token",
+    line: 2,
+    column: 11,
+    severity: "error" as const,
+    source: "prettier",
+  };
+
+  it("should follow the code when only its whitespace changed", () => {
+    const [mapped] = mapDiagnostics(
+      [diagnostic],
+      "a=1\nif (a) { b(;\n}",
+      "a = 1\nif (a) {\n    b(;\n}",
+    );
+    expect(mapped.line).toBe(3);
+    expect(mapped.column).toBe(6);
+    expect(mapped.message).toBe("Unexpected token");
+  });
+
+  it("should keep positions past the end at the end", () => {
+    const [mapped] = mapDiagnostics([{ ...diagnostic, line: 9 }], "a(", "a(\n");
+    expect(mapped.line).toBe(2);
+    expect(mapped.column).toBe(1);
+  });
+});
+
+describe("PrettierFormatter diagnostics", () => {
+  it("should report where the syntax error is", async () => {
+    const result = await new PrettierFormatter().format(
+      "const a = 1;\nconst b = (;\n",
+      "javascript",
+    );
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics?.[0].line).toBe(2);
+    expect(result.diagnostics?.[0].source).toBe("prettier");
+  });
+});
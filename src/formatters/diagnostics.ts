@@ -0,0 +1,164 @@
+/**
+ * Diagnostics
+ * Turns the errors thrown by formatters into located diagnostics
+ */
+
+import type { FormatDiagnostic } from "./types";
+
+interface ErrorLocation {
+  line: number;
+  column: number;
+}
+
+// "parse error at line 3, column 7" (yamlfmt)
+const LINE_COLUMN_WORDS = /\bline (\d+),? column (\d+)/i;
+// "2:12: expected ')'" (gofmt)
+const LINE_COLUMN_PREFIX = /^(?:[^\s:]+:)?(\d+):(\d+):/;
+// "Unexpected token (2:8)" (Prettier, Babel)
+const LINE_COLUMN_PARENS = /\((\d+):(\d+)\)/;
+const LINE_COLUMN_SUFFIX = /\s*\(\d+:\d+\)$/;
+// "at byte range 6..7" / "at byte offset 6" (Ruff, Rust-based formatters)
+const BYTE_OFFSET = /\bbyte (?:range|offset) (\d+)/i;
+
+/**
+ * Get a readable message from anything a formatter may throw.
+ * WASM formatters often throw plain strings rather than Error objects.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error && error.message) return error.message;
+  if (typeof error === "string" && error) return error;
+  return fallback;
+}
+
+/**
+ * Convert a UTF-8 byte offset into a 1-based line and column
+ */
+function locationFromByteOffset(code: string, offset: number): ErrorLocation {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  let line = 1;
+  let column = 1;
+
+  for (const char of code) {
+    if (bytes >= offset) break;
+    bytes += encoder.encode(char).length;
+    if (char === "\n") {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+
+  return { line, column };
+}
+
+function findLocation(
+  error: unknown,
+  message: string,
+  code: string,
+): ErrorLocation | null {
+  // Prettier attaches the position to the error itself
+  const loc = (error as { loc?: { start?: Partial<ErrorLocation> } } | null)
+    ?.loc?.start;
+  if (loc && typeof loc.line === "number") {
+    return { line: loc.line, column: loc.column ?? 1 };
+  }
+
+  for (const pattern of [
+    LINE_COLUMN_WORDS,
+    LINE_COLUMN_PREFIX,
+    LINE_COLUMN_PARENS,
+  ]) {
+    const match = message.match(pattern);
+    if (match) {
+      return { line: parseInt(match[1], 10), column: parseInt(match[2], 10) };
+    }
+  }
+
+  const byteMatch = message.match(BYTE_OFFSET);
+  if (byteMatch) {
+    return locationFromByteOffset(code, parseInt(byteMatch[1], 10));
+  }
+
+  return null;
+}
+
+/**
+ * Build diagnostics for a formatter error
+ * Returns an empty list when the error carries no position, e.g. when a
+ * WASM module failed to load rather than the code failing to parse
+ */
+export function toDiagnostics(
+  error: unknown,
+  code: string,
+  source: string,
+): FormatDiagnostic[] {
+  const message = getErrorMessage(error, "");
+  const location = findLocation(error, message, code);
+  if (!location) return [];
+
+  // Drop code frames and error-class prefixes, keep the summary line
+  const summary = message
+    .split("\n")[0]
+    .replace(/^\w*Error:\s*/, "")
+    .trim();
+
+  return [
+    {
+      message: summary || "Syntax error",
+      line: location.line,
+      column: location.column,
+      severity: "error",
+      source,
+    },
+  ];
+}
+
+/**
+ * Character offset of a 1-based line and column, clamped to the code
+ */
+function offsetOf(code: string, line: number, column: number): number {
+  let offset = 0;
+  for (let n = 1; n < line; n++) {
+    const end = code.indexOf("\n", offset);
+    if (end === -1) return code.length;
+    offset = end + 1;
+  }
+  return Math.min(offset + column - 1, code.length);
+}
+
+/**
+ * Move diagnostics located in one version of the code to the same place
+ * in another that only differs in whitespace, e.g. from the code the
+ * primary formatter failed to parse to the output of a fallback formatter.
+ * Places are matched by the number of non-whitespace characters before them
+ */
+export function mapDiagnostics(
+  diagnostics: FormatDiagnostic[],
+  from: string,
+  to: string,
+): FormatDiagnostic[] {
+  return diagnostics.map((diagnostic) => {
+    const offset = offsetOf(from, diagnostic.line, diagnostic.column);
+    let remaining = from.slice(0, offset).replace(/\s/g, "").length;
+
+    let line = 1;
+    let column = 1;
+    for (const char of to) {
+      const isSpace = /\s/.test(char);
+      if (remaining === 0 && !isSpace) break;
+      if (!isSpace) remaining--;
+      if (char === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+
+    // The position the message ends with is the one in the old code
+    const message = diagnostic.message.replace(LINE_COLUMN_SUFFIX, "");
+    return { ...diagnostic, message, line, column };
+  });
+}
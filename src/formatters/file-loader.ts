@@ -159,7 +159,7 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   const isTextFile =
     textMimeTypes.some((type) => mime.startsWith(type)) ||
     file.name.match(
-      /\.(js|ts|jsx|tsx|json|css|scss|less|html|htm|xml|md|py|go|rs|sql|yml|yaml|toml|rb|lua|zig|dart)$/i,
+      /\.(js|ts|jsx|tsx|json|jsonl|ndjson|css|scss|less|html|htm|xml|md|py|go|rs|sql|yml|yaml|toml|rb|lua|zig|dart)$/i,
     );
 
   if (!isTextFile) {
@@ -0,0 +1,85 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { PersistentFormatCache } from "./format-cache";
+
+let dbCount = 0;
+
+function result(code: string) {
+  return { success: true, code };
+}
+
+describe("PersistentFormatCache", () => {
+  let dbName: string;
+  let cache: PersistentFormatCache;
+
+  beforeEach(() => {
+    dbName = `format-cache-test-${++dbCount}`;
+    cache = new PersistentFormatCache("1.0.0", 10_000, dbName);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it("should key entries by formatter and version", () => {
+    expect(cache.createKey("abc", "prettier")).toBe("prettier@1.0.0:abc");
+  });
+
+  it("should store results and count hits and misses", async () => {
+    expect(await cache.get("a")).toBeUndefined();
+    await cache.set("a", result("formatted"));
+    expect(await cache.get("a")).toEqual(result("formatted"));
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+    expect(stats.bytes).toBeGreaterThan(0);
+  });
+
+  it("should persist across instances", async () => {
+    await cache.set("a", result("formatted"));
+    await cache.close();
+
+    cache = new PersistentFormatCache("1.0.0", 10_000, dbName);
+    expect(await cache.get("a")).toEqual(result("formatted"));
+  });
+
+  it("should drop entries from another extension version", async () => {
+    await cache.set("a", result("formatted"));
+    await cache.close();
+
+    cache = new PersistentFormatCache("1.1.0", 10_000, dbName);
+    expect(await cache.get("a")).toBeUndefined();
+    expect((await cache.getStats()).entries).toBe(0);
+  });
+
+  it("should evict the least recently used entries over budget", async () => {
+    cache = new PersistentFormatCache("1.0.0", 500, dbName);
+    const code = "x".repeat(60);
+
+    await cache.set("a", result(code));
+    await cache.set("b", result(code));
+    await cache.get("a");
+    await cache.set("c", result(code));
+
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("c")).toBeDefined();
+    expect((await cache.getStats()).bytes).toBeLessThanOrEqual(500);
+  });
+
+  it("should keep stats on invalidate and reset them on clear", async () => {
+    await cache.set("a", result("formatted"));
+    await cache.get("a");
+
+    await cache.invalidate();
+    expect(await cache.getStats()).toMatchObject({ hits: 1, entries: 0 });
+
+    await cache.clear();
+    expect(await cache.getStats()).toEqual({
+      hits: 0,
+      misses: 0,
+      entries: 0,
+      bytes: 0,
+    });
+  });
+});
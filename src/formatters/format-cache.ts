@@ -0,0 +1,304 @@
+/**
+ * Persistent format cache
+ * Keeps formatting results in IndexedDB so they survive the background
+ * script being suspended. Entries are evicted least recently used first
+ * once the cache outgrows its size budget, and everything is dropped when
+ * the extension version changes
+ */
+
+import type { FormatResult } from "./types";
+
+export interface FormatCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  /** Approximate storage used by the entries */
+  bytes: number;
+}
+
+interface CacheEntry {
+  key: string;
+  result: FormatResult;
+  size: number;
+  lastUsed: number;
+}
+
+interface CacheMeta {
+  version: string;
+  bytes: number;
+  hits: number;
+  misses: number;
+}
+
+const DB_NAME = "code-formatter-cache";
+const DB_VERSION = 1;
+const ENTRY_STORE = "entries";
+const META_STORE = "meta";
+const META_KEY = "meta";
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class PersistentFormatCache {
+  private db: Promise<IDBDatabase> | null = null;
+  private lastTimestamp = 0;
+
+  /**
+   * @param version - Extension version; entries from other versions are
+   *   dropped, as they may have been produced by different formatters
+   * @param maxBytes - Size budget before the oldest entries are evicted
+   * @param dbName - IndexedDB database name
+   */
+  constructor(
+    private version: string,
+    private maxBytes: number,
+    private dbName: string = DB_NAME,
+  ) {}
+
+  /**
+   * Build the cache key for a result
+   * @param hash - SHA-256 of the code, language and settings
+   * @param formatterId - Engine that will format the code
+   */
+  createKey(hash: string, formatterId: string): string {
+    return `${formatterId}@${this.version}:${hash}`;
+  }
+
+  /**
+   * Look up a result, counting the hit or miss
+   * Storage failures are treated as a miss
+   */
+  async get(key: string): Promise<FormatResult | undefined> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(
+        [ENTRY_STORE, META_STORE],
+        "readwrite",
+      );
+      const entries = transaction.objectStore(ENTRY_STORE);
+      const metaStore = transaction.objectStore(META_STORE);
+
+      let result: FormatResult | undefined;
+      const request = entries.get(key);
+      request.onsuccess = () => {
+        const entry = request.result as CacheEntry | undefined;
+        if (entry) {
+          result = entry.result;
+          entries.put({ ...entry, lastUsed: this.timestamp() });
+        }
+        this.updateMeta(metaStore, (meta) => {
+          if (entry) meta.hits++;
+          else meta.misses++;
+        });
+      };
+
+      await transactionDone(transaction);
+      return result;
+    } catch (error) {
+      console.warn("[Code Formatter] Format cache lookup failed:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a result, evicting the least recently used entries when the
+   * cache goes over budget
+   */
+  async set(key: string, result: FormatResult): Promise<void> {
+    const size = (key.length + JSON.stringify(result).length) * 2;
+    if (size > this.maxBytes) return;
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(
+        [ENTRY_STORE, META_STORE],
+        "readwrite",
+      );
+      const entries = transaction.objectStore(ENTRY_STORE);
+      const metaStore = transaction.objectStore(META_STORE);
+
+      const existing = entries.get(key);
+      existing.onsuccess = () => {
+        const previous = existing.result as CacheEntry | undefined;
+        const entry: CacheEntry = {
+          key,
+          result,
+          size,
+          lastUsed: this.timestamp(),
+        };
+        entries.put(entry);
+
+        this.updateMeta(metaStore, (meta) => {
+          meta.bytes += size - (previous?.size ?? 0);
+          if (meta.bytes > this.maxBytes) {
+            this.evict(entries, metaStore, meta, key);
+          }
+        });
+      };
+
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn("[Code Formatter] Format cache write failed:", error);
+    }
+  }
+
+  /**
+   * Drop every entry, keeping the hit/miss counts
+   * Used when settings change and the stored results are stale
+   */
+  async invalidate(): Promise<void> {
+    await this.reset(false);
+  }
+
+  /**
+   * Drop every entry and reset the hit/miss counts
+   */
+  async clear(): Promise<void> {
+    await this.reset(true);
+  }
+
+  async getStats(): Promise<FormatCacheStats> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRY_STORE, META_STORE], "readonly");
+    const count = requestToPromise(
+      transaction.objectStore(ENTRY_STORE).count(),
+    );
+    const meta = requestToPromise<CacheMeta | undefined>(
+      transaction.objectStore(META_STORE).get(META_KEY),
+    );
+
+    return {
+      hits: (await meta)?.hits ?? 0,
+      misses: (await meta)?.misses ?? 0,
+      entries: await count,
+      bytes: (await meta)?.bytes ?? 0,
+    };
+  }
+
+  /**
+   * Close the database; the next call opens it again
+   */
+  async close(): Promise<void> {
+    if (!this.db) return;
+    const db = await this.db;
+    db.close();
+    this.db = null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= (async () => {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const entries = db.createObjectStore(ENTRY_STORE, { keyPath: "key" });
+        entries.createIndex("lastUsed", "lastUsed");
+        db.createObjectStore(META_STORE);
+      };
+      const db = await requestToPromise(request);
+
+      const transaction = db.transaction(META_STORE, "readonly");
+      const meta = await requestToPromise<CacheMeta | undefined>(
+        transaction.objectStore(META_STORE).get(META_KEY),
+      );
+      if (meta?.version !== this.version) {
+        await this.reset(true, db);
+      }
+      return db;
+    })();
+
+    // Let the next call retry rather than keep a failed open
+    this.db.catch(() => {
+      this.db = null;
+    });
+    return this.db;
+  }
+
+  private async reset(
+    resetStats: boolean,
+    database?: IDBDatabase,
+  ): Promise<void> {
+    const db = database ?? (await this.open());
+    const transaction = db.transaction([ENTRY_STORE, META_STORE], "readwrite");
+    const metaStore = transaction.objectStore(META_STORE);
+
+    transaction.objectStore(ENTRY_STORE).clear();
+    this.updateMeta(metaStore, (meta) => {
+      meta.version = this.version;
+      meta.bytes = 0;
+      if (resetStats) {
+        meta.hits = 0;
+        meta.misses = 0;
+      }
+    });
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Date.now(), but strictly increasing so entries used within the same
+   * millisecond still have a least recently used order
+   */
+  private timestamp(): number {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Read, change and write back the meta record within a transaction
+   */
+  private updateMeta(
+    metaStore: IDBObjectStore,
+    update: (meta: CacheMeta) => void,
+  ): void {
+    const request = metaStore.get(META_KEY);
+    request.onsuccess = () => {
+      const meta: CacheMeta = request.result ?? {
+        version: this.version,
+        bytes: 0,
+        hits: 0,
+        misses: 0,
+      };
+      update(meta);
+      metaStore.put(meta, META_KEY);
+    };
+  }
+
+  /**
+   * Delete the least recently used entries until the cache is back
+   * within budget, never the entry that was just written
+   */
+  private evict(
+    entries: IDBObjectStore,
+    metaStore: IDBObjectStore,
+    meta: CacheMeta,
+    keep: string,
+  ): void {
+    const cursorRequest = entries.index("lastUsed").openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || meta.bytes <= this.maxBytes) {
+        metaStore.put(meta, META_KEY);
+        return;
+      }
+
+      const entry = cursor.value as CacheEntry;
+      if (entry.key !== keep) {
+        cursor.delete();
+        meta.bytes -= entry.size;
+      }
+      cursor.continue();
+    };
+  }
+}
@@ -1,10 +1,26 @@
 export * from './types';
 export * from './registry';
 export * from './wasm-loader';
+export * from './worker-pool';
+export * from './format-cache';
+export * from './json-tools';
+export * from './converter';
 export { PrettierFormatter } from './prettier-formatter';
 export { JsBeautifyFormatter } from './js-beautify-formatter';
 export { FallbackFormatter } from './fallback-formatter';
 export {
+  NdjsonFormatter,
+  findRecordEnd,
+  splitNdjsonRecords,
+  type NdjsonRecord,
+} from './ndjson-formatter';
+export {
+  findFencedBlocks,
+  formatFencedBlocks,
+  type FencedBlock,
+} from './markdown-embedded';
+export {
+  BiomeFormatter,
   RuffFormatter,
   GofmtFormatter,
   SqlFormatter,
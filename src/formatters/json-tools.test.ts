@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { queryJson, runJsonTool } from "./json-tools";
+
+const store = {
+  store: {
+    book: [
+      { title: "A", price: 8, tags: ["x"] },
+      { title: "B", price: 12 },
+      { title: "C", price: 5, isbn: "123" },
+    ],
+    bicycle: { color: "red", price: 20 },
+  },
+};
+
+describe("queryJson", () => {
+  it("should select children, indexes and slices", () => {
+    expect(queryJson(store, "$.store.bicycle.color")).toEqual(["red"]);
+    expect(queryJson(store, "$.store.book[-1].title")).toEqual(["C"]);
+    expect(queryJson(store, "$.store.book[0,2].title")).toEqual(["A", "C"]);
+    expect(queryJson(store, "$.store.book[:2].title")).toEqual(["A", "B"]);
+    expect(queryJson(store, "$['store']['bicycle']['price']")).toEqual([20]);
+  });
+
+  it("should select with wildcards and recursive descent", () => {
+    expect(queryJson(store, "$.store.book[*].price")).toEqual([8, 12, 5]);
+    expect(queryJson(store, "$..price")).toEqual([8, 12, 5, 20]);
+  });
+
+  it("should filter by comparison and by existence", () => {
+    expect(queryJson(store, "$..book[?(@.price < 10)].title")).toEqual([
+      "A",
+      "C",
+    ]);
+    expect(queryJson(store, "$..book[?(@.isbn)].title")).toEqual(["C"]);
+    expect(queryJson(store, "$..book[?(@.title == 'B')].price")).toEqual([12]);
+  });
+
+  it("should select from arrays too large to spread", () => {
+    const items = Array.from({ length: 200_000 }, (_, i) => ({ id: i }));
+    const large = { items };
+
+    expect(queryJson(large, "$.items[*]")).toHaveLength(200_000);
+    expect(queryJson(large, "$.items[1:]")).toHaveLength(199_999);
+    expect(queryJson(large, "$..id")).toHaveLength(200_000);
+    expect(queryJson(large, "$..id").slice(0, 3)).toEqual([0, 1, 2]);
+  });
+
+  it("should accept jq-style paths", () => {
+    expect(queryJson(store, ".store.book[].title")).toEqual(["A", "B", "C"]);
+  });
+
+  it("should reject malformed queries", () => {
+    expect(() => queryJson(store, "store")).toThrow();
+    expect(() => queryJson(store, "$.store[")).toThrow("Unclosed bracket");
+  });
+});
+
+describe("runJsonTool", () => {
+  const settings = { indentSize: 2, useTabs: false };
+
+  it("should sort keys recursively", () => {
+    const result = runJsonTool(
+      '{"b":1,"a":{"d":2,"c":[{"f":1,"e":2}]}}',
+      "sortKeys",
+      settings,
+    );
+    expect(result.code).toBe(
+      JSON.stringify({ a: { c: [{ e: 2, f: 1 }], d: 2 }, b: 1 }, null, 2) +
+        "\n",
+    );
+  });
+
+  it("should keep a __proto__ key when sorting", () => {
+    const result = runJsonTool(
+      '{"b":1,"__proto__":{"c":2},"a":3}',
+      "sortKeys",
+      settings,
+    );
+    expect(result.code).toBe(
+      '{\n  "__proto__": {\n    "c": 2\n  },\n  "a": 3,\n  "b": 1\n}\n',
+    );
+  });
+
+  it("should refuse to round integers beyond 2^53", () => {
+    const code = '{"id":12345678901234567890,"n":-9007199254740993}';
+    for (const tool of ["sortKeys", "minify", "fromJson5"] as const) {
+      const result = runJsonTool(code, tool, settings);
+      expect(result.success).toBe(false);
+      expect(result.code).toBe(code);
+      expect(result.error).toContain("12345678901234567890");
+    }
+  });
+
+  it("should not mistake large numbers in strings for integers", () => {
+    const result = runJsonTool(
+      '{"id":"12345678901234567890","n":1.5e300,"m":9007199254740991}',
+      "minify",
+    );
+    expect(result.code).toBe(
+      '{"id":"12345678901234567890","n":1.5e+300,"m":9007199254740991}\n',
+    );
+  });
+
+  it("should minify", () => {
+    expect(runJsonTool('{\n  "a": [1, 2]\n}', "minify").code).toBe(
+      '{"a":[1,2]}\n',
+    );
+  });
+
+  it("should escape a document and unescape it again", () => {
+    const escaped = runJsonTool('{"a":"b"}', "toggleEscape", settings);
+    expect(escaped.code).toBe('"{\\"a\\":\\"b\\"}"\n');
+
+    const unescaped = runJsonTool(escaped.code, "toggleEscape", settings);
+    expect(unescaped.code).toBe('{\n  "a": "b"\n}\n');
+  });
+
+  it("should convert to and from JSON5", () => {
+    const json5 = runJsonTool('{"a":1,"b-c":[true]}', "toJson5", settings);
+    expect(json5.code).toBe("{\n  a: 1,\n  'b-c': [\n    true,\n  ],\n}\n");
+
+    const json = runJsonTool(json5.code, "fromJson5", settings);
+    expect(json.code).toBe('{\n  "a": 1,\n  "b-c": [\n    true\n  ]\n}\n');
+  });
+
+  it("should list the matches of a query", () => {
+    const result = runJsonTool(
+      JSON.stringify(store),
+      "query",
+      settings,
+      "$..color",
+    );
+    expect(result.code).toBe('[\n  "red"\n]\n');
+  });
+
+  it("should report invalid input", () => {
+    const result = runJsonTool("{a:", "minify");
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * JSON tools
+ * Operations on JSON documents beyond formatting: key sorting, minifying,
+ * string escaping, JSON5 conversion and JSONPath queries. Input is parsed
+ * as JSON5, a superset of JSON, so every tool also accepts JSON5
+ */
+
+import JSON5 from "json5";
+import type { FormatResult, FormatterSettings } from "./types";
+import { getErrorMessage } from "./diagnostics";
+
+export type JsonTool =
+  "sortKeys" | "minify" | "toggleEscape" | "toJson5" | "fromJson5" | "query";
+
+export const JSON_TOOLS: readonly JsonTool[] = [
+  "sortKeys",
+  "minify",
+  "toggleEscape",
+  "toJson5",
+  "fromJson5",
+  "query",
+];
+
+type JsonValue = unknown;
+
+type Comparison = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+/** A step of a parsed JSONPath expression */
+type PathSegment =
+  | { type: "child"; keys: (string | number)[] }
+  | { type: "wildcard" }
+  | { type: "slice"; start?: number; end?: number }
+  | { type: "descendants" }
+  | {
+      type: "filter";
+      path: PathSegment[];
+      op?: Comparison;
+      value?: JsonValue;
+    };
+
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*/;
+const FILTER_CONDITION =
+  /^\?\(\s*@((?:\.[A-Za-z_$][\w$-]*|\[[^\]]*\])*)\s*(?:(==|!=|<=|>=|<|>)\s*(.+?))?\s*\)$/;
+// Strings and comments, which are skipped, or an integer literal
+const INTEGER_TOKEN =
+  /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\/|(?<![\w$.])-?(?:0[xX][\da-fA-F]+|\d+)(?![\w$.])/g;
+
+function isObject(value: JsonValue): value is Record<string, JsonValue> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function sortKeys(value: JsonValue): JsonValue {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isObject(value)) return value;
+
+  // Without a prototype, a "__proto__" key is kept as any other key
+  const sorted: Record<string, JsonValue> = Object.create(null);
+  for (const key of Object.keys(value).sort()) {
+    sorted[key] = sortKeys(value[key]);
+  }
+  return sorted;
+}
+
+/**
+ * Find an integer literal that a number cannot hold exactly, which
+ * parsing would silently round, e.g. a 64-bit ID
+ */
+function findUnsafeInteger(code: string): string | undefined {
+  for (const [token] of code.matchAll(INTEGER_TOKEN)) {
+    if (/^["'/]/.test(token)) continue;
+    const digits = token.replace(/^-/, "");
+    if (!Number.isSafeInteger(Number(digits))) return token;
+  }
+  return undefined;
+}
+
+/**
+ * The error for an integer that would not survive being parsed
+ */
+export function getUnsafeIntegerError(integer: string): Error {
+  return new Error(
+    `${integer} is too large to be kept exactly, the document was left unchanged`,
+  );
+}
+
+/**
+ * Parse a JSON or JSON5 document, refusing to round its integers
+ */
+export function parseJson(code: string): JsonValue {
+  const unsafe = findUnsafeInteger(code);
+  if (unsafe) throw getUnsafeIntegerError(unsafe);
+  return JSON5.parse(code);
+}
+
+/**
+ * Split the inside of a bracket on top-level commas, e.g. `'a,b', 1`
+ */
+function splitUnion(inner: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === ",") {
+      parts.push(inner.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  parts.push(inner.slice(start).trim());
+  return parts;
+}
+
+function parseBracket(inner: string): PathSegment {
+  const trimmed = inner.trim();
+  if (trimmed === "*" || trimmed === "") return { type: "wildcard" };
+
+  if (trimmed.startsWith("?")) {
+    const match = FILTER_CONDITION.exec(trimmed);
+    if (!match) throw new Error(`Invalid filter: [${trimmed}]`);
+    return {
+      type: "filter",
+      path: parseSegments(match[1]),
+      op: match[2] as Comparison | undefined,
+      value: match[3] !== undefined ? JSON5.parse(match[3]) : undefined,
+    };
+  }
+
+  const slice = /^(-?\d*)\s*:\s*(-?\d*)$/.exec(trimmed);
+  if (slice) {
+    return {
+      type: "slice",
+      start: slice[1] ? Number(slice[1]) : undefined,
+      end: slice[2] ? Number(slice[2]) : undefined,
+    };
+  }
+
+  const keys = splitUnion(trimmed).map((part) => {
+    if (/^-?\d+$/.test(part)) return Number(part);
+    if (/^(['"]).*\1$/.test(part)) return JSON5.parse(part) as string;
+    throw new Error(`Invalid selector: [${trimmed}]`);
+  });
+  return { type: "child", keys };
+}
+
+/**
+ * Parse the segments following the root of a path
+ */
+function parseSegments(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = 0;
+
+  while (i < path.length) {
+    if (path.startsWith("..", i)) {
+      segments.push({ type: "descendants" });
+      i += 2;
+    } else if (path[i] === ".") {
+      i++;
+    } else if (path[i] !== "[") {
+      throw new Error(`Unexpected "${path[i]}" at position ${i}`);
+    }
+
+    if (path[i] === "[") {
+      // Find the closing bracket, skipping quoted keys and filters
+      let depth = 0;
+      let quote: string | null = null;
+      let end = i;
+      for (; end < path.length; end++) {
+        const char = path[end];
+        if (quote) {
+          if (char === "\\") end++;
+          else if (char === quote) quote = null;
+        } else if (char === "'" || char === '"') {
+          quote = char;
+        } else if (char === "[" || char === "(") {
+          depth++;
+        } else if (char === "]" || char === ")") {
+          depth--;
+          if (depth === 0) break;
+        }
+      }
+      if (end >= path.length) throw new Error("Unclosed bracket");
+      segments.push(parseBracket(path.slice(i + 1, end)));
+      i = end + 1;
+    } else if (path[i] === "*") {
+      segments.push({ type: "wildcard" });
+      i++;
+    } else {
+      const name = IDENTIFIER.exec(path.slice(i));
+      if (!name) throw new Error(`Expected a key at position ${i}`);
+      segments.push({ type: "child", keys: [name[0]] });
+      i += name[0].length;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a JSONPath expression. jq-style paths are accepted too: a leading
+ * "." stands for "$" and "[]" for "[*]", so `.items[].name` works
+ */
+export function parseJsonPath(expression: string): PathSegment[] {
+  const trimmed = expression.trim();
+  if (trimmed === "$" || trimmed === ".") return [];
+
+  if (trimmed.startsWith("$")) return parseSegments(trimmed.slice(1));
+  if (trimmed.startsWith(".") || trimmed.startsWith("[")) {
+    return parseSegments(trimmed);
+  }
+  throw new Error('A query starts with "$" or "."');
+}
+
+function children(value: JsonValue): JsonValue[] {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  return [];
+}
+
+/**
+ * Add nodes to a list one by one, as spreading a large array into push()
+ * overflows the call stack
+ */
+function addAll(nodes: JsonValue[], result: JsonValue[]): void {
+  for (const node of nodes) result.push(node);
+}
+
+/**
+ * Add a node and every node below it to a list, in document order
+ */
+function addDescendants(value: JsonValue, result: JsonValue[]): void {
+  const stack = [value];
+  while (stack.length > 0) {
+    const node = stack.pop();
+    result.push(node);
+    const nodeChildren = children(node);
+    for (let i = nodeChildren.length - 1; i >= 0; i--) {
+      stack.push(nodeChildren[i]);
+    }
+  }
+}
+
+function compare(left: JsonValue, op: Comparison, right: JsonValue): boolean {
+  switch (op) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    default:
+      if (typeof left !== typeof right) return false;
+      if (typeof left !== "number" && typeof left !== "string") return false;
+      if (op === "<") return left < (right as typeof left);
+      if (op === "<=") return left <= (right as typeof left);
+      if (op === ">") return left > (right as typeof left);
+      return left >= (right as typeof left);
+  }
+}
+
+function applySegment(nodes: JsonValue[], segment: PathSegment): JsonValue[] {
+  const result: JsonValue[] = [];
+
+  for (const node of nodes) {
+    switch (segment.type) {
+      case "child":
+        for (const key of segment.keys) {
+          if (Array.isArray(node) && typeof key === "number") {
+            const index = key < 0 ? node.length + key : key;
+            if (index >= 0 && index < node.length) result.push(node[index]);
+          } else if (
+            isObject(node) &&
+            Object.prototype.hasOwnProperty.call(node, key)
+          ) {
+            result.push(node[String(key)]);
+          }
+        }
+        break;
+      case "wildcard":
+        addAll(children(node), result);
+        break;
+      case "slice":
+        if (Array.isArray(node)) {
+          addAll(node.slice(segment.start, segment.end), result);
+        }
+        break;
+      case "descendants":
+        addDescendants(node, result);
+        break;
+      case "filter":
+        for (const child of children(node)) {
+          const matches = evaluate(child, segment.path);
+          if (
+            segment.op
+              ? matches.some((m) => compare(m, segment.op!, segment.value))
+              : matches.length > 0
+          ) {
+            result.push(child);
+          }
+        }
+        break;
+    }
+  }
+
+  return result;
+}
+
+function evaluate(value: JsonValue, segments: PathSegment[]): JsonValue[] {
+  return segments.reduce(applySegment, [value]);
+}
+
+/**
+ * Select the nodes of a document matching a JSONPath expression
+ * Supports child, wildcard, recursive descent, index, union, slice and
+ * filter selectors, e.g. `$..book[?(@.price < 10)].title`
+ */
+export function queryJson(value: JsonValue, expression: string): JsonValue[] {
+  return evaluate(value, parseJsonPath(expression));
+}
+
+/**
+ * Run a JSON tool over a document
+ * @param query - JSONPath expression, for the "query" tool
+ */
+export function runJsonTool(
+  code: string,
+  tool: JsonTool,
+  settings?: FormatterSettings,
+  query?: string,
+): FormatResult {
+  const indent = settings?.useTabs ? "\t" : (settings?.indentSize ?? 2);
+
+  try {
+    const value = parseJson(code);
+    let output: string;
+
+    switch (tool) {
+      case "sortKeys":
+        output = JSON.stringify(sortKeys(value), null, indent);
+        break;
+      case "minify":
+        output = JSON.stringify(value);
+        break;
+      case "toggleEscape":
+        // A document that is a string holding JSON is unescaped,
+        // anything else is turned into such a string
+        if (typeof value === "string") {
+          try {
+            output = JSON.stringify(parseJson(value), null, indent);
+          } catch {
+            output = value;
+          }
+        } else {
+          output = JSON.stringify(JSON.stringify(value));
+        }
+        break;
+      case "toJson5":
+        output = JSON5.stringify(value, null, indent);
+        break;
+      case "fromJson5":
+        output = JSON.stringify(value, null, indent);
+        break;
+      case "query":
+        output = JSON.stringify(queryJson(value, query ?? "$"), null, indent);
+        break;
+    }
+
+    return { success: true, code: output + "\n" };
+  } catch (error) {
+    return {
+      success: false,
+      code,
+      error: getErrorMessage(error, "Invalid JSON"),
+    };
+  }
+}
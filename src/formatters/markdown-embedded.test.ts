@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { findFencedBlocks, formatFencedBlocks } from "./markdown-embedded";
+import type { FormatResult } from "./types";
+
+const upper = async (code: string): Promise<FormatResult> => ({
+  success: true,
+  code: code.toUpperCase() + "\n",
+});
+
+describe("findFencedBlocks", () => {
+  it("should find closed fences that name a language", () => {
+    const markdown = [
+      "# Title",
+      "```py",
+      "x=1",
+      "```",
+      "```",
+      "no language",
+      "```",
+      "~~~~toml title",
+      "a=1",
+      "~~~~",
+    ].join("\n");
+
+    const blocks = findFencedBlocks(markdown);
+
+    expect(blocks.map((b) => b.language)).toEqual(["python", "toml"]);
+    expect(markdown.slice(blocks[0].from, blocks[0].to)).toBe("x=1");
+    expect(markdown.slice(blocks[1].from, blocks[1].to)).toBe("a=1");
+  });
+
+  it("should only close a fence with the same kind of fence", () => {
+    const markdown = "````md\n```js\ninner\n```\n````\n";
+
+    const blocks = findFencedBlocks(markdown);
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].language).toBe("md");
+  });
+
+  it("should skip unclosed fences", () => {
+    expect(findFencedBlocks("```js\nconst a = 1;\n")).toEqual([]);
+  });
+});
+
+describe("formatFencedBlocks", () => {
+  it("should splice formatted blocks back in", async () => {
+    const markdown = "Text\n\n```sql\nselect 1\n```\n\nMore\n";
+
+    const result = await formatFencedBlocks(markdown, upper);
+
+    expect(result.code).toBe("Text\n\n```sql\nSELECT 1\n```\n\nMore\n");
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("should keep the indentation of fences nested in lists", async () => {
+    const markdown = "- item\n\n  ```go\n  a\n    b\n  ```\n";
+
+    const result = await formatFencedBlocks(markdown, async (code) => {
+      expect(code).toBe("a\n  b");
+      return { success: true, code: "x\n\ty\n" };
+    });
+
+    expect(result.code).toBe("- item\n\n  ```go\n  x\n  \ty\n  ```\n");
+  });
+
+  it("should leave blocks of unformatted languages alone", async () => {
+    const markdown = "```mermaid\ngraph TD\n```\n";
+
+    const result = await formatFencedBlocks(markdown, () => null);
+
+    expect(result.code).toBe(markdown);
+  });
+
+  it("should report failed blocks and still format the others", async () => {
+    const markdown = "```json\n{bad\n```\n\n```sql\nselect 1\n```\n";
+
+    const result = await formatFencedBlocks(markdown, async (code, language) =>
+      language === "json"
+        ? {
+            success: false,
+            code,
+            error: "Unexpected token",
+            diagnostics: [
+              {
+                message: "Unexpected token",
+                line: 1,
+                column: 2,
+                severity: "error",
+                source: "prettier",
+              },
+            ],
+          }
+        : upper(code),
+    );
+
+    expect(result.code).toBe("```json\n{bad\n```\n\n```sql\nSELECT 1\n```\n");
+    expect(result.diagnostics).toEqual([
+      {
+        message: "In the json block: Unexpected token",
+        line: 2,
+        column: 2,
+        severity: "warning",
+        source: "prettier",
+      },
+    ]);
+  });
+
+  it("should report failures without a location on the opening fence", async () => {
+    const markdown = "Intro\n\n```toml\na = \n```\n";
+
+    const result = await formatFencedBlocks(markdown, async (code) => ({
+      success: false,
+      code,
+      error: "Invalid TOML",
+      skipped: [
+        {
+          formatterId: "toml-formatter",
+          formatterName: "Taplo",
+          reason: "Invalid TOML",
+        },
+      ],
+    }));
+
+    expect(result.code).toBe(markdown);
+    expect(result.diagnostics[0]).toMatchObject({
+      line: 3,
+      column: 1,
+      source: "toml-formatter",
+    });
+  });
+});
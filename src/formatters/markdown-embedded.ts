@@ -0,0 +1,170 @@
+/**
+ * Embedded code in Markdown
+ * Finds the fenced code blocks of a Markdown document and formats each of
+ * them with the formatter of its language, so Python, Go, SQL or TOML
+ * fences that Prettier leaves alone are formatted too. A block that cannot
+ * be formatted is kept as it is and reported, the rest still are
+ */
+
+import type { FormatDiagnostic, FormatResult } from "./types";
+import { normalizeLanguage } from "./types";
+
+/** A fenced code block of a Markdown document */
+export interface FencedBlock {
+  /** Normalized language of the info string */
+  language: string;
+  /** Offsets of the code between the fences, `to` exclusive */
+  from: number;
+  to: number;
+  /** Indentation of the opening fence, which the code lines share */
+  indent: string;
+}
+
+/**
+ * Formats a block, or returns null for languages that are not formatted
+ */
+export type FormatBlock = (
+  code: string,
+  language: string,
+) => Promise<FormatResult> | null;
+
+// An opening fence: indentation, three or more backticks or tildes, and
+// an info string whose first word is the language
+const OPENING_FENCE = /^( *)(`{3,}|~{3,})[ \t]*([^\s`]*)[^`\n]*$/;
+
+function getLines(code: string): { text: string; from: number }[] {
+  const lines: { text: string; from: number }[] = [];
+  let from = 0;
+  for (const text of code.split("\n")) {
+    lines.push({ text, from });
+    from += text.length + 1;
+  }
+  return lines;
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const match = /^ *(`{3,}|~{3,})[ \t]*$/.exec(line);
+  return (
+    match !== null &&
+    match[1][0] === fence[0] &&
+    match[1].length >= fence.length
+  );
+}
+
+/**
+ * Find the closed fenced code blocks that name a language
+ * Fences are recognized at any indentation so that blocks nested in list
+ * items are found too
+ */
+export function findFencedBlocks(markdown: string): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  const lines = getLines(markdown);
+
+  for (let i = 0; i < lines.length; i++) {
+    const opening = OPENING_FENCE.exec(lines[i].text);
+    if (!opening) continue;
+
+    const [, indent, fence, info] = opening;
+    let end = i + 1;
+    while (end < lines.length && !isClosingFence(lines[end].text, fence)) {
+      end++;
+    }
+    // An unclosed fence runs to the end of the document, leave it alone
+    if (end >= lines.length) break;
+
+    if (info) {
+      const from = lines[i + 1].from;
+      blocks.push({
+        language: normalizeLanguage(info),
+        from,
+        // Exclude the line break before the closing fence
+        to: Math.max(from, lines[end].from - 1),
+        indent,
+      });
+    }
+    i = end;
+  }
+
+  return blocks;
+}
+
+function stripIndent(code: string, indent: string): string {
+  if (!indent) return code;
+  return code
+    .split("\n")
+    .map((line) =>
+      line.startsWith(indent) ? line.slice(indent.length) : line.trimStart(),
+    )
+    .join("\n");
+}
+
+function addIndent(code: string, indent: string): string {
+  if (!indent) return code;
+  return code
+    .split("\n")
+    .map((line) => (line ? indent + line : line))
+    .join("\n");
+}
+
+function countLines(text: string): number {
+  return text.split("\n").length - 1;
+}
+
+/**
+ * Format every fenced code block of a document in turn
+ * @returns The document with the formatted blocks spliced in, and
+ * diagnostics for the blocks that failed, located in that document
+ */
+export async function formatFencedBlocks(
+  markdown: string,
+  formatBlock: FormatBlock,
+): Promise<{ code: string; diagnostics: FormatDiagnostic[] }> {
+  const diagnostics: FormatDiagnostic[] = [];
+  let output = "";
+  let offset = 0;
+
+  for (const block of findFencedBlocks(markdown)) {
+    const original = markdown.slice(block.from, block.to);
+    const code = stripIndent(original, block.indent);
+    const pending = code.trim() ? formatBlock(code, block.language) : null;
+    if (!pending) continue;
+
+    const result = await pending;
+    output += markdown.slice(offset, block.from);
+    offset = block.to;
+    // Line of the block's first line of code in the output
+    const firstLine = countLines(output) + 1;
+
+    if (result.success) {
+      output += addIndent(result.code.replace(/\n+$/, ""), block.indent);
+      continue;
+    }
+
+    output += original;
+    const source =
+      result.formatterId ?? result.skipped?.[0]?.formatterId ?? block.language;
+    const located = result.diagnostics ?? [];
+
+    if (located.length) {
+      for (const diagnostic of located) {
+        diagnostics.push({
+          ...diagnostic,
+          message: `In the ${block.language} block: ${diagnostic.message}`,
+          line: firstLine + diagnostic.line - 1,
+          column: diagnostic.column + block.indent.length,
+          severity: "warning",
+        });
+      }
+    } else {
+      diagnostics.push({
+        message: `Could not format the ${block.language} block: ${result.error || "Formatting failed"}`,
+        line: Math.max(firstLine - 1, 1),
+        column: block.indent.length + 1,
+        severity: "warning",
+        source,
+      });
+    }
+  }
+
+  return { code: output + markdown.slice(offset), diagnostics };
+}
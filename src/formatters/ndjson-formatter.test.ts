@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { NdjsonFormatter, splitNdjsonRecords } from "./ndjson-formatter";
+
+const formatter = new NdjsonFormatter();
+
+describe("splitNdjsonRecords", () => {
+  it("should split compact records by line, skipping blank lines", () => {
+    const code = '{"a":1}\n\n[1,2]\n';
+    expect(splitNdjsonRecords(code)).toEqual([
+      { from: 0, to: 7, line: 1 },
+      { from: 9, to: 14, line: 3 },
+    ]);
+  });
+
+  it("should keep pretty-printed records together", () => {
+    const code = '{\n  "a": [\n    1\n  ]\n}\n{\n  "b": "}"\n}';
+    const records = splitNdjsonRecords(code);
+    expect(records.map((r) => r.line)).toEqual([1, 6]);
+    expect(code.slice(records[1].from, records[1].to)).toBe('{\n  "b": "}"\n}');
+  });
+
+  it("should not let an unterminated record swallow the next ones", () => {
+    const records = splitNdjsonRecords('{"a":\n{"b":2}');
+    expect(records).toHaveLength(2);
+  });
+});
+
+describe("NdjsonFormatter", () => {
+  it("should write one compact record per line", async () => {
+    const result = await formatter.format(
+      '{ "a": 1,  "b": [1, 2] }\n{\n  "c": null\n}\n',
+      "ndjson",
+    );
+    expect(result.success).toBe(true);
+    expect(result.code).toBe('{"a":1,"b":[1,2]}\n{"c":null}\n');
+  });
+
+  it("should pretty-print records with the configured indent", async () => {
+    const result = await formatter.format('{"a":1}\n{"b":2}', "ndjson", {
+      indentSize: 4,
+      useTabs: false,
+      ndjsonStyle: "pretty",
+    });
+    expect(result.code).toBe('{\n    "a": 1\n}\n{\n    "b": 2\n}\n');
+  });
+
+  it("should keep bad records and report them on their output line", async () => {
+    const result = await formatter.format(
+      '{"a":1}\n{"b":2,}\n{"c":3}',
+      "ndjson",
+      { indentSize: 2, useTabs: false, ndjsonStyle: "pretty" },
+    );
+    expect(result.success).toBe(true);
+    expect(result.code).toBe('{\n  "a": 1\n}\n{"b":2,}\n{\n  "c": 3\n}\n');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics![0]).toMatchObject({
+      line: 4,
+      severity: "error",
+      source: "ndjson",
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * NDJSON formatter
+ * Formats newline-delimited JSON (JSON Lines) one record at a time, either
+ * compact with one record per line or pretty-printed. Records that are not
+ * valid JSON are kept as they are and reported as diagnostics, so one bad
+ * line in a log export does not prevent formatting the rest
+ */
+
+import type {
+  IFormatter,
+  FormatDiagnostic,
+  FormatterMetadata,
+  FormatResult,
+  FormatterSettings,
+} from "./types";
+import { getErrorMessage } from "./diagnostics";
+
+/** A record of an NDJSON source */
+export interface NdjsonRecord {
+  from: number;
+  /** End of the record's last line, exclusive */
+  to: number;
+  /** 1-based line the record starts on */
+  line: number;
+}
+
+// "Unexpected token } in JSON at position 12"
+const JSON_ERROR_POSITION = /\bposition (\d+)/;
+
+function isLineBreak(code: string, index: number): boolean {
+  return code.charCodeAt(index) === 10;
+}
+
+/**
+ * Find the end of the record starting at `from`
+ * A record ends with its line, unless it opens an object or array that is
+ * continued on the next lines, as in pretty-printed NDJSON. A line starting
+ * with "{" or "[" always starts a new record, so an unterminated record
+ * cannot swallow the ones after it
+ */
+export function findRecordEnd(code: string, from: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = from; i < code.length; i++) {
+    const char = code[i];
+
+    if (char === "\n") {
+      // Strings cannot span lines in JSON
+      inString = false;
+      const next = code[i + 1];
+      if (depth <= 0 || next === "{" || next === "[") return i;
+      continue;
+    }
+
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+    }
+  }
+
+  return code.length;
+}
+
+/**
+ * Split an NDJSON source into records, skipping blank lines
+ */
+export function splitNdjsonRecords(code: string): NdjsonRecord[] {
+  const records: NdjsonRecord[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < code.length) {
+    if (isLineBreak(code, i)) {
+      line++;
+      i++;
+    } else if (/\s/.test(code[i])) {
+      i++;
+    } else {
+      const to = findRecordEnd(code, i);
+      records.push({ from: i, to, line });
+      for (let j = i; j < to; j++) {
+        if (isLineBreak(code, j)) line++;
+      }
+      i = to;
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Locate a JSON.parse error within a record, relative to its first line
+ */
+function errorLocation(
+  text: string,
+  message: string,
+): { lineOffset: number; column: number } {
+  const match = JSON_ERROR_POSITION.exec(message);
+  if (!match) return { lineOffset: 0, column: 1 };
+
+  const before = text.slice(0, Number(match[1]));
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    lineOffset: before.split("\n").length - 1,
+    column: before.length - lineStart + 1,
+  };
+}
+
+export class NdjsonFormatter implements IFormatter {
+  readonly metadata: FormatterMetadata = {
+    id: "ndjson",
+    name: "NDJSON",
+    description: "Formats JSON Lines record by record, compact or pretty",
+    languages: ["ndjson"],
+    capabilities: {
+      isFormatter: true,
+      isOpinionated: true,
+      tolerant: true,
+    },
+  };
+
+  async format(
+    code: string,
+    _language: string,
+    settings?: FormatterSettings,
+  ): Promise<FormatResult> {
+    const indent = settings?.useTabs
+      ? "\t"
+      : " ".repeat(settings?.indentSize ?? 2);
+    const pretty = settings?.ndjsonStyle === "pretty";
+
+    const output: string[] = [];
+    const diagnostics: FormatDiagnostic[] = [];
+    // Diagnostics point into the formatted source
+    let outputLine = 1;
+
+    for (const record of splitNdjsonRecords(code)) {
+      const text = code.slice(record.from, record.to).trimEnd();
+      let formatted: string;
+
+      try {
+        const value: unknown = JSON.parse(text);
+        formatted = pretty
+          ? JSON.stringify(value, null, indent)
+          : JSON.stringify(value);
+      } catch (error) {
+        const message = getErrorMessage(error, "Invalid JSON");
+        const { lineOffset, column } = errorLocation(text, message);
+        formatted = text;
+        diagnostics.push({
+          message: `Invalid record: ${message}`,
+          line: outputLine + lineOffset,
+          column,
+          severity: "error",
+          source: this.metadata.id,
+        });
+      }
+
+      output.push(formatted);
+      outputLine += formatted.split("\n").length;
+    }
+
+    return {
+      success: true,
+      code: output.length ? output.join("\n") + "\n" : "",
+      diagnostics: diagnostics.length ? diagnostics : undefined,
+    };
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+}
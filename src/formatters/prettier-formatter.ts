@@ -2,8 +2,10 @@ import type {
   IFormatter,
   FormatterMetadata,
   FormatResult,
+  FormatRange,
   FormatterSettings,
 } from "./types";
+import { getErrorMessage, toDiagnostics } from "./diagnostics";
 
 type PrettierModule = typeof import("prettier/standalone");
 type PluginCache = Map<string, any>;
@@ -113,6 +115,28 @@ export class PrettierFormatter implements IFormatter {
     code: string,
     language: string,
     settings?: FormatterSettings,
+  ): Promise<FormatResult> {
+    return this.run(code, language, settings);
+  }
+
+  /**
+   * Format only the nodes overlapping the range, using Prettier's
+   * rangeStart/rangeEnd; the rest of the document is returned as is
+   */
+  async formatRange(
+    code: string,
+    language: string,
+    range: FormatRange,
+    settings?: FormatterSettings,
+  ): Promise<FormatResult> {
+    return this.run(code, language, settings, range);
+  }
+
+  private async run(
+    code: string,
+    language: string,
+    settings?: FormatterSettings,
+    range?: FormatRange,
   ): Promise<FormatResult> {
     try {
       const [prettierModule, plugins] = await Promise.all([
@@ -136,6 +160,10 @@ export class PrettierFormatter implements IFormatter {
         singleQuote: settings?.singleQuote ?? true,
         trailingComma: settings?.trailingComma ?? "es5",
         semi: settings?.semi ?? true,
+        printWidth: settings?.printWidth ?? 80,
+        bracketSpacing: settings?.bracketSpacing ?? true,
+        arrowParens: settings?.arrowParens ?? "always",
+        ...(range && { rangeStart: range.from, rangeEnd: range.to }),
       });
 
       return { success: true, code: formatted };
@@ -143,8 +171,8 @@ export class PrettierFormatter implements IFormatter {
       return {
         success: false,
         code,
-        error:
-          error instanceof Error ? error.message : "Prettier formatting failed",
+        error: getErrorMessage(error, "Prettier formatting failed"),
+        diagnostics: toDiagnostics(error, code, this.metadata.id),
       };
     }
   }
@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { FormatterRegistry } from "./registry";
+
+describe("FormatterRegistry", () => {
+  const registry = new FormatterRegistry();
+
+  describe("getFormattersForLanguage", () => {
+    it("should keep every candidate in priority order", () => {
+      const ids = registry
+        .getFormattersForLanguage("javascript")
+        .map((f) => f.metadata.id);
+      expect(ids).toEqual(["prettier", "biome", "js-beautify"]);
+    });
+
+    it("should normalize language aliases", () => {
+      const ids = registry
+        .getFormattersForLanguage("js")
+        .map((f) => f.metadata.id);
+      expect(ids[0]).toBe("prettier");
+    });
+
+    it("should return an empty list for unknown languages", () => {
+      expect(registry.getFormattersForLanguage("cobol")).toEqual([]);
+    });
+  });
+
+  describe("getFormatter", () => {
+    it("should default to the highest-priority candidate", () => {
+      expect(registry.getFormatter("javascript")?.metadata.id).toBe("prettier");
+    });
+
+    it("should honour a preferred formatter", () => {
+      expect(
+        registry.getFormatter("javascript", "js-beautify")?.metadata.id,
+      ).toBe("js-beautify");
+    });
+
+    it("should ignore a preferred formatter that cannot handle the language", () => {
+      expect(registry.getFormatter("javascript", "ruff")?.metadata.id).toBe(
+        "prettier",
+      );
+    });
+
+    it("should return null for unsupported languages", () => {
+      expect(registry.getFormatter("cobol")).toBeNull();
+    });
+  });
+
+  describe("getFormatterChain", () => {
+    it("should follow the primary with tolerant formatters and the fallback", () => {
+      const ids = registry
+        .getFormatterChain("javascript")
+        .map((f) => f.metadata.id);
+      expect(ids).toEqual(["prettier", "js-beautify", "fallback"]);
+    });
+
+    it("should start with the preferred formatter", () => {
+      const ids = registry
+        .getFormatterChain("javascript", "biome")
+        .map((f) => f.metadata.id);
+      expect(ids).toEqual(["biome", "js-beautify", "fallback"]);
+    });
+
+    it("should not use the fallback for indentation-sensitive languages", () => {
+      const ids = registry
+        .getFormatterChain("python")
+        .map((f) => f.metadata.id);
+      expect(ids).toEqual(["ruff"]);
+    });
+  });
+
+  describe("format", () => {
+    it("should route to the preferred formatter", async () => {
+      const result = await registry.format(
+        "function a() {\nreturn 1;\n}",
+        "javascript",
+        { indentSize: 4, useTabs: false },
+        "js-beautify",
+      );
+      expect(result.success).toBe(true);
+      expect(result.code).toContain("    return 1");
+    });
+
+    it("should fall back when the primary formatter fails", async () => {
+      const result = await registry.format(
+        "function broken( {\nreturn 1;\n}",
+        "javascript",
+        { indentSize: 2, useTabs: false },
+      );
+      expect(result.success).toBe(true);
+      expect(result.formatterId).toBe("js-beautify");
+      expect(result.skipped?.[0].formatterId).toBe("prettier");
+      expect(result.skipped?.[0].reason).toBeTruthy();
+    });
+
+    it("should keep the primary formatter's syntax errors as warnings", async () => {
+      const result = await registry.format(
+        "const a = 1;\nfunction broken( {\nreturn a;\n}",
+        "javascript",
+        { indentSize: 2, useTabs: false },
+      );
+      expect(result.success).toBe(true);
+      expect(result.diagnostics).toHaveLength(1);
+
+      const [diagnostic] = result.diagnostics!;
+      expect(diagnostic.severity).toBe("warning");
+      expect(diagnostic.source).toBe("prettier");
+      // Prettier stops at "a", which the fallback moved to the next line
+      expect(diagnostic.message).not.toContain("(3:8)");
+      const line = result.code.split("\n")[diagnostic.line - 1];
+      expect(line.slice(diagnostic.column - 1)).toBe("a;");
+    });
+
+    it("should report the engine even without a fallback", async () => {
+      const result = await registry.format("a{color:red}", "css");
+      expect(result.success).toBe(true);
+      expect(result.formatterName).toBe("Prettier");
+      expect(result.skipped).toEqual([]);
+    });
+  });
+
+  describe("format markdown", () => {
+    it("should format fenced code blocks with their own formatters", async () => {
+      const result = await registry.format(
+        "# Title\n\n```js\nconst a    =   {b:1}\n```\n\n```python\ndef (:\n```\n",
+        "markdown",
+        { indentSize: 2, useTabs: false },
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.code).toContain("```js\nconst a = { b: 1 };\n```");
+      expect(result.code).toContain("```python\ndef (:\n```");
+      expect(result.diagnostics?.[0].severity).toBe("warning");
+    });
+
+    it("should format each block in the settings resolved for its language", async () => {
+      const result = await registry.format(
+        "```js\nif (a) {\nb();\n}\n```\n",
+        "markdown",
+        {
+          indentSize: 2,
+          useTabs: false,
+          embedded: {
+            javascript: {
+              settings: { indentSize: 4, useTabs: false, semi: false },
+            },
+          },
+        },
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.code).toBe("```js\nif (a) {\n    b()\n}\n```\n");
+    });
+
+    it("should leave a broken block to its primary formatter", async () => {
+      const block = "function broken( {\nreturn 1;\n}";
+      const result = await registry.format(
+        "```js\n" + block + "\n```\n",
+        "markdown",
+        { indentSize: 2, useTabs: false },
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.code).toBe("```js\n" + block + "\n```\n");
+      expect(result.diagnostics?.[0].source).toBe("prettier");
+      expect(result.diagnostics?.[0].severity).toBe("warning");
+    });
+  });
+
+  describe("formatRange", () => {
+    const code = "const a    =   1;\nconst b    =   2;\n";
+
+    it("should only reformat the requested region", async () => {
+      const result = await registry.formatRange(code, "javascript", {
+        from: 0,
+        to: 17,
+      });
+      expect(result.success).toBe(true);
+      expect(result.formatterId).toBe("prettier");
+      expect(result.code).toBe("const a = 1;\nconst b    =   2;\n");
+    });
+
+    it("should use a range-capable engine when the preferred one is not", async () => {
+      const result = await registry.formatRange(
+        code,
+        "javascript",
+        { from: 0, to: 17 },
+        undefined,
+        "js-beautify",
+      );
+      expect(result.formatterId).toBe("prettier");
+    });
+
+    it("should report languages without range support", async () => {
+      const result = await registry.formatRange("x = 1", "python", {
+        from: 0,
+        to: 5,
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("not supported");
+    });
+  });
+});
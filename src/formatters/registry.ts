@@ -1,15 +1,42 @@
-import type { IFormatter, FormatResult, FormatterSettings } from "./types";
+import type {
+  IFormatter,
+  EmbeddedFormatterSettings,
+  FormatDiagnostic,
+  FormatResult,
+  FormatRange,
+  FormatterSettings,
+  SkippedFormatter,
+} from "./types";
 import { normalizeLanguage } from "./types";
+import { getErrorMessage, mapDiagnostics, toDiagnostics } from "./diagnostics";
 import { PrettierFormatter } from "./prettier-formatter";
 import { JsBeautifyFormatter } from "./js-beautify-formatter";
 import { FallbackFormatter } from "./fallback-formatter";
 import {
+  BiomeFormatter,
   RuffFormatter,
   GofmtFormatter,
   SqlFormatter,
   YamlFormatter,
   TomlFormatter,
 } from "./wasm-formatters";
+import { NdjsonFormatter } from "./ndjson-formatter";
+import { formatFencedBlocks } from "./markdown-embedded";
+import { LANGUAGE_DEFAULTS } from "../shared/constants";
+
+// Brace-delimited languages, where FallbackFormatter's bracket-based
+// re-indentation is a safe last resort when every real formatter failed
+const LAST_RESORT_LANGUAGES = new Set([
+  "javascript",
+  "typescript",
+  "jsx",
+  "tsx",
+  "json",
+  "css",
+  "scss",
+  "less",
+  "go",
+]);
 
 /**
  * Registry that manages all available formatters
@@ -17,7 +44,7 @@ import {
  */
 export class FormatterRegistry {
   private formatters: Map<string, IFormatter> = new Map();
-  private languageMap: Map<string, string> = new Map();
+  private languageMap: Map<string, string[]> = new Map();
 
   constructor() {
     this.registerDefaultFormatters();
@@ -25,16 +52,20 @@ export class FormatterRegistry {
 
   /**
    * Register all default formatters
+   * Registration order is priority order: the first formatter registered
+   * for a language is its default, later ones are alternatives
    */
   private registerDefaultFormatters(): void {
     // Register formatters
     this.register(new PrettierFormatter());
+    this.register(new BiomeFormatter());
     this.register(new JsBeautifyFormatter());
     this.register(new RuffFormatter());
     this.register(new GofmtFormatter());
     this.register(new SqlFormatter());
     this.register(new YamlFormatter());
     this.register(new TomlFormatter());
+    this.register(new NdjsonFormatter());
     this.register(new FallbackFormatter());
   }
 
@@ -42,30 +73,34 @@ export class FormatterRegistry {
    * Register a formatter
    */
   register(formatter: IFormatter): void {
-    this.formatters.set(formatter.metadata.id, formatter);
+    const id = formatter.metadata.id;
+    this.formatters.set(id, formatter);
 
-    // Map languages to this formatter
+    // Append to each language's candidate list, keeping registration order
     formatter.metadata.languages.forEach((lang) => {
       const normalized = normalizeLanguage(lang);
-      // If multiple formatters support a language, the last one registered wins
-      // (Prettier overrides js-beautify for web languages)
-      this.languageMap.set(normalized, formatter.metadata.id);
+      const candidates = this.languageMap.get(normalized) ?? [];
+      if (!candidates.includes(id)) {
+        candidates.push(id);
+      }
+      this.languageMap.set(normalized, candidates);
     });
   }
 
   /**
    * Get the best formatter for a language
-   * Priority: true formatters over beautifiers
+   * Uses the preferred formatter when it supports the language,
+   * otherwise the highest-priority candidate
    */
-  getFormatter(language: string): IFormatter | null {
-    const normalized = normalizeLanguage(language);
-    const formatterId = this.languageMap.get(normalized);
+  getFormatter(language: string, preferredId?: string): IFormatter | null {
+    const candidates = this.getFormattersForLanguage(language);
 
-    if (formatterId) {
-      return this.formatters.get(formatterId) || null;
+    if (preferredId) {
+      const preferred = candidates.find((f) => f.metadata.id === preferredId);
+      if (preferred) return preferred;
     }
 
-    return null;
+    return candidates[0] || null;
   }
 
   /**
@@ -75,17 +110,48 @@ export class FormatterRegistry {
     return this.formatters.get(id) || null;
   }
 
+  /**
+   * Get the formatters to try, in order, for a language
+   * The primary formatter comes first, followed by the tolerant candidates
+   * and finally the fallback formatter where it is safe to use
+   */
+  getFormatterChain(language: string, preferredId?: string): IFormatter[] {
+    const primary = this.getFormatter(language, preferredId);
+    if (!primary) return [];
+
+    const chain = [primary];
+    for (const formatter of this.getFormattersForLanguage(language)) {
+      if (formatter !== primary && formatter.metadata.capabilities.tolerant) {
+        chain.push(formatter);
+      }
+    }
+
+    const fallback = this.formatters.get("fallback");
+    if (
+      fallback &&
+      !chain.includes(fallback) &&
+      LAST_RESORT_LANGUAGES.has(normalizeLanguage(language))
+    ) {
+      chain.push(fallback);
+    }
+
+    return chain;
+  }
+
   /**
    * Format code using the appropriate formatter
+   * Falls through the formatter chain until one succeeds, recording
+   * which engine produced the output and why earlier ones were skipped
    */
   async format(
     code: string,
     language: string,
     settings?: FormatterSettings,
+    preferredId?: string,
   ): Promise<FormatResult> {
-    const formatter = this.getFormatter(language);
+    const chain = this.getFormatterChain(language, preferredId);
 
-    if (!formatter) {
+    if (chain.length === 0) {
       return {
         success: false,
         code,
@@ -93,7 +159,196 @@ export class FormatterRegistry {
       };
     }
 
-    return formatter.format(code, language, settings);
+    const skipped: SkippedFormatter[] = [];
+    let diagnostics: FormatDiagnostic[] | undefined;
+
+    for (const formatter of chain) {
+      const { id, name } = formatter.metadata;
+
+      if (!formatter.isAvailable()) {
+        skipped.push({
+          formatterId: id,
+          formatterName: name,
+          reason: "Not available in this browser",
+        });
+        continue;
+      }
+
+      let result: FormatResult;
+      try {
+        result = await formatter.format(code, language, settings);
+      } catch (error) {
+        result = {
+          success: false,
+          code,
+          error: getErrorMessage(error, "Formatting failed"),
+          diagnostics: toDiagnostics(error, code, id),
+        };
+      }
+
+      if (result.success) {
+        if (normalizeLanguage(language) === "markdown") {
+          result = await this.formatEmbeddedCode(result, settings);
+        }
+        if (diagnostics?.length) {
+          result = this.withPrimaryDiagnostics(result, diagnostics, code);
+        }
+        return { ...result, formatterId: id, formatterName: name, skipped };
+      }
+
+      skipped.push({
+        formatterId: id,
+        formatterName: name,
+        reason: result.error || "Formatting failed",
+      });
+      diagnostics ??= result.diagnostics;
+    }
+
+    // Report the primary formatter's error, it is the most relevant one
+    return {
+      success: false,
+      code,
+      error: skipped[0].reason,
+      skipped,
+      diagnostics,
+    };
+  }
+
+  /**
+   * Keep the syntax errors of a formatter that failed when a later one in
+   * the chain succeeded, as warnings placed in the output that is shown
+   */
+  private withPrimaryDiagnostics(
+    result: FormatResult,
+    diagnostics: FormatDiagnostic[],
+    code: string,
+  ): FormatResult {
+    const warnings = mapDiagnostics(diagnostics, code, result.code).map(
+      (diagnostic) => ({ ...diagnostic, severity: "warning" as const }),
+    );
+    return {
+      ...result,
+      diagnostics: [...(result.diagnostics ?? []), ...warnings],
+    };
+  }
+
+  /**
+   * Format the fenced code blocks of a formatted Markdown document with
+   * the formatters of their languages, in the settings resolved for each
+   * language, or the language's conventions when there are none
+   * Blocks that fail are reported as warnings and left as they were
+   */
+  private async formatEmbeddedCode(
+    result: FormatResult,
+    settings: FormatterSettings = { indentSize: 2, useTabs: false },
+  ): Promise<FormatResult> {
+    const { embedded, ...documentSettings } = settings;
+    const { code, diagnostics } = await formatFencedBlocks(
+      result.code,
+      (block, language) =>
+        // Nested Markdown is left alone rather than formatted recursively
+        language !== "markdown" && this.isSupported(language)
+          ? this.formatEmbeddedBlock(
+              block,
+              language,
+              embedded?.[language] ?? {
+                settings: {
+                  ...documentSettings,
+                  ...LANGUAGE_DEFAULTS[language],
+                },
+              },
+            )
+          : null,
+    );
+
+    return {
+      ...result,
+      code,
+      diagnostics: diagnostics.length
+        ? [...(result.diagnostics ?? []), ...diagnostics]
+        : result.diagnostics,
+    };
+  }
+
+  /**
+   * Format an embedded block with the primary formatter of its language
+   * only: when it fails, the block is left as it was and reported rather
+   * than replaced by the output of a tolerant engine
+   */
+  private async formatEmbeddedBlock(
+    code: string,
+    language: string,
+    { settings, preferredId }: EmbeddedFormatterSettings,
+  ): Promise<FormatResult> {
+    const formatter = this.getFormatter(language, preferredId);
+    if (!formatter?.isAvailable()) {
+      return {
+        success: false,
+        code,
+        error: `No formatter available for language: ${language}`,
+      };
+    }
+
+    const { id, name } = formatter.metadata;
+    try {
+      const result = await formatter.format(code, language, settings);
+      return { ...result, formatterId: id, formatterName: name };
+    } catch (error) {
+      return {
+        success: false,
+        code,
+        error: getErrorMessage(error, "Formatting failed"),
+        diagnostics: toDiagnostics(error, code, id),
+        formatterId: id,
+        formatterName: name,
+      };
+    }
+  }
+
+  /**
+   * Format a region of the code
+   * Uses the preferred formatter when it supports ranges, otherwise the
+   * first candidate that does. There is no fallback chain: reformatting
+   * the whole document with another engine is not what was asked for
+   */
+  async formatRange(
+    code: string,
+    language: string,
+    range: FormatRange,
+    settings?: FormatterSettings,
+    preferredId?: string,
+  ): Promise<FormatResult> {
+    const candidates = this.getFormattersForLanguage(language).filter(
+      (f) => f.formatRange && f.isAvailable(),
+    );
+    const formatter =
+      candidates.find((f) => f.metadata.id === preferredId) ?? candidates[0];
+
+    if (!formatter?.formatRange) {
+      return {
+        success: false,
+        code,
+        error: `Range formatting is not supported for ${language}`,
+      };
+    }
+
+    const { id, name } = formatter.metadata;
+    try {
+      const result = await formatter.formatRange(
+        code,
+        language,
+        range,
+        settings,
+      );
+      return { ...result, formatterId: id, formatterName: name };
+    } catch (error) {
+      return {
+        success: false,
+        code,
+        error: getErrorMessage(error, "Formatting failed"),
+        diagnostics: toDiagnostics(error, code, id),
+      };
+    }
   }
 
   /**
@@ -118,16 +373,13 @@ export class FormatterRegistry {
   }
 
   /**
-   * Get formatters for a specific language
+   * Get formatters for a specific language, in priority order
    */
   getFormattersForLanguage(language: string): IFormatter[] {
-    const normalized = normalizeLanguage(language);
-    const formatterId = this.languageMap.get(normalized);
-    if (formatterId) {
-      const formatter = this.formatters.get(formatterId);
-      return formatter ? [formatter] : [];
-    }
-    return [];
+    const candidates = this.languageMap.get(normalizeLanguage(language)) ?? [];
+    return candidates
+      .map((id) => this.formatters.get(id))
+      .filter((f): f is IFormatter => f !== undefined);
   }
 }
 
@@ -4,6 +4,9 @@ export interface FormatterSettings {
   singleQuote?: boolean;
   semi?: boolean;
   trailingComma?: "none" | "es5" | "all";
+  printWidth?: number;
+  bracketSpacing?: boolean;
+  arrowParens?: "always" | "avoid";
   e4x?: boolean;
   spaceInEmptyParens?: boolean;
   unescapeStrings?: boolean;
@@ -14,8 +17,18 @@ export interface FormatterSettings {
   alignEntries?: boolean;
   alignComments?: boolean;
   indentTables?: boolean;
+  ndjsonStyle?: "compact" | "pretty";
   autoFormatOnType?: boolean;
   formatOnPasteMinLength?: number;
+  /** How to format the code embedded in a document, by its language */
+  embedded?: Record<string, EmbeddedFormatterSettings>;
+}
+
+/** Settings for the code of one language embedded in another, e.g. in a
+ * Markdown code block, resolved like those of a file of that language */
+export interface EmbeddedFormatterSettings {
+  settings: FormatterSettings;
+  preferredId?: string;
 }
 
 export interface LanguageDefaults {
@@ -25,10 +38,44 @@ export interface LanguageDefaults {
   semi?: boolean;
 }
 
+/** A problem found in the source while formatting it */
+export interface FormatDiagnostic {
+  message: string;
+  /** 1-based line in the formatted source */
+  line: number;
+  /** 1-based column */
+  column: number;
+  severity: "error" | "warning" | "info";
+  /** Id of the formatter that reported it */
+  source: string;
+}
+
+/** A formatter that was tried and passed over by the fallback chain */
+export interface SkippedFormatter {
+  formatterId: string;
+  formatterName: string;
+  reason: string;
+}
+
 export interface FormatResult {
   success: boolean;
   code: string;
   error?: string;
+  /** Formatter that produced the output (set by the registry) */
+  formatterId?: string;
+  formatterName?: string;
+  /** Formatters tried before this one, and why they failed */
+  skipped?: SkippedFormatter[];
+  /** Located syntax errors, when the formatter could report them */
+  diagnostics?: FormatDiagnostic[];
+  /** The job was aborted before it finished, see FormatWorkerPool */
+  cancelled?: boolean;
+}
+
+/** Character offsets of a region to format, `to` exclusive */
+export interface FormatRange {
+  from: number;
+  to: number;
 }
 
 export interface FormatterCapabilities {
@@ -52,6 +99,13 @@ export interface IFormatter {
     language: string,
     settings?: FormatterSettings,
   ): Promise<FormatResult>;
+  /** Format only the given region, leaving the rest of the code untouched */
+  formatRange?(
+    code: string,
+    language: string,
+    range: FormatRange,
+    settings?: FormatterSettings,
+  ): Promise<FormatResult>;
   isAvailable(): boolean;
 }
 
@@ -62,6 +116,7 @@ const LANGUAGE_ALIASES: Record<string, string> = {
   rs: "rust",
   golang: "go",
   yml: "yaml",
+  jsonl: "ndjson",
 };
 
 export function normalizeLanguage(language: string): string {
@@ -1,18 +1,69 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
+  BiomeFormatter,
   RuffFormatter,
   GofmtFormatter,
   SqlFormatter,
   YamlFormatter,
   TomlFormatter,
 } from './wasm-formatters';
-import { clearWasmCache } from './wasm-loader';
+import { clearWasmCache, loadWasmFormatter } from './wasm-loader';
+
+vi.mock('./wasm-loader', async (importOriginal) => {
+  const loader = await importOriginal<typeof import('./wasm-loader')>();
+  return { ...loader, loadWasmFormatter: vi.fn(loader.loadWasmFormatter) };
+});
 
 describe('WASM Formatters', () => {
   beforeEach(() => {
     clearWasmCache();
   });
 
+  describe('BiomeFormatter', () => {
+    const formatter = new BiomeFormatter();
+
+    it('should have correct metadata', () => {
+      expect(formatter.metadata.id).toBe('biome');
+      expect(formatter.metadata.name).toBe('Biome');
+      expect(formatter.metadata.languages).toContain('javascript');
+      expect(formatter.metadata.languages).toContain('typescript');
+      expect(formatter.metadata.capabilities.isFormatter).toBe(true);
+    });
+
+    it('should be available', () => {
+      expect(formatter.isAvailable()).toBe(true);
+    });
+
+    it('should pass the line width, bracket spacing and arrow parens', async () => {
+      const biome = { format: vi.fn(() => 'formatted') };
+      vi.mocked(loadWasmFormatter).mockResolvedValueOnce(biome);
+
+      await formatter.format('a', 'javascript', {
+        indentSize: 2,
+        useTabs: false,
+        printWidth: 120,
+        bracketSpacing: false,
+        arrowParens: 'avoid',
+      });
+
+      expect(biome.format).toHaveBeenCalledWith(
+        'a',
+        'index.js',
+        expect.objectContaining({
+          lineWidth: 120,
+          bracketSpacing: false,
+          arrowParentheses: 'as-needed',
+        }),
+      );
+    });
+
+    it('should reject languages without a Biome source type', async () => {
+      const result = await formatter.format('a{color:red}', 'css');
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('a{color:red}');
+    });
+  });
+
   describe('RuffFormatter', () => {
     const formatter = new RuffFormatter();
 
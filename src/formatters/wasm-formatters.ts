@@ -5,6 +5,92 @@ import type {
   FormatterSettings,
 } from "./types";
 import { loadWasmFormatter, isWasmSupported } from "./wasm-loader";
+import { getErrorMessage, toDiagnostics } from "./diagnostics";
+
+// JavaScript/TypeScript formatter using Biome
+// The bundled biome_fmt build only ships Biome's JS/TS formatter; JSON and
+// CSS sources are mangled by it, so those languages stay with Prettier.
+const BIOME_FILENAMES: Record<string, string> = {
+  javascript: "index.js",
+  typescript: "index.ts",
+  jsx: "index.jsx",
+  tsx: "index.tsx",
+};
+
+export class BiomeFormatter implements IFormatter {
+  readonly metadata: FormatterMetadata = {
+    id: "biome",
+    name: "Biome",
+    description:
+      "JavaScript/TypeScript formatter (Rust-based, Prettier-compatible)",
+    languages: ["javascript", "typescript", "jsx", "tsx"],
+    capabilities: {
+      isFormatter: true,
+      isOpinionated: true,
+      tolerant: false,
+    },
+  };
+
+  async format(
+    code: string,
+    language: string,
+    settings?: FormatterSettings,
+  ): Promise<FormatResult> {
+    try {
+      if (!isWasmSupported()) {
+        return {
+          success: false,
+          code,
+          error:
+            "WebAssembly is not supported in this browser. Biome formatting requires WASM.",
+        };
+      }
+
+      const filename = BIOME_FILENAMES[language.toLowerCase()];
+      if (!filename) {
+        return {
+          success: false,
+          code,
+          error: `Language ${language} not supported by Biome`,
+        };
+      }
+
+      const biome = await loadWasmFormatter(
+        "biome_fmt_web.js",
+        "biome_fmt_bg.wasm",
+      );
+
+      const formatted = biome.format(code, filename, {
+        indentStyle: settings?.useTabs ? "tab" : "space",
+        indentWidth: settings?.indentSize ?? 2,
+        quoteStyle: settings?.singleQuote ? "single" : "double",
+        semicolons: settings?.semi === false ? "as-needed" : "always",
+        trailingComma: settings?.trailingComma ?? "all",
+        // Prettier's options, under the names Biome gives them
+        lineWidth: settings?.printWidth ?? 80,
+        bracketSpacing: settings?.bracketSpacing ?? true,
+        arrowParentheses:
+          settings?.arrowParens === "avoid" ? "as-needed" : "always",
+      });
+
+      return { success: true, code: formatted };
+    } catch (error) {
+      return {
+        success: false,
+        code,
+        error: getErrorMessage(
+          error,
+          "Biome formatting failed. Make sure WASM is enabled.",
+        ),
+        diagnostics: toDiagnostics(error, code, this.metadata.id),
+      };
+    }
+  }
+
+  isAvailable(): boolean {
+    return isWasmSupported();
+  }
+}
 
 // Python formatter using Ruff (Rust-based, very fast)
 export class RuffFormatter implements IFormatter {
@@ -52,10 +138,11 @@ export class RuffFormatter implements IFormatter {
       return {
         success: false,
         code,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Python formatting failed. Make sure WASM is enabled.",
+        error: getErrorMessage(
+          error,
+          "Python formatting failed. Make sure WASM is enabled.",
+        ),
+        diagnostics: toDiagnostics(error, code, this.metadata.id),
       };
     }
   }
@@ -98,10 +185,11 @@ export class GofmtFormatter implements IFormatter {
       return {
         success: false,
         code,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Go formatting failed. Make sure WASM is enabled.",
+        error: getErrorMessage(
+          error,
+          "Go formatting failed. Make sure WASM is enabled.",
+        ),
+        diagnostics: toDiagnostics(error, code, this.metadata.id),
       };
     }
   }
@@ -154,10 +242,11 @@ export class SqlFormatter implements IFormatter {
       return {
         success: false,
         code,
-        error:
-          error instanceof Error
-            ? error.message
-            : "SQL formatting failed. Make sure WASM is enabled.",
+        error: getErrorMessage(
+          error,
+          "SQL formatting failed. Make sure WASM is enabled.",
+        ),
+        diagnostics: toDiagnostics(error, code, this.metadata.id),
       };
     }
   }
@@ -209,10 +298,11 @@ export class YamlFormatter implements IFormatter {
       return {
         success: false,
         code,
-        error:
-          error instanceof Error
-            ? error.message
-            : "YAML formatting failed. Make sure WASM is enabled.",
+        error: getErrorMessage(
+          error,
+          "YAML formatting failed. Make sure WASM is enabled.",
+        ),
+        diagnostics: toDiagnostics(error, code, this.metadata.id),
       };
     }
   }
@@ -266,10 +356,11 @@ export class TomlFormatter implements IFormatter {
       return {
         success: false,
         code,
-        error:
-          error instanceof Error
-            ? error.message
-            : "TOML formatting failed. Make sure WASM is enabled.",
+        error: getErrorMessage(
+          error,
+          "TOML formatting failed. Make sure WASM is enabled.",
+        ),
+        diagnostics: toDiagnostics(error, code, this.metadata.id),
       };
     }
   }
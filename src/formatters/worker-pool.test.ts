@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  FormatWorkerPool,
+  executeFormatJob,
+  getEngineFamily,
+  type FormatWorkerRequest,
+} from "./worker-pool";
+
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: FormatWorkerRequest[] = [];
+  terminated = false;
+
+  postMessage(request: FormatWorkerRequest): void {
+    this.posted.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(code: string): void {
+    const { id } = this.posted[this.posted.length - 1];
+    this.onmessage?.({
+      data: { id, result: { success: true, code } },
+    } as MessageEvent);
+  }
+}
+
+function createPool(timeoutMs = 1000) {
+  const workers: Record<string, FakeWorker[]> = {};
+  const pool = new FormatWorkerPool((family) => {
+    const worker = new FakeWorker();
+    (workers[family] ??= []).push(worker);
+    return worker as unknown as Worker;
+  }, timeoutMs);
+  return { pool, workers };
+}
+
+describe("FormatWorkerPool", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should group engines into families", () => {
+    expect(getEngineFamily({ code: "", language: "javascript" })).toBe(
+      "prettier",
+    );
+    expect(
+      getEngineFamily({
+        code: "",
+        language: "javascript",
+        preferredId: "js-beautify",
+      }),
+    ).toBe("beautify");
+    expect(getEngineFamily({ code: "", language: "python" })).toBe("wasm");
+  });
+
+  it("should run jobs on one worker per family", async () => {
+    const { pool, workers } = createPool();
+
+    const js = pool.run({ code: "a", language: "javascript" });
+    const py = pool.run({ code: "b", language: "python" });
+    workers.prettier[0].reply("A");
+    workers.wasm[0].reply("B");
+
+    expect((await js).code).toBe("A");
+    expect((await py).code).toBe("B");
+  });
+
+  it("should queue jobs for a busy worker", async () => {
+    const { pool, workers } = createPool();
+
+    const first = pool.run({ code: "a", language: "javascript" });
+    const second = pool.run({ code: "b", language: "javascript" });
+    const worker = workers.prettier[0];
+    expect(worker.posted).toHaveLength(1);
+
+    worker.reply("A");
+    await first;
+    expect(worker.posted).toHaveLength(2);
+    worker.reply("B");
+    expect((await second).code).toBe("B");
+  });
+
+  it("should terminate a worker that times out and carry on with a new one", async () => {
+    vi.useFakeTimers();
+    const { pool, workers } = createPool(500);
+
+    const stuck = pool.run({ code: "a", language: "javascript" });
+    const next = pool.run({ code: "b", language: "javascript" });
+    vi.advanceTimersByTime(500);
+
+    const result = await stuck;
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("timed out");
+    expect(workers.prettier[0].terminated).toBe(true);
+
+    workers.prettier[1].reply("B");
+    expect((await next).code).toBe("B");
+  });
+
+  it("should drop a queued job when it is cancelled", async () => {
+    const { pool, workers } = createPool();
+
+    pool.run({ code: "a", language: "javascript" }, "tab:1");
+    const queued = pool.run({ code: "b", language: "javascript" }, "tab:2");
+
+    expect(pool.cancel("tab:2")).toBe(true);
+    expect((await queued).cancelled).toBe(true);
+    expect(workers.prettier[0].terminated).toBe(false);
+  });
+
+  it("should terminate the worker of a cancelled running job", async () => {
+    const { pool, workers } = createPool();
+
+    const running = pool.run({ code: "a", language: "javascript" }, "tab:1");
+
+    expect(pool.cancel("tab:1")).toBe(true);
+    expect((await running).cancelled).toBe(true);
+    expect(workers.prettier[0].terminated).toBe(true);
+    expect(pool.cancel("tab:1")).toBe(false);
+  });
+});
+
+describe("executeFormatJob", () => {
+  it("should format whole documents and ranges", async () => {
+    const code = "const a    =   1;\nconst b    =   2;\n";
+
+    const whole = await executeFormatJob({ code, language: "javascript" });
+    expect(whole.code).toBe("const a = 1;\nconst b = 2;\n");
+
+    const range = await executeFormatJob({
+      code,
+      language: "javascript",
+      range: { from: 0, to: 17 },
+    });
+    expect(range.code).toBe("const a = 1;\nconst b    =   2;\n");
+  });
+});
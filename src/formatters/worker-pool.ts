@@ -0,0 +1,273 @@
+/**
+ * Worker pool for formatting jobs
+ * Keeps formatters off the background script's main thread, one worker per
+ * engine family, so a slow Ruff run never holds up Prettier. A job that
+ * times out or is cancelled while running has its worker terminated, which
+ * is the only way to stop a formatter stuck in a loop
+ */
+
+import type { FormatRange, FormatResult, FormatterSettings } from "./types";
+import { formatterRegistry } from "./registry";
+import { getErrorMessage } from "./diagnostics";
+
+/** A format or range-format request, as run by a worker */
+export interface FormatJob {
+  code: string;
+  language: string;
+  settings?: FormatterSettings;
+  preferredId?: string;
+  /** Only reformat this region, see FormatterRegistry.formatRange */
+  range?: FormatRange;
+}
+
+/** Message posted to a format worker */
+export interface FormatWorkerRequest {
+  id: number;
+  job: FormatJob;
+}
+
+/** Message posted back by a format worker */
+export interface FormatWorkerResponse {
+  id: number;
+  result: FormatResult;
+}
+
+// Engines sharing a worker. The WASM engines share one since each module
+// is small once loaded and they are rarely used side by side
+const ENGINE_FAMILIES: Record<string, string> = {
+  prettier: "prettier",
+  "js-beautify": "beautify",
+  fallback: "beautify",
+  biome: "wasm",
+  ruff: "wasm",
+  gofmt: "wasm",
+  "sql-formatter": "wasm",
+  "yaml-formatter": "wasm",
+  "toml-formatter": "wasm",
+  ndjson: "beautify",
+};
+
+/**
+ * Run a job with the formatter registry
+ * Used by the workers, and in place when workers are unavailable
+ */
+export async function executeFormatJob(job: FormatJob): Promise<FormatResult> {
+  try {
+    if (job.range) {
+      return await formatterRegistry.formatRange(
+        job.code,
+        job.language,
+        job.range,
+        job.settings,
+        job.preferredId,
+      );
+    }
+    return await formatterRegistry.format(
+      job.code,
+      job.language,
+      job.settings,
+      job.preferredId,
+    );
+  } catch (error) {
+    return {
+      success: false,
+      code: job.code,
+      error: getErrorMessage(error, "Formatting failed"),
+    };
+  }
+}
+
+/**
+ * Get the worker family for a job, from the engine that will run it
+ */
+export function getEngineFamily(job: FormatJob): string {
+  const formatter = formatterRegistry.getFormatter(
+    job.language,
+    job.preferredId,
+  );
+  return ENGINE_FAMILIES[formatter?.metadata.id ?? ""] ?? "default";
+}
+
+interface QueuedJob {
+  id: number;
+  job: FormatJob;
+  /** Key a cancel request refers to */
+  key?: string;
+  resolve: (result: FormatResult) => void;
+}
+
+interface FamilySlot {
+  family: string;
+  worker: Worker | null;
+  running: QueuedJob | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  queue: QueuedJob[];
+}
+
+export class FormatWorkerPool {
+  private slots: Map<string, FamilySlot> = new Map();
+  private nextId = 1;
+
+  /**
+   * @param createWorker - Spawns a worker running format-worker.ts
+   * @param timeoutMs - How long a job may run before its worker is killed
+   */
+  constructor(
+    private createWorker: (family: string) => Worker,
+    private timeoutMs: number,
+  ) {}
+
+  /**
+   * Queue a job on its family's worker
+   * Never rejects: timeouts, cancellation and worker crashes all resolve
+   * to a failed result
+   */
+  run(job: FormatJob, key?: string): Promise<FormatResult> {
+    const slot = this.getSlot(getEngineFamily(job));
+
+    return new Promise((resolve) => {
+      slot.queue.push({ id: this.nextId++, job, key, resolve });
+      this.runNext(slot);
+    });
+  }
+
+  /**
+   * Abort the job submitted with a key
+   * A queued job is dropped, a running one has its worker terminated
+   * @returns Whether a job was found
+   */
+  cancel(key: string): boolean {
+    for (const slot of this.slots.values()) {
+      const index = slot.queue.findIndex((queued) => queued.key === key);
+      if (index !== -1) {
+        const [queued] = slot.queue.splice(index, 1);
+        queued.resolve(cancelledResult(queued.job));
+        return true;
+      }
+
+      if (slot.running?.key === key) {
+        this.stop(slot, cancelledResult(slot.running.job));
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Terminate every worker and fail the jobs they had
+   */
+  terminate(): void {
+    for (const slot of this.slots.values()) {
+      const pending = slot.queue.splice(0);
+      if (slot.timer) clearTimeout(slot.timer);
+      slot.worker?.terminate();
+      slot.worker = null;
+
+      if (slot.running) pending.unshift(slot.running);
+      slot.running = null;
+
+      pending.forEach((queued) =>
+        queued.resolve({
+          success: false,
+          code: queued.job.code,
+          error: "Formatter workers were shut down",
+        }),
+      );
+    }
+    this.slots.clear();
+  }
+
+  /**
+   * Number of jobs running or waiting, per family
+   */
+  getStats(): Record<string, number> {
+    const stats: Record<string, number> = {};
+    this.slots.forEach((slot) => {
+      stats[slot.family] = slot.queue.length + (slot.running ? 1 : 0);
+    });
+    return stats;
+  }
+
+  private getSlot(family: string): FamilySlot {
+    let slot = this.slots.get(family);
+    if (!slot) {
+      slot = { family, worker: null, running: null, timer: null, queue: [] };
+      this.slots.set(family, slot);
+    }
+    return slot;
+  }
+
+  private runNext(slot: FamilySlot): void {
+    if (slot.running) return;
+
+    const queued = slot.queue.shift();
+    if (!queued) return;
+
+    slot.running = queued;
+    slot.worker ??= this.spawn(slot);
+    slot.timer = setTimeout(() => {
+      this.stop(slot, {
+        success: false,
+        code: queued.job.code,
+        error: `Formatting timed out after ${this.timeoutMs}ms`,
+      });
+    }, this.timeoutMs);
+
+    const request: FormatWorkerRequest = { id: queued.id, job: queued.job };
+    slot.worker.postMessage(request);
+  }
+
+  private spawn(slot: FamilySlot): Worker {
+    const worker = this.createWorker(slot.family);
+
+    worker.onmessage = (event: MessageEvent<FormatWorkerResponse>) => {
+      // Replies from a job that was already stopped are dropped
+      if (event.data.id === slot.running?.id) {
+        this.finish(slot, event.data.result);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      if (slot.running) {
+        this.stop(slot, {
+          success: false,
+          code: slot.running.job.code,
+          error: event.message || "Formatter worker crashed",
+        });
+      }
+    };
+
+    return worker;
+  }
+
+  private finish(slot: FamilySlot, result: FormatResult): void {
+    if (slot.timer) clearTimeout(slot.timer);
+    slot.timer = null;
+
+    const finished = slot.running;
+    slot.running = null;
+    finished?.resolve(result);
+
+    this.runNext(slot);
+  }
+
+  /**
+   * Kill the worker running a job and settle the job with a result
+   * A fresh worker is spawned for the next job in the queue
+   */
+  private stop(slot: FamilySlot, result: FormatResult): void {
+    slot.worker?.terminate();
+    slot.worker = null;
+    this.finish(slot, result);
+  }
+}
+
+function cancelledResult(job: FormatJob): FormatResult {
+  return {
+    success: false,
+    code: job.code,
+    error: "Formatting was cancelled",
+    cancelled: true,
+  };
+}
@@ -3,7 +3,20 @@
  * Handles settings management, form interactions, and Chrome storage synchronization
  */
 
-import type { ThemeName } from "./shared/types";
+import type {
+  ExtensionSettings,
+  GetCacheStatsResponse,
+  GetFormattersResponse,
+  LanguageSettings,
+  ProfileRule,
+  SettingsProfile,
+  ThemeName,
+} from "./shared/types";
+import {
+  FORMATTABLE_LANGUAGES,
+  PROFILE_SETTING_KEYS,
+} from "./shared/constants";
+import { formatFileSize, getLanguageLabel } from "./shared/utils";
 
 /**
  * Local settings interface for options page
@@ -30,9 +43,17 @@ interface FormatterSettings {
   quoteStyleWasm: "single" | "double" | "preserve";
   keywordCase: "upper" | "lower" | "preserve";
   commaPosition: "before" | "after";
+  // NDJSON options
+  ndjsonStyle: "compact" | "pretty";
+  // Formatter engine per language
+  formatterByLanguage: Record<string, string>;
+  // Formatting overrides per language
+  languageOverrides: Record<string, LanguageSettings>;
   // Feature flags
   autoFormatOnType: boolean;
   formatOnPasteMinLength: number;
+  useProjectConfig: boolean;
+  inlineCodeBlocks: boolean;
 }
 
 /**
@@ -43,7 +64,8 @@ type NotificationType = "success" | "error" | "warning";
 /**
  * Chrome storage result type for settings retrieval
  */
-type StorageResult = Partial<FormatterSettings>;
+type StorageResult = Partial<FormatterSettings> &
+  Pick<ExtensionSettings, "profiles" | "profileRules">;
 
 document.addEventListener("DOMContentLoaded", function (): void {
   // DOM Elements - typed as nullable initially, will be checked
@@ -96,6 +118,12 @@ document.addEventListener("DOMContentLoaded", function (): void {
     document.getElementById(
       "format-on-paste-min-length",
     ) as HTMLInputElement | null;
+  const useProjectConfig: HTMLInputElement | null = document.getElementById(
+    "use-project-config",
+  ) as HTMLInputElement | null;
+  const inlineCodeBlocks: HTMLInputElement | null = document.getElementById(
+    "inline-code-blocks",
+  ) as HTMLInputElement | null;
 
   // js-beautify options
   const e4x: HTMLInputElement | null = document.getElementById(
@@ -122,6 +150,43 @@ document.addEventListener("DOMContentLoaded", function (): void {
     "comma-position",
   ) as HTMLSelectElement | null;
 
+  // NDJSON options
+  const ndjsonStyle: HTMLSelectElement | null = document.getElementById(
+    "ndjson-style",
+  ) as HTMLSelectElement | null;
+
+  // Formatter engine pickers are rendered into this container
+  const formatterEngines: HTMLElement | null =
+    document.getElementById("formatter-engines");
+
+  // Per-language overrides are rendered into this container
+  const languageOverrideList: HTMLElement | null =
+    document.getElementById("language-overrides");
+  const addOverrideBtn: HTMLButtonElement | null = document.getElementById(
+    "add-override-btn",
+  ) as HTMLButtonElement | null;
+
+  // Profiles and the site rules that assign them
+  const profileName: HTMLInputElement | null = document.getElementById(
+    "profile-name",
+  ) as HTMLInputElement | null;
+  const saveProfileBtn: HTMLButtonElement | null = document.getElementById(
+    "save-profile-btn",
+  ) as HTMLButtonElement | null;
+  const profileList: HTMLElement | null =
+    document.getElementById("profile-list");
+  const profileRulesList: HTMLElement | null =
+    document.getElementById("profile-rules");
+  const addRuleBtn: HTMLButtonElement | null = document.getElementById(
+    "add-rule-btn",
+  ) as HTMLButtonElement | null;
+
+  // Format cache statistics
+  const cacheStats: HTMLElement | null = document.getElementById("cache-stats");
+  const clearCacheBtn: HTMLButtonElement | null = document.getElementById(
+    "clear-cache-btn",
+  ) as HTMLButtonElement | null;
+
   // Validate that all required elements exist
   if (
     !form ||
@@ -140,13 +205,26 @@ document.addEventListener("DOMContentLoaded", function (): void {
     !trailingComma ||
     !autoFormatOnType ||
     !formatOnPasteMinLength ||
+    !useProjectConfig ||
+    !inlineCodeBlocks ||
     !e4x ||
     !spaceInEmptyParens ||
     !unescapeStrings ||
     !keepArrayIndentation ||
     !quoteStyleWasm ||
     !keywordCase ||
-    !commaPosition
+    !commaPosition ||
+    !ndjsonStyle ||
+    !formatterEngines ||
+    !languageOverrideList ||
+    !addOverrideBtn ||
+    !profileName ||
+    !saveProfileBtn ||
+    !profileList ||
+    !profileRulesList ||
+    !addRuleBtn ||
+    !cacheStats ||
+    !clearCacheBtn
   ) {
     console.error("[Code Formatter] Required DOM elements not found");
     return;
@@ -166,6 +244,8 @@ document.addEventListener("DOMContentLoaded", function (): void {
     trailingComma: "es5",
     autoFormatOnType: false,
     formatOnPasteMinLength: 5,
+    useProjectConfig: true,
+    inlineCodeBlocks: true,
     // js-beautify options
     e4x: false,
     spaceInEmptyParens: false,
@@ -175,8 +255,19 @@ document.addEventListener("DOMContentLoaded", function (): void {
     quoteStyleWasm: "preserve",
     keywordCase: "preserve",
     commaPosition: "before",
+    // NDJSON options
+    ndjsonStyle: "compact",
+    formatterByLanguage: {},
+    languageOverrides: {},
   };
 
+  // Engine preferences from storage, applied once the pickers exist
+  let savedFormatterByLanguage: Record<string, string> = {};
+
+  // Profiles and rules are edited here and stored with the other settings
+  let profiles: SettingsProfile[] = [];
+  let profileRules: ProfileRule[] = [];
+
   // Theme management
   document.documentElement.setAttribute("data-theme", "dark");
 
@@ -230,6 +321,466 @@ document.addEventListener("DOMContentLoaded", function (): void {
   // Line height slider event listeners
   lineHeight.addEventListener("input", syncLineHeightElements);
 
+  /**
+   * Renders one engine picker per language that has several formatters
+   * @param choices - Candidate engines per language, highest priority first
+   */
+  function renderFormatterEngines(
+    choices: GetFormattersResponse["formatters"],
+  ): void {
+    formatterEngines!.textContent = "";
+
+    Object.keys(choices)
+      .sort()
+      .forEach((language: string): void => {
+        const group: HTMLDivElement = document.createElement("div");
+        group.className = "form-group";
+
+        const label: HTMLLabelElement = document.createElement("label");
+        label.className = "form-label";
+        label.htmlFor = `formatter-engine-${language}`;
+        label.textContent = getLanguageLabel(language);
+
+        const select: HTMLSelectElement = document.createElement("select");
+        select.className = "form-control form-select";
+        select.id = `formatter-engine-${language}`;
+        select.dataset.language = language;
+
+        choices[language].forEach((choice): void => {
+          const option: HTMLOptionElement = document.createElement("option");
+          option.value = choice.id;
+          option.textContent = choice.name;
+          option.title = choice.description;
+          select.appendChild(option);
+        });
+
+        group.appendChild(label);
+        group.appendChild(select);
+        formatterEngines!.appendChild(group);
+      });
+
+    applyFormatterEngineSelections();
+  }
+
+  /**
+   * Selects the saved engine in each picker, or the default (first) one
+   */
+  function applyFormatterEngineSelections(): void {
+    formatterEngines!
+      .querySelectorAll<HTMLSelectElement>("select[data-language]")
+      .forEach((select: HTMLSelectElement): void => {
+        const saved: string | undefined =
+          savedFormatterByLanguage[select.dataset.language!];
+        const hasSaved: boolean = Array.from(select.options).some(
+          (option: HTMLOptionElement): boolean => option.value === saved,
+        );
+        select.selectedIndex = 0;
+        if (saved && hasSaved) select.value = saved;
+      });
+  }
+
+  /**
+   * Collects engine choices that differ from each language's default
+   * @returns Map of language to formatter id
+   */
+  function collectFormatterEngineSelections(): Record<string, string> {
+    const selections: Record<string, string> = {};
+    formatterEngines!
+      .querySelectorAll<HTMLSelectElement>("select[data-language]")
+      .forEach((select: HTMLSelectElement): void => {
+        if (select.selectedIndex > 0) {
+          selections[select.dataset.language!] = select.value;
+        }
+      });
+    return selections;
+  }
+
+  /**
+   * Asks the background script which formatter engines are available
+   */
+  function loadFormatterEngines(): void {
+    chrome.runtime.sendMessage(
+      { action: "getFormatters" },
+      function (response: GetFormattersResponse | undefined): void {
+        if (chrome.runtime.lastError || !response?.success) {
+          console.warn(
+            "[Code Formatter] Failed to load formatter engines:",
+            chrome.runtime.lastError?.message,
+          );
+          return;
+        }
+        renderFormatterEngines(response.formatters);
+      },
+    );
+  }
+
+  /**
+   * Creates a select with a leading "Default" option
+   * @param field - Row field the select edits
+   * @param options - Value and label of the other options
+   */
+  function createOverrideSelect(
+    field: string,
+    options: Array<[string, string]>,
+  ): HTMLSelectElement {
+    const select: HTMLSelectElement = document.createElement("select");
+    select.className = "form-control form-select";
+    select.dataset.field = field;
+    [["", "Default"], ...options].forEach(([value, label]): void => {
+      const option: HTMLOptionElement = document.createElement("option");
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
+    });
+    return select;
+  }
+
+  /**
+   * Renders one row per language override: language, indent size,
+   * indentation style and remove button
+   * @param overrides - Overrides to show, keyed by language
+   */
+  function renderLanguageOverrides(
+    overrides: Record<string, LanguageSettings>,
+  ): void {
+    languageOverrideList!.textContent = "";
+
+    Object.entries(overrides).forEach(
+      ([language, override]: [string, LanguageSettings]): void => {
+        const row: HTMLDivElement = document.createElement("div");
+        row.className = "list-row";
+        row.dataset.override = "";
+
+        const languageSelect: HTMLSelectElement =
+          document.createElement("select");
+        languageSelect.className = "form-control form-select";
+        languageSelect.dataset.field = "language";
+        Array.from(FORMATTABLE_LANGUAGES)
+          .sort()
+          .forEach((lang: string): void => {
+            const option: HTMLOptionElement = document.createElement("option");
+            option.value = lang;
+            option.textContent = getLanguageLabel(lang);
+            languageSelect.appendChild(option);
+          });
+        languageSelect.value = language;
+
+        const size: HTMLSelectElement = createOverrideSelect("indent-size", [
+          ["2", "2 spaces"],
+          ["4", "4 spaces"],
+          ["8", "8 spaces"],
+        ]);
+        size.value =
+          override.indentSize !== undefined ? String(override.indentSize) : "";
+
+        const style: HTMLSelectElement = createOverrideSelect("indent-style", [
+          ["spaces", "Spaces"],
+          ["tabs", "Tabs"],
+        ]);
+        if (override.useTabs !== undefined) {
+          style.value = override.useTabs ? "tabs" : "spaces";
+        }
+
+        row.appendChild(languageSelect);
+        row.appendChild(size);
+        row.appendChild(style);
+        row.appendChild(
+          createIconButton("fa-times", "Remove override", (): void => {
+            const remaining: Record<string, LanguageSettings> =
+              collectLanguageOverrides(false);
+            delete remaining[languageSelect.value];
+            renderLanguageOverrides(remaining);
+          }),
+        );
+        languageOverrideList!.appendChild(row);
+      },
+    );
+  }
+
+  /**
+   * Reads the language overrides back from the override rows
+   * @param skipEmpty - Leave out rows that override nothing
+   * @returns Overrides keyed by language; a later row for the same
+   *   language wins
+   */
+  function collectLanguageOverrides(
+    skipEmpty: boolean = true,
+  ): Record<string, LanguageSettings> {
+    const overrides: Record<string, LanguageSettings> = {};
+    languageOverrideList!
+      .querySelectorAll<HTMLElement>("[data-override]")
+      .forEach((row: HTMLElement): void => {
+        const field = (name: string): string =>
+          row.querySelector<HTMLSelectElement>(`[data-field="${name}"]`)
+            ?.value ?? "";
+
+        const override: LanguageSettings = {};
+        const size: number = parseInt(field("indent-size"), 10);
+        if (size > 0) override.indentSize = size;
+        if (field("indent-style")) {
+          override.useTabs = field("indent-style") === "tabs";
+        }
+
+        if (skipEmpty && Object.keys(override).length === 0) return;
+        overrides[field("language")] = override;
+      });
+    return overrides;
+  }
+
+  addOverrideBtn.addEventListener("click", function (): void {
+    const overrides: Record<string, LanguageSettings> =
+      collectLanguageOverrides(false);
+    const language: string | undefined = Array.from(FORMATTABLE_LANGUAGES)
+      .sort()
+      .find((lang: string): boolean => !(lang in overrides));
+    if (!language) return;
+
+    overrides[language] = {};
+    renderLanguageOverrides(overrides);
+  });
+
+  /**
+   * Reads the formatting settings a profile stores from the form
+   * @returns The current value of every profile setting
+   */
+  function readProfileSettings(): Partial<ExtensionSettings> {
+    const values: Partial<ExtensionSettings> = {
+      indentSize: parseInt(indentSize!.value, 10) || defaultSettings.indentSize,
+      useTabs: false,
+      singleQuote: singleQuote!.checked,
+      semi: semi!.checked,
+      trailingComma: trailingComma!.value as FormatterSettings["trailingComma"],
+      e4x: e4x!.checked,
+      spaceInEmptyParens: spaceInEmptyParens!.checked,
+      unescapeStrings: unescapeStrings!.checked,
+      keepArrayIndentation: keepArrayIndentation!.checked,
+      quoteStyleWasm: quoteStyleWasm!
+        .value as FormatterSettings["quoteStyleWasm"],
+      keywordCase: keywordCase!.value as FormatterSettings["keywordCase"],
+      commaPosition: commaPosition!.value as FormatterSettings["commaPosition"],
+      ndjsonStyle: ndjsonStyle!.value as FormatterSettings["ndjsonStyle"],
+    };
+
+    const settings: Partial<ExtensionSettings> = {};
+    PROFILE_SETTING_KEYS.forEach((key): void => {
+      Object.assign(settings, { [key]: values[key] });
+    });
+    return settings;
+  }
+
+  /**
+   * Creates a small icon button for the list rows
+   * @param icon - Font Awesome icon class
+   * @param title - Tooltip and accessible label
+   * @param onClick - Click handler
+   */
+  function createIconButton(
+    icon: string,
+    title: string,
+    onClick: () => void,
+  ): HTMLButtonElement {
+    const button: HTMLButtonElement = document.createElement("button");
+    button.type = "button";
+    button.className = "btn btn-secondary";
+    button.title = title;
+    button.setAttribute("aria-label", title);
+
+    const i: HTMLElement = document.createElement("i");
+    i.className = `fas ${icon}`;
+    button.appendChild(i);
+
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  /**
+   * Renders the saved profiles with their delete buttons
+   */
+  function renderProfiles(): void {
+    profileList!.textContent = "";
+
+    if (profiles.length === 0) {
+      const empty: HTMLDivElement = document.createElement("div");
+      empty.className = "list-empty";
+      empty.textContent = "No profiles yet";
+      profileList!.appendChild(empty);
+    }
+
+    profiles.forEach((profile: SettingsProfile): void => {
+      const row: HTMLDivElement = document.createElement("div");
+      row.className = "list-row";
+
+      const name: HTMLSpanElement = document.createElement("span");
+      name.className = "form-control";
+      name.textContent = profile.name;
+
+      row.appendChild(name);
+      row.appendChild(
+        createIconButton("fa-trash", `Delete ${profile.name}`, (): void => {
+          profiles = profiles.filter(
+            (p: SettingsProfile): boolean => p.id !== profile.id,
+          );
+          profileRules = collectProfileRules().filter(
+            (rule: ProfileRule): boolean => rule.profileId !== profile.id,
+          );
+          renderProfiles();
+          renderProfileRules();
+        }),
+      );
+      profileList!.appendChild(row);
+    });
+  }
+
+  /**
+   * Renders one row per site rule: URL pattern, profile and remove button
+   */
+  function renderProfileRules(): void {
+    profileRulesList!.textContent = "";
+
+    profileRules.forEach((rule: ProfileRule, index: number): void => {
+      const row: HTMLDivElement = document.createElement("div");
+      row.className = "list-row";
+      row.dataset.rule = "";
+
+      const pattern: HTMLInputElement = document.createElement("input");
+      pattern.type = "text";
+      pattern.className = "form-control";
+      pattern.placeholder = "git.example.com/*";
+      pattern.value = rule.pattern;
+      pattern.dataset.field = "pattern";
+
+      const select: HTMLSelectElement = document.createElement("select");
+      select.className = "form-control form-select";
+      select.dataset.field = "profile";
+      profiles.forEach((profile: SettingsProfile): void => {
+        const option: HTMLOptionElement = document.createElement("option");
+        option.value = profile.id;
+        option.textContent = profile.name;
+        select.appendChild(option);
+      });
+      if (rule.profileId) select.value = rule.profileId;
+
+      row.appendChild(pattern);
+      row.appendChild(select);
+      row.appendChild(
+        createIconButton("fa-times", "Remove rule", (): void => {
+          profileRules = collectProfileRules(false);
+          profileRules.splice(index, 1);
+          renderProfileRules();
+        }),
+      );
+      profileRulesList!.appendChild(row);
+    });
+  }
+
+  /**
+   * Reads the site rules back from the rule rows
+   * @param skipEmpty - Leave out rows without a pattern or profile
+   * @returns Rules in display order
+   */
+  function collectProfileRules(skipEmpty: boolean = true): ProfileRule[] {
+    const rules: ProfileRule[] = [];
+    profileRulesList!
+      .querySelectorAll<HTMLElement>("[data-rule]")
+      .forEach((row: HTMLElement): void => {
+        const pattern: string =
+          row
+            .querySelector<HTMLInputElement>('[data-field="pattern"]')
+            ?.value.trim() ?? "";
+        const profileId: string =
+          row.querySelector<HTMLSelectElement>('[data-field="profile"]')
+            ?.value ?? "";
+        if (skipEmpty && (!pattern || !profileId)) return;
+        rules.push({ pattern, profileId });
+      });
+    return rules;
+  }
+
+  saveProfileBtn.addEventListener("click", function (): void {
+    const name: string = profileName.value.trim();
+    if (!name) {
+      showNotification("Enter a name for the profile", "error");
+      profileName.focus();
+      return;
+    }
+
+    // Saving under an existing name updates that profile
+    const existing: SettingsProfile | undefined = profiles.find(
+      (p: SettingsProfile): boolean => p.name === name,
+    );
+    if (existing) {
+      existing.settings = readProfileSettings();
+    } else {
+      profiles.push({
+        id: `profile-${Date.now().toString(36)}`,
+        name,
+        settings: readProfileSettings(),
+      });
+    }
+
+    profileName.value = "";
+    profileRules = collectProfileRules(false);
+    renderProfiles();
+    renderProfileRules();
+    showNotification(
+      `Profile "${name}" ready, save settings to keep it`,
+      "success",
+    );
+  });
+
+  addRuleBtn.addEventListener("click", function (): void {
+    if (profiles.length === 0) {
+      showNotification("Save a profile before adding rules", "warning");
+      return;
+    }
+    profileRules = collectProfileRules(false);
+    profileRules.push({ pattern: "", profileId: profiles[0].id });
+    renderProfileRules();
+    profileRulesList
+      .querySelector<HTMLInputElement>(
+        '[data-rule]:last-child [data-field="pattern"]',
+      )
+      ?.focus();
+  });
+
+  /**
+   * Asks the background script for the format cache statistics
+   */
+  function loadCacheStats(): void {
+    chrome.runtime.sendMessage(
+      { action: "getCacheStats" },
+      function (response: GetCacheStatsResponse | undefined): void {
+        if (chrome.runtime.lastError || !response?.success) {
+          cacheStats!.textContent = "Cache unavailable";
+          return;
+        }
+
+        const { hits, misses, entries, bytes } = response.stats;
+        const lookups: number = hits + misses;
+        const hitRate: string = lookups
+          ? `${Math.round((hits / lookups) * 100)}%`
+          : "n/a";
+        cacheStats!.textContent =
+          `${entries} entries, ${formatFileSize(bytes)}. ` +
+          `Hit rate ${hitRate} (${hits} hits, ${misses} misses)`;
+      },
+    );
+  }
+
+  clearCacheBtn.addEventListener("click", function (): void {
+    chrome.runtime.sendMessage(
+      { action: "clearCache" },
+      function (response: { success: boolean } | undefined): void {
+        if (chrome.runtime.lastError || !response?.success) {
+          showNotification("Failed to clear the cache", "error");
+          return;
+        }
+        showNotification("Format cache cleared", "success");
+        loadCacheStats();
+      },
+    );
+  });
+
   /**
    * Loads saved settings from Chrome storage
    */
@@ -246,6 +797,8 @@ document.addEventListener("DOMContentLoaded", function (): void {
       "trailingComma",
       "autoFormatOnType",
       "formatOnPasteMinLength",
+      "useProjectConfig",
+      "inlineCodeBlocks",
       // js-beautify options
       "e4x",
       "spaceInEmptyParens",
@@ -255,10 +808,14 @@ document.addEventListener("DOMContentLoaded", function (): void {
       "quoteStyleWasm",
       "keywordCase",
       "commaPosition",
+      // NDJSON options
+      "ndjsonStyle",
+      "formatterByLanguage",
+      "languageOverrides",
     ];
 
     chrome.storage.sync.get(
-      storageKeys,
+      [...storageKeys, "profiles", "profileRules"],
       function (result: StorageResult): void {
         if (chrome.runtime.lastError) {
           console.warn(
@@ -299,6 +856,14 @@ document.addEventListener("DOMContentLoaded", function (): void {
           result.formatOnPasteMinLength ??
             defaultSettings.formatOnPasteMinLength,
         );
+        useProjectConfig!.checked =
+          result.useProjectConfig !== undefined
+            ? result.useProjectConfig
+            : defaultSettings.useProjectConfig;
+        inlineCodeBlocks!.checked =
+          result.inlineCodeBlocks !== undefined
+            ? result.inlineCodeBlocks
+            : defaultSettings.inlineCodeBlocks;
 
         // js-beautify options
         e4x!.checked =
@@ -323,6 +888,21 @@ document.addEventListener("DOMContentLoaded", function (): void {
         commaPosition!.value =
           result.commaPosition || defaultSettings.commaPosition;
 
+        // NDJSON options
+        ndjsonStyle!.value = result.ndjsonStyle || defaultSettings.ndjsonStyle;
+
+        savedFormatterByLanguage = result.formatterByLanguage ?? {};
+        applyFormatterEngineSelections();
+
+        renderLanguageOverrides(
+          result.languageOverrides ?? defaultSettings.languageOverrides,
+        );
+
+        profiles = result.profiles ?? [];
+        profileRules = result.profileRules ?? [];
+        renderProfiles();
+        renderProfileRules();
+
         syncLineHeightElements();
 
         showNotification("Settings loaded successfully", "success", 2000);
@@ -411,6 +991,8 @@ document.addEventListener("DOMContentLoaded", function (): void {
           : defaultSettings.trailingComma,
       autoFormatOnType: autoFormatOnType.checked,
       formatOnPasteMinLength: formatOnPasteMinLengthNum,
+      useProjectConfig: useProjectConfig.checked,
+      inlineCodeBlocks: inlineCodeBlocks.checked,
       // js-beautify options
       e4x: e4x.checked,
       spaceInEmptyParens: spaceInEmptyParens.checked,
@@ -433,9 +1015,23 @@ document.addEventListener("DOMContentLoaded", function (): void {
         commaPosition.value === "before" || commaPosition.value === "after"
           ? commaPosition.value
           : defaultSettings.commaPosition,
+      // NDJSON options
+      ndjsonStyle:
+        ndjsonStyle.value === "compact" || ndjsonStyle.value === "pretty"
+          ? ndjsonStyle.value
+          : defaultSettings.ndjsonStyle,
+      formatterByLanguage: collectFormatterEngineSelections(),
+      languageOverrides: collectLanguageOverrides(),
     };
 
-    chrome.storage.sync.set(settings, function (): void {
+    // Profiles are not part of the reset defaults, so they are stored here
+    const stored: StorageResult = {
+      ...settings,
+      profiles,
+      profileRules: collectProfileRules(),
+    };
+
+    chrome.storage.sync.set(stored, function (): void {
       if (chrome.runtime.lastError) {
         console.warn(
           "[Code Formatter] Storage save error:",
@@ -473,6 +1069,8 @@ document.addEventListener("DOMContentLoaded", function (): void {
     formatOnPasteMinLength.value = String(
       defaultSettings.formatOnPasteMinLength,
     );
+    useProjectConfig.checked = defaultSettings.useProjectConfig;
+    inlineCodeBlocks.checked = defaultSettings.inlineCodeBlocks;
 
     // js-beautify options
     e4x.checked = defaultSettings.e4x;
@@ -485,6 +1083,14 @@ document.addEventListener("DOMContentLoaded", function (): void {
     keywordCase.value = defaultSettings.keywordCase;
     commaPosition.value = defaultSettings.commaPosition;
 
+    // NDJSON options
+    ndjsonStyle.value = defaultSettings.ndjsonStyle;
+
+    savedFormatterByLanguage = {};
+    applyFormatterEngineSelections();
+
+    renderLanguageOverrides(defaultSettings.languageOverrides);
+
     syncLineHeightElements();
 
     chrome.storage.sync.set(defaultSettings, function (): void {
@@ -502,6 +1108,8 @@ document.addEventListener("DOMContentLoaded", function (): void {
 
   // Initialize
   loadSettings();
+  loadFormatterEngines();
+  loadCacheStats();
 
   /**
    * Handles keyboard shortcuts
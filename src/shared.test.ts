@@ -1,5 +1,5 @@
 /**
- * Unit tests for shared constants and types
+ * Unit tests for shared constants, types and settings helpers
  */
 import { describe, it, expect } from "vitest";
 import {
@@ -9,6 +9,11 @@ import {
   ELEMENT_IDS,
   CSS_CLASSES,
 } from "./shared/constants";
+import {
+  matchesUrlPattern,
+  resolveLanguageSettings,
+  resolveProfile,
+} from "./shared/utils";
 
 describe("EXTENSION_MAP", () => {
   it("should map common JS extensions", () => {
@@ -84,3 +89,152 @@ describe("CSS_CLASSES", () => {
     expect(unique.size).toBe(classes.length);
   });
 });
+
+describe("matchesUrlPattern", () => {
+  it("should match the host alone when the pattern has no path", () => {
+    expect(
+      matchesUrlPattern("git.example.com", "https://git.example.com/a/b.go"),
+    ).toBe(true);
+    expect(
+      matchesUrlPattern("*.corp.example", "https://code.corp.example/x"),
+    ).toBe(true);
+    expect(
+      matchesUrlPattern("*.corp.example", "https://corp.example.org/x"),
+    ).toBe(false);
+  });
+
+  it("should match host and path when the pattern has a path", () => {
+    expect(
+      matchesUrlPattern(
+        "git.example.com/backend/*",
+        "https://git.example.com/backend/main.go",
+      ),
+    ).toBe(true);
+    expect(
+      matchesUrlPattern(
+        "git.example.com/backend/*",
+        "https://git.example.com/frontend/app.ts",
+      ),
+    ).toBe(false);
+  });
+
+  it("should ignore a scheme in the pattern and treat dots literally", () => {
+    expect(
+      matchesUrlPattern(
+        "https://git.example.com/*",
+        "https://git.example.com/a",
+      ),
+    ).toBe(true);
+    expect(
+      matchesUrlPattern("git.example.com", "https://gitxexample.com/"),
+    ).toBe(false);
+  });
+
+  it("should not match empty patterns or invalid URLs", () => {
+    expect(matchesUrlPattern("  ", "https://example.com/")).toBe(false);
+    expect(matchesUrlPattern("*", "not a url")).toBe(false);
+  });
+});
+
+describe("resolveProfile", () => {
+  const profiles = [
+    {
+      id: "go",
+      name: "Backend Go",
+      settings: { indentSize: 8, useTabs: true },
+    },
+    {
+      id: "web",
+      name: "Frontend 4-space",
+      settings: { indentSize: 4, theme: "nord" as const },
+    },
+  ];
+
+  it("should use the first matching rule", () => {
+    const profile = resolveProfile(
+      {
+        profiles,
+        profileRules: [
+          { pattern: "git.example.com/backend/*", profileId: "go" },
+          { pattern: "git.example.com", profileId: "web" },
+        ],
+      },
+      "https://git.example.com/backend/main.go",
+    );
+    expect(profile?.name).toBe("Backend Go");
+    expect(profile?.settings).toEqual({ indentSize: 8, useTabs: true });
+  });
+
+  it("should keep only formatting settings", () => {
+    const profile = resolveProfile(
+      { profiles, profileRules: [{ pattern: "*", profileId: "web" }] },
+      "https://example.com/",
+    );
+    expect(profile?.settings).toEqual({ indentSize: 4 });
+  });
+
+  it("should skip rules whose profile was deleted", () => {
+    const profile = resolveProfile(
+      {
+        profiles,
+        profileRules: [
+          { pattern: "*", profileId: "gone" },
+          { pattern: "*", profileId: "web" },
+        ],
+      },
+      "https://example.com/",
+    );
+    expect(profile?.id).toBe("web");
+  });
+
+  it("should return null when no rule matches", () => {
+    expect(resolveProfile({ profiles }, "https://example.com/")).toBeNull();
+  });
+});
+
+describe("resolveLanguageSettings", () => {
+  it("should keep the global settings for languages without conventions", () => {
+    const settings = { ...DEFAULT_SETTINGS, indentSize: 8 };
+    expect(resolveLanguageSettings(settings, "javascript").indentSize).toBe(8);
+  });
+
+  it("should apply the language defaults over the global settings", () => {
+    const settings = resolveLanguageSettings(DEFAULT_SETTINGS, "go");
+    expect(settings.useTabs).toBe(true);
+    expect(settings.indentSize).toBe(4);
+    expect(settings.singleQuote).toBe(DEFAULT_SETTINGS.singleQuote);
+  });
+
+  it("should apply the user's override over the language defaults", () => {
+    const settings = resolveLanguageSettings(
+      {
+        ...DEFAULT_SETTINGS,
+        languageOverrides: { python: { indentSize: 2 } },
+      },
+      "Python",
+    );
+    expect(settings.indentSize).toBe(2);
+    expect(settings.useTabs).toBe(false);
+  });
+
+  it("should apply the site profile over the language defaults", () => {
+    const settings = resolveLanguageSettings(DEFAULT_SETTINGS, "go", {
+      useTabs: false,
+      indentSize: 2,
+    });
+    expect(settings.useTabs).toBe(false);
+    expect(settings.indentSize).toBe(2);
+  });
+
+  it("should apply the user's override over the site profile", () => {
+    const settings = resolveLanguageSettings(
+      {
+        ...DEFAULT_SETTINGS,
+        languageOverrides: { python: { indentSize: 3 } },
+      },
+      "python",
+      { indentSize: 2 },
+    );
+    expect(settings.indentSize).toBe(3);
+  });
+});
@@ -1,4 +1,4 @@
-import type { ExtensionSettings } from "./types";
+import type { DataFormat, ExtensionSettings, LanguageSettings } from "./types";
 
 export const LANGUAGES_BY_EXTENSION: Record<string, string> = {
   js: "javascript",
@@ -8,6 +8,8 @@ export const LANGUAGES_BY_EXTENSION: Record<string, string> = {
   ts: "typescript",
   tsx: "typescript",
   json: "json",
+  jsonl: "ndjson",
+  ndjson: "ndjson",
   css: "css",
   scss: "scss",
   less: "less",
@@ -38,6 +40,7 @@ export const EXTENSIONS_BY_LANGUAGE: Record<string, string> = {
   javascript: "js",
   typescript: "ts",
   json: "json",
+  ndjson: "ndjson",
   css: "css",
   scss: "scss",
   less: "less",
@@ -56,10 +59,37 @@ export const EXTENSIONS_BY_LANGUAGE: Record<string, string> = {
   dart: "dart",
 };
 
+export const LANGUAGE_LABELS: Record<string, string> = {
+  javascript: "JavaScript",
+  typescript: "TypeScript",
+  jsx: "JSX",
+  tsx: "TSX",
+  json: "JSON",
+  ndjson: "NDJSON",
+  css: "CSS",
+  scss: "SCSS",
+  less: "LESS",
+  html: "HTML",
+  xml: "XML",
+  python: "Python",
+  markdown: "Markdown",
+  go: "Go",
+  rust: "Rust",
+  sql: "SQL",
+  yaml: "YAML",
+  toml: "TOML",
+  ruby: "Ruby",
+  lua: "Lua",
+  zig: "Zig",
+  dart: "Dart",
+};
+
 export const ELEMENT_IDS = {
   RENDERER: "code-formatter-renderer",
   TOOLBAR: "code-formatter-toolbar",
   BUTTON_THEME: "code-formatter-toolbar-button-theme",
+  BUTTON_FORMATTER: "code-formatter-toolbar-button-formatter",
+  BUTTON_LANGUAGE: "code-formatter-toolbar-button-language",
   BUTTON_COLLAPSE: "code-formatter-toolbar-button-collapse",
   BUTTON_EXPAND: "code-formatter-toolbar-button-expand",
   BUTTON_SEARCH: "code-formatter-toolbar-button-search",
@@ -67,9 +97,26 @@ export const ELEMENT_IDS = {
   BUTTON_COPY: "code-formatter-toolbar-button-copy",
   BUTTON_DOWNLOAD: "code-formatter-toolbar-button-download",
   BUTTON_OPEN_FILE: "code-formatter-toolbar-button-open-file",
+  BUTTON_DIFF: "code-formatter-toolbar-button-diff",
+  BUTTON_DIFF_MODE: "code-formatter-toolbar-button-diff-mode",
+  BUTTON_DIFF_PREV: "code-formatter-toolbar-button-diff-prev",
+  BUTTON_DIFF_NEXT: "code-formatter-toolbar-button-diff-next",
+  BUTTON_JSON_TOOLS: "code-formatter-toolbar-button-json-tools",
+  JSON_QUERY_INPUT: "code-formatter-json-query",
+  BUTTON_TREE: "code-formatter-toolbar-button-tree",
+  BUTTON_CONVERT: "code-formatter-toolbar-button-convert",
+  BUTTON_PREVIEW: "code-formatter-toolbar-button-preview",
+  BUTTON_EDIT: "code-formatter-toolbar-button-edit",
+  BUTTON_REVERT: "code-formatter-toolbar-button-revert",
+  LANGUAGE_ALTERNATIVES: "code-formatter-toolbar-language-alternatives",
+  MARKDOWN_PREVIEW: "code-formatter-preview",
+  TREE_VIEW: "code-formatter-tree",
+  DIFF_VIEW: "code-formatter-diff",
   STATUS_BAR: "code-formatter-status-bar",
   DROP_ZONE: "code-formatter-drop-zone",
   FILE_INPUT: "code-formatter-file-input",
+  INLINE_TOOLBAR: "code-formatter-inline-toolbar",
+  INLINE_EDITOR: "code-formatter-inline-editor",
 } as const;
 
 export const CSS_CLASSES = {
@@ -77,10 +124,45 @@ export const CSS_CLASSES = {
   TOOLBAR_BUTTON: "code-formatter-toolbar__button",
   TOOLBAR_SEPARATOR: "code-formatter-toolbar__separator",
   TOOLBAR_SELECT: "code-formatter-toolbar__select",
+  TOOLBAR_DIFF_CONTROLS: "code-formatter-toolbar__diff-controls",
+  TOOLBAR_DIFF_COUNT: "code-formatter-toolbar__diff-count",
+  TOOLBAR_JSON_TOOLS: "code-formatter-toolbar__json-tools",
+  TOOLBAR_JSON_QUERY: "code-formatter-toolbar__json-query",
+  TOOLBAR_ALTERNATIVES: "code-formatter-toolbar__alternatives",
+  DIFF_VIEW: "code-formatter-diff",
+  TREE_VIEW: "code-formatter-tree",
+  TREE_NODE: "code-formatter-tree__node",
+  TREE_ROW: "code-formatter-tree__row",
+  TREE_ROW_EXPANDABLE: "code-formatter-tree__row--expandable",
+  TREE_TOGGLE: "code-formatter-tree__toggle",
+  TREE_KEY: "code-formatter-tree__key",
+  TREE_BADGE: "code-formatter-tree__badge",
+  TREE_SIZE: "code-formatter-tree__size",
+  TREE_VALUE: "code-formatter-tree__value",
+  TREE_CHILDREN: "code-formatter-tree__children",
+  TREE_MORE: "code-formatter-tree__more",
+  MARKDOWN_PREVIEW: "code-formatter-preview",
+  MARKDOWN_BLOCK: "code-formatter-preview__block",
+  MARKDOWN_CODE: "code-formatter-preview__code",
+  INLINE_TOOLBAR: "code-formatter-inline-toolbar",
+  INLINE_BUTTON: "code-formatter-inline-toolbar__button",
+  INLINE_SELECT: "code-formatter-inline-toolbar__select",
+  INLINE_EDITOR: "code-formatter-inline-editor",
+  INLINE_EDITOR_HEADER: "code-formatter-inline-editor__header",
+  INLINE_EDITOR_BODY: "code-formatter-inline-editor__body",
+  INLINE_FORMATTED: "code-formatter-inline--formatted",
   LOADED: "code-formatter-is-loaded",
   STATUS_BAR: "code-formatter-status-bar",
   STATUS_BAR_ITEM: "code-formatter-status-bar__item",
   STATUS_BAR_FILENAME: "code-formatter-status-bar__filename",
+  STATUS_BAR_LANGUAGE: "code-formatter-status-bar__language",
+  STATUS_BAR_FORMATTER: "code-formatter-status-bar__formatter",
+  STATUS_BAR_FORMATTER_FALLBACK:
+    "code-formatter-status-bar__formatter--fallback",
+  STATUS_BAR_ERRORS: "code-formatter-status-bar__errors",
+  STATUS_BAR_CONFIG: "code-formatter-status-bar__config",
+  STATUS_BAR_PROGRESS: "code-formatter-status-bar__progress",
+  STATUS_BAR_DIRTY: "code-formatter-status-bar__dirty",
   SKELETON: "code-formatter-skeleton",
   SKELETON_LINE: "code-formatter-skeleton__line",
   DROP_ZONE: "code-formatter-drop-zone",
@@ -119,6 +201,7 @@ export const PERFORMANCE_THRESHOLDS = {
   HUGE_FILE_LINES: 50000,
   MAX_FILE_SIZE: 5 * 1024 * 1024,
   CHUNK_SIZE: 5000,
+  CHUNK_MAX_CHARS: 256 * 1024,
 } as const;
 
 export const DEFAULT_SETTINGS: ExtensionSettings = {
@@ -139,33 +222,46 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
   quoteStyleWasm: "preserve",
   keywordCase: "preserve",
   commaPosition: "before",
+  ndjsonStyle: "compact",
+  formatterByLanguage: {},
+  languageOverrides: {},
   autoFormatOnType: false,
   formatOnPasteMinLength: 5,
+  useProjectConfig: true,
+  inlineCodeBlocks: true,
 };
 
-export const LANGUAGE_DEFAULTS: Record<
-  string,
-  { indentSize: number; useTabs: boolean; singleQuote: boolean; semi: boolean }
-> = {
-  javascript: { indentSize: 2, useTabs: false, singleQuote: true, semi: true },
-  typescript: { indentSize: 2, useTabs: false, singleQuote: true, semi: true },
-  python: { indentSize: 4, useTabs: false, singleQuote: true, semi: true },
-  go: { indentSize: 4, useTabs: true, singleQuote: true, semi: true },
-  java: { indentSize: 4, useTabs: false, singleQuote: false, semi: true },
-  css: { indentSize: 2, useTabs: false, singleQuote: false, semi: true },
-  html: { indentSize: 2, useTabs: false, singleQuote: false, semi: true },
-  json: { indentSize: 2, useTabs: false, singleQuote: false, semi: true },
-  rust: { indentSize: 4, useTabs: false, singleQuote: true, semi: true },
-  sql: { indentSize: 2, useTabs: false, singleQuote: false, semi: true },
-  yaml: { indentSize: 2, useTabs: false, singleQuote: false, semi: true },
-  toml: { indentSize: 2, useTabs: false, singleQuote: false, semi: true },
-  markdown: { indentSize: 2, useTabs: false, singleQuote: false, semi: true },
+// Settings a profile may override; display settings stay global
+export const PROFILE_SETTING_KEYS: ReadonlyArray<keyof ExtensionSettings> = [
+  "indentSize",
+  "useTabs",
+  "singleQuote",
+  "semi",
+  "trailingComma",
+  "e4x",
+  "spaceInEmptyParens",
+  "unescapeStrings",
+  "keepArrayIndentation",
+  "quoteStyleWasm",
+  "keywordCase",
+  "commaPosition",
+  "ndjsonStyle",
+];
+
+// Conventions a language's own tooling enforces (PEP 8, gofmt, rustfmt).
+// They take precedence over the global settings and can in turn be
+// overridden per language by the user
+export const LANGUAGE_DEFAULTS: Record<string, LanguageSettings> = {
+  python: { indentSize: 4, useTabs: false },
+  go: { indentSize: 4, useTabs: true },
+  rust: { indentSize: 4, useTabs: false },
 };
 
 export const FORMATTABLE_LANGUAGES = new Set([
   "javascript",
   "typescript",
   "json",
+  "ndjson",
   "css",
   "scss",
   "html",
@@ -194,3 +290,12 @@ export const CONTEXT_MENU_LANGUAGE_MAP: Record<string, string> = {
   formatYAML: "yaml",
   formatTOML: "toml",
 };
+
+export const DATA_FORMATS: readonly DataFormat[] = ["json", "yaml", "toml"];
+
+/** Context menu items of the "Convert to…" submenu, by target format */
+export const CONTEXT_MENU_CONVERT_MAP: Record<string, DataFormat> = {
+  convertToJSON: "json",
+  convertToYAML: "yaml",
+  convertToTOML: "toml",
+};
@@ -2,6 +2,14 @@
  * Shared type definitions across the extension
  */
 
+import type {
+  FormatDiagnostic,
+  FormatRange,
+  SkippedFormatter,
+} from "../formatters/types";
+import type { FormatCacheStats } from "../formatters/format-cache";
+import type { JsonTool } from "../formatters/json-tools";
+
 /** User-configurable extension settings */
 export interface ExtensionSettings {
   indentSize: number;
@@ -15,6 +23,10 @@ export interface ExtensionSettings {
   singleQuote?: boolean;
   semi?: boolean;
   trailingComma?: "none" | "es5" | "all";
+  // Set by a project's .prettierrc, Prettier's defaults otherwise
+  printWidth?: number;
+  bracketSpacing?: boolean;
+  arrowParens?: "always" | "avoid";
   // js-beautify options
   e4x?: boolean;
   spaceInEmptyParens?: boolean;
@@ -24,9 +36,53 @@ export interface ExtensionSettings {
   quoteStyleWasm?: "single" | "double" | "preserve";
   keywordCase?: "upper" | "lower" | "preserve";
   commaPosition?: "before" | "after";
+  // TOML options
+  alignEntries?: boolean;
+  alignComments?: boolean;
+  indentTables?: boolean;
+  // NDJSON: one record per line, or each record pretty-printed
+  ndjsonStyle?: "compact" | "pretty";
+  // Formatter engine per language, e.g. { javascript: "js-beautify" }
+  formatterByLanguage?: Record<string, string>;
+  // User overrides per language, e.g. { python: { indentSize: 2 } }
+  languageOverrides?: Record<string, LanguageSettings>;
   // Feature flags
   autoFormatOnType?: boolean;
   formatOnPasteMinLength?: number;
+  useProjectConfig?: boolean;
+  // Hover toolbars on the code blocks of pages that are not all code
+  inlineCodeBlocks?: boolean;
+  // Named profiles and the URL rules that pick one per site
+  profiles?: SettingsProfile[];
+  profileRules?: ProfileRule[];
+}
+
+/** Formatting settings that can differ per language */
+export type LanguageSettings = Partial<
+  Pick<
+    ExtensionSettings,
+    | "indentSize"
+    | "useTabs"
+    | "singleQuote"
+    | "semi"
+    | "trailingComma"
+    | "quoteStyleWasm"
+    | "keywordCase"
+    | "commaPosition"
+  >
+>;
+
+/** Named set of formatting settings, e.g. "Backend Go" */
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: Partial<ExtensionSettings>;
+}
+
+/** Assigns a profile to pages whose URL matches a glob pattern */
+export interface ProfileRule {
+  pattern: string;
+  profileId: string;
 }
 
 /** Available theme names */
@@ -58,20 +114,75 @@ export type LanguageId =
   | "sql"
   | "yaml"
   | "toml"
+  | "ndjson"
   | "ruby";
 
+/** Data formats documents can be converted between */
+export type DataFormat = "json" | "yaml" | "toml";
+
 /** Messages sent between content script and background */
 export interface FormatMessage {
   action: "format";
   language: string;
   code: string;
   settings?: Partial<ExtensionSettings>;
+  /** Settings for the code blocks of a Markdown document, by language */
+  embeddedSettings?: Record<string, Partial<ExtensionSettings>>;
+  /** Lets a later cancelFormat message abort this request */
+  jobId?: string;
+}
+
+/** Abort a format request that a newer one has superseded */
+export interface CancelFormatMessage {
+  action: "cancelFormat";
+  jobId: string;
+}
+
+/** Format only a region of the code, e.g. the selected lines */
+export interface FormatRangeMessage {
+  action: "formatRange";
+  language: string;
+  code: string;
+  range: FormatRange;
+  settings?: Partial<ExtensionSettings>;
+}
+
+/** Run a JSON tool (sort keys, minify, JSONPath query...) over a document */
+export interface JsonToolMessage {
+  action: "jsonTool";
+  tool: JsonTool;
+  language: string;
+  code: string;
+  /** JSONPath expression, for the "query" tool */
+  query?: string;
+  settings?: Partial<ExtensionSettings>;
+}
+
+/** Convert a document to another data format (JSON, YAML or TOML) */
+export interface ConvertMessage {
+  action: "convert";
+  /** Target format */
+  language: DataFormat;
+  code: string;
+  /** Source format, detected from the code when omitted */
+  from?: DataFormat;
+  settings?: Partial<ExtensionSettings>;
 }
 
 export interface FormatResponse {
   success: boolean;
   code?: string;
   error?: string;
+  /** Name of the formatter engine that produced the output */
+  formatter?: string;
+  /** Engines tried before it, and why they failed */
+  skipped?: SkippedFormatter[];
+  /** Located syntax errors when formatting failed */
+  diagnostics?: FormatDiagnostic[];
+  /** The request was cancelled by a cancelFormat message */
+  cancelled?: boolean;
+  /** What a conversion could not carry over, e.g. comments */
+  warnings?: string[];
 }
 
 export interface FormatSelectionMessage {
@@ -80,13 +191,25 @@ export interface FormatSelectionMessage {
   code: string;
 }
 
+export interface ConvertSelectionMessage {
+  action: "convertSelection";
+  /** Target format */
+  language: DataFormat;
+  code: string;
+}
+
 export interface GetLanguageMessage {
   action: "getLanguage";
 }
 
 export type ExtensionMessage =
   | FormatMessage
+  | FormatRangeMessage
+  | JsonToolMessage
+  | ConvertMessage
+  | CancelFormatMessage
   | FormatSelectionMessage
+  | ConvertSelectionMessage
   | GetLanguageMessage
   | { action: string; [key: string]: unknown };
 
@@ -98,6 +221,24 @@ export interface GetSupportedLanguagesResponse {
   languages: string[];
 }
 
+/** A formatter engine that can be picked for a language */
+export interface FormatterOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface GetFormattersResponse {
+  success: boolean;
+  /** Candidate engines per language, highest priority first */
+  formatters: Record<string, FormatterOption[]>;
+}
+
+export interface GetCacheStatsResponse {
+  success: boolean;
+  stats: FormatCacheStats;
+}
+
 export interface CheckLanguageSupportResponse {
   success: boolean;
   isSupported: boolean;
@@ -109,5 +250,7 @@ export interface CheckLanguageSupportResponse {
 export type BackgroundResponse =
   | FormatResponse
   | GetSupportedLanguagesResponse
+  | GetFormattersResponse
+  | GetCacheStatsResponse
   | CheckLanguageSupportResponse
   | { success: boolean; error: string };
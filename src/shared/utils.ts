@@ -1,4 +1,11 @@
-import { LANGUAGES_BY_EXTENSION } from "./constants";
+import {
+  DATA_FORMATS,
+  LANGUAGES_BY_EXTENSION,
+  LANGUAGE_DEFAULTS,
+  LANGUAGE_LABELS,
+  PROFILE_SETTING_KEYS,
+} from "./constants";
+import type { DataFormat, ExtensionSettings, SettingsProfile } from "./types";
 
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
@@ -87,7 +94,7 @@ export function detectLanguageFromUrl(): string | null {
   const url = window.location.href;
 
   const codeExtensions =
-    /\.(js|jsx|ts|tsx|mjs|cjs|json|py|pyi|go|rs|sql|html|htm|xml|css|scss|less|md|yml|yaml|toml|rb|lua|zig|dart)$/i;
+    /\.(js|jsx|ts|tsx|mjs|cjs|json|jsonl|ndjson|py|pyi|go|rs|sql|html|htm|xml|css|scss|less|md|yml|yaml|toml|rb|lua|zig|dart)$/i;
   const match = url.match(codeExtensions);
 
   if (match) {
@@ -130,3 +137,101 @@ export function getLanguageFromFilename(filename: string): string | null {
 
   return LANGUAGES_BY_EXTENSION[ext] || null;
 }
+
+export function getLanguageLabel(language: string): string {
+  const lang = language.toLowerCase();
+  return LANGUAGE_LABELS[lang] || lang.charAt(0).toUpperCase() + lang.slice(1);
+}
+
+/**
+ * Language of a name found in markup, e.g. the "ts" of a fence's info
+ * string or the "python" of a "language-python" class
+ */
+export function getLanguageFromName(name: string): string | null {
+  const key = name.toLowerCase();
+  if (!key) return null;
+  if (LANGUAGES_BY_EXTENSION[key]) return LANGUAGES_BY_EXTENSION[key];
+  return Object.prototype.hasOwnProperty.call(LANGUAGE_LABELS, key)
+    ? key
+    : null;
+}
+
+/**
+ * Whether a language is a data format documents can be converted to
+ */
+export function isDataFormat(language: string): language is DataFormat {
+  return (DATA_FORMATS as readonly string[]).includes(language);
+}
+
+/**
+ * Settings to format a language with
+ * Layers the language's own conventions, then the site's profile and then
+ * the user's override for that language over the global settings. The
+ * built-in conventions never win over what a profile sets explicitly
+ */
+export function resolveLanguageSettings(
+  settings: ExtensionSettings,
+  language: string,
+  profile: Partial<ExtensionSettings> = {},
+): ExtensionSettings {
+  const lang = language.toLowerCase();
+  const { languageOverrides } = { ...settings, ...profile };
+  return {
+    ...settings,
+    ...LANGUAGE_DEFAULTS[lang],
+    ...profile,
+    ...languageOverrides?.[lang],
+  };
+}
+
+/**
+ * Check a URL against a profile rule pattern
+ * Patterns are globs over host and path, e.g. "git.example.com/backend/*";
+ * a pattern without a "/" only has to match the host, e.g. "*.corp.example"
+ */
+export function matchesUrlPattern(pattern: string, url: string): boolean {
+  const glob = pattern.trim().replace(/^[a-z][a-z0-9+.-]*:\/\//i, "");
+  if (!glob) return false;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const target = glob.includes("/")
+    ? parsed.host + parsed.pathname
+    : parsed.host;
+  const source = glob
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(target);
+}
+
+/**
+ * Find the profile assigned to a URL
+ * Rules are checked in order and the first one that matches wins. Only
+ * the formatting settings of the profile are kept
+ */
+export function resolveProfile(
+  settings: Pick<ExtensionSettings, "profiles" | "profileRules">,
+  url: string,
+): SettingsProfile | null {
+  for (const rule of settings.profileRules ?? []) {
+    if (!matchesUrlPattern(rule.pattern, url)) continue;
+
+    const profile = settings.profiles?.find((p) => p.id === rule.profileId);
+    if (!profile) continue;
+
+    const profileSettings: Partial<ExtensionSettings> = {};
+    for (const key of PROFILE_SETTING_KEYS) {
+      if (profile.settings[key] !== undefined) {
+        Object.assign(profileSettings, { [key]: profile.settings[key] });
+      }
+    }
+    return { ...profile, settings: profileSettings };
+  }
+  return null;
+}